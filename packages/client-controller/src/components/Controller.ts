@@ -1,16 +1,29 @@
 import { InputAction } from '@astroparty/shared';
+import { TEAM_NAMES, GAME_SETTINGS_LIMITS } from '@astroparty/shared';
+import type {
+  BotDifficulty,
+  GameModeConfig,
+  GameMode,
+  FriendlyFireMode,
+  WinCondition,
+  GameSettings,
+} from '@astroparty/shared';
 import { SocketClient } from '../network/SocketClient';
+import { MapPicker } from './MapPicker';
 
 export class Controller {
   private playerId: string = '';
   private socketClient!: SocketClient;
+  private mapPicker!: MapPicker;
 
   // Controller should receive the socket client, not create a new one
   start(playerId: string, socketClient: SocketClient): void {
     this.playerId = playerId;
     this.socketClient = socketClient;
+    this.mapPicker = new MapPicker(socketClient);
     this.setupControls();
     this.setupPhaseButtons();
+    this.setupSettingsControls();
     this.listenForGameState();
   }
 
@@ -27,6 +40,64 @@ export class Controller {
       this.socketClient.emit('playAgain');
       this.vibrate(30);
     });
+
+    const botDifficulty = document.getElementById('bot-difficulty') as HTMLSelectElement;
+    document.getElementById('add-bot-button')!.addEventListener('click', () => {
+      this.socketClient.emit('addBot', botDifficulty.value as BotDifficulty);
+      this.vibrate(15);
+    });
+
+    document.getElementById('remove-bot-button')!.addEventListener('click', () => {
+      this.socketClient.emit('removeBot');
+      this.vibrate(15);
+    });
+
+    const gameMode = document.getElementById('game-mode') as HTMLSelectElement;
+    const teamCount = document.getElementById('team-count') as HTMLSelectElement;
+    const friendlyFire = document.getElementById('friendly-fire') as HTMLSelectElement;
+    const winCondition = document.getElementById('win-condition') as HTMLSelectElement;
+    const lives = document.getElementById('lives') as HTMLSelectElement;
+    const sendGameMode = () => {
+      this.socketClient.emit('setGameMode', {
+        mode: gameMode.value as GameMode,
+        teamCount: Number(teamCount.value),
+        friendlyFire: friendlyFire.value as FriendlyFireMode,
+        winCondition: winCondition.value as WinCondition,
+        lives: Number(lives.value),
+      });
+      this.vibrate(15);
+    };
+    for (const select of [gameMode, teamCount, friendlyFire, winCondition, lives]) {
+      select.addEventListener('change', sendGameMode);
+    }
+  }
+
+  /**
+   * Number inputs for the match settings. Times are edited in seconds and sent in ms.
+   */
+  private setupSettingsControls(): void {
+    const inputs = this.getSettingInputs();
+
+    for (const input of inputs) {
+      const key = input.dataset.setting as keyof GameSettings;
+      const scale = Number(input.dataset.scale);
+      input.min = String(GAME_SETTINGS_LIMITS[key].min / scale);
+      input.max = String(GAME_SETTINGS_LIMITS[key].max / scale);
+
+      input.addEventListener('change', () => {
+        const settings = {} as GameSettings;
+        for (const other of inputs) {
+          settings[other.dataset.setting as keyof GameSettings] =
+            Math.round(Number(other.value) * Number(other.dataset.scale) * 100) / 100;
+        }
+        this.socketClient.emit('setGameSettings', settings);
+        this.vibrate(15);
+      });
+    }
+  }
+
+  private getSettingInputs(): HTMLInputElement[] {
+    return Array.from(document.querySelectorAll<HTMLInputElement>('#settings-controls input'));
   }
 
   private setupControls(): void {
@@ -94,7 +165,6 @@ export class Controller {
 
   private sendInput(action: InputAction): void {
     this.socketClient.sendInput({
-      playerId: this.playerId,
       action,
       timestamp: Date.now(),
     });
@@ -103,15 +173,21 @@ export class Controller {
   private listenForGameState(): void {
     // Listen for optimized player updates
     this.socketClient.on('playerState', (state) => {
-      this.updateAmmoDisplay(state.ammo);
+      this.updateAmmoDisplay(state.ammo, state.settings.clipSize);
       this.updatePlayerColor(state.color);
       this.updatePowerUpIndicators(state);
-      this.updateGamePhase(state.phase, state.hostPlayerId);
+      this.updateGamePhase(state.phase, state.hostPlayerId, state.lives);
+      this.updateBotControls(state.phase, state.hostPlayerId, state.botCount);
+      this.updateModeControls(state.phase, state.hostPlayerId, state.modeConfig, state.team);
+      this.updateSettingsControls(state.phase, state.hostPlayerId, state.settings);
+      this.mapPicker.update(state.phase, state.hostPlayerId === this.playerId);
     });
   }
 
-  private updateGamePhase(phase: string, hostPlayerId: string | null): void {
+  private updateGamePhase(phase: string, hostPlayerId: string | null, lives: number | null): void {
     const controls = document.getElementById('controls')!;
+    const eliminatedScreen = document.getElementById('eliminated-screen')!;
+    const isEliminated = phase === 'PLAYING' && lives === 0;
     const startButton = document.getElementById('start-game-button')!;
     const playAgainButton = document.getElementById('play-again-button')!;
 
@@ -129,8 +205,8 @@ export class Controller {
         playAgainButton.style.display = 'none';
       }
     } else if (phase === 'PLAYING') {
-      // Show game controls
-      controls.style.display = 'flex';
+      // Show game controls (out-of-lives players just watch)
+      controls.style.display = isEliminated ? 'none' : 'flex';
       startButton.style.display = 'none';
       playAgainButton.style.display = 'none';
     } else if (phase === 'ENDED') {
@@ -139,9 +215,71 @@ export class Controller {
       startButton.style.display = 'none';
       playAgainButton.style.display = 'flex';
     }
+
+    eliminatedScreen.style.display = isEliminated ? 'flex' : 'none';
+    document.getElementById('special-controls')!.style.display = isEliminated ? 'none' : 'flex';
+    document.getElementById('player-lives')!.textContent =
+      lives !== null && lives > 0 ? '❤'.repeat(lives) : '';
+  }
+
+  private updateBotControls(phase: string, hostPlayerId: string | null, botCount: number): void {
+    const botControls = document.getElementById('bot-controls')!;
+    const isLobby = phase === 'WAITING' || phase === 'ENDED';
+
+    botControls.style.display = isLobby && hostPlayerId === this.playerId ? 'flex' : 'none';
+    document.getElementById('bot-count')!.textContent = `Bots: ${botCount}`;
+  }
+
+  private updateModeControls(
+    phase: string,
+    hostPlayerId: string | null,
+    modeConfig: GameModeConfig,
+    team: number | null
+  ): void {
+    const modeControls = document.getElementById('mode-controls')!;
+    const isLobby = phase === 'WAITING' || phase === 'ENDED';
+    const isTeamMode = modeConfig.mode === 'TEAM_DEATHMATCH';
+
+    modeControls.style.display = isLobby && hostPlayerId === this.playerId ? 'flex' : 'none';
+    (document.getElementById('game-mode') as HTMLSelectElement).value = modeConfig.mode;
+    (document.getElementById('team-count') as HTMLSelectElement).value = String(modeConfig.teamCount);
+    (document.getElementById('friendly-fire') as HTMLSelectElement).value = modeConfig.friendlyFire;
+    (document.getElementById('win-condition') as HTMLSelectElement).value = modeConfig.winCondition;
+    (document.getElementById('lives') as HTMLSelectElement).value = String(modeConfig.lives);
+    // Team options only matter in team modes
+    document.getElementById('team-count')!.style.display = isTeamMode ? '' : 'none';
+    document.getElementById('friendly-fire')!.style.display = isTeamMode ? '' : 'none';
+    document.getElementById('lives')!.style.display = modeConfig.winCondition === 'ELIMINATION' ? '' : 'none';
+
+    document.getElementById('player-team')!.textContent =
+      team !== null ? `Team ${TEAM_NAMES[team]}` : '';
   }
 
-  private updateAmmoDisplay(ammo: number): void {
+  private updateSettingsControls(phase: string, hostPlayerId: string | null, settings: GameSettings): void {
+    const settingsControls = document.getElementById('settings-controls')!;
+    const isLobby = phase === 'WAITING' || phase === 'ENDED';
+    settingsControls.style.display = isLobby && hostPlayerId === this.playerId ? 'grid' : 'none';
+
+    for (const input of this.getSettingInputs()) {
+      // Don't overwrite what the host is typing
+      if (input === document.activeElement) continue;
+      input.value = String(settings[input.dataset.setting as keyof GameSettings] / Number(input.dataset.scale));
+    }
+  }
+
+  private updateAmmoDisplay(ammo: number, clipSize: number): void {
+    // One dot per charge (more while an ammo boost is active)
+    const ammoDisplay = document.getElementById('ammo-display')!;
+    const dotCount = Math.max(ammo, clipSize);
+    while (ammoDisplay.children.length < dotCount) {
+      const dot = document.createElement('div');
+      dot.className = 'ammo-dot';
+      ammoDisplay.append(dot);
+    }
+    while (ammoDisplay.children.length > dotCount) {
+      ammoDisplay.lastElementChild!.remove();
+    }
+
     const ammoDots = document.querySelectorAll('.ammo-dot');
     
     ammoDots.forEach((dot, index) => {
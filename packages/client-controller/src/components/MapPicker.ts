@@ -0,0 +1,152 @@
+import type { MapLobbyState, MapSummary, MapVoteCandidate } from '@astroparty/shared';
+import { SocketClient } from '../network/SocketClient';
+
+const THUMBNAIL_WIDTH = 96;
+
+/**
+ * Map choice on the controller: playlist and next map for the host,
+ * and the end-of-round vote for everyone
+ */
+export class MapPicker {
+  private socketClient: SocketClient;
+  private lobby: MapLobbyState | null = null;
+  private phase = 'WAITING';
+  private isHost = false;
+  private myVote: string | null = null;
+  private candidateKey = ''; // Candidate ids the vote cards were built for
+
+  constructor(socketClient: SocketClient) {
+    this.socketClient = socketClient;
+
+    const playlistSelect = document.getElementById('playlist-select') as HTMLSelectElement;
+    const nextMapSelect = document.getElementById('next-map-select') as HTMLSelectElement;
+
+    playlistSelect.addEventListener('change', () => {
+      this.socketClient.emit('setPlaylist', playlistSelect.value);
+    });
+
+    nextMapSelect.addEventListener('change', () => {
+      this.socketClient.emit('setNextMap', nextMapSelect.value || null);
+    });
+
+    this.socketClient.on('mapLobby', (lobby) => {
+      this.lobby = lobby;
+      this.render();
+    });
+  }
+
+  /**
+   * Called with every player state update
+   */
+  update(phase: string, isHost: boolean): void {
+    if (phase === this.phase && isHost === this.isHost) return;
+
+    this.phase = phase;
+    this.isHost = isHost;
+    this.render();
+  }
+
+  private render(): void {
+    const mapControls = document.getElementById('map-controls')!;
+    const mapVote = document.getElementById('map-vote')!;
+    const isLobby = this.phase === 'WAITING' || this.phase === 'ENDED';
+
+    if (!this.lobby) {
+      mapControls.style.display = 'none';
+      mapVote.style.display = 'none';
+      return;
+    }
+
+    mapControls.style.display = isLobby && this.isHost ? 'flex' : 'none';
+    this.renderHostControls(this.lobby);
+
+    const vote = this.phase === 'ENDED' ? this.lobby.vote : null;
+    mapVote.style.display = vote ? 'flex' : 'none';
+    if (vote) {
+      this.renderVote(vote);
+    } else {
+      this.candidateKey = '';
+      this.myVote = null;
+    }
+  }
+
+  private renderHostControls(lobby: MapLobbyState): void {
+    const playlistSelect = document.getElementById('playlist-select') as HTMLSelectElement;
+    const nextMapSelect = document.getElementById('next-map-select') as HTMLSelectElement;
+
+    playlistSelect.innerHTML = '';
+    for (const name of lobby.playlists) {
+      playlistSelect.append(new Option(`🔁 ${name}`, name));
+    }
+    playlistSelect.value = lobby.playlist;
+
+    nextMapSelect.innerHTML = '';
+    nextMapSelect.append(new Option(lobby.vote ? 'Next map: vote' : 'Next map: playlist', ''));
+    for (const map of lobby.maps) {
+      nextMapSelect.append(new Option(`🗺 ${map.name}`, map.id));
+    }
+    nextMapSelect.value = lobby.nextMap ?? '';
+
+    // Preview of the forced map
+    const preview = document.getElementById('next-map-preview') as HTMLImageElement;
+    const nextMap = lobby.maps.find(map => map.id === lobby.nextMap);
+    preview.style.display = nextMap ? 'block' : 'none';
+    if (nextMap) {
+      this.setThumbnail(preview, nextMap);
+    }
+  }
+
+  private renderVote(candidates: MapVoteCandidate[]): void {
+    const cards = document.getElementById('map-vote-cards')!;
+    const key = candidates.map(candidate => candidate.id).join('|');
+
+    // Build the cards (and thumbnails) once per vote, then only update counts
+    if (key !== this.candidateKey) {
+      this.candidateKey = key;
+      this.myVote = null;
+      cards.innerHTML = '';
+
+      for (const candidate of candidates) {
+        const card = document.createElement('button');
+        card.className = 'map-card';
+        card.dataset.mapId = candidate.id;
+
+        const name = document.createElement('div');
+        name.className = 'map-name';
+        name.textContent = candidate.name;
+
+        const votes = document.createElement('div');
+        votes.className = 'map-votes';
+
+        const thumbnail = document.createElement('img');
+        this.setThumbnail(thumbnail, candidate);
+
+        card.append(thumbnail, name, votes);
+        card.addEventListener('click', () => {
+          this.myVote = candidate.id;
+          this.socketClient.emit('voteMap', candidate.id);
+          if ('vibrate' in navigator) navigator.vibrate(15);
+        });
+        cards.append(card);
+      }
+    }
+
+    for (const card of Array.from(cards.children) as HTMLElement[]) {
+      const candidate = candidates.find(c => c.id === card.dataset.mapId);
+      card.classList.toggle('voted', card.dataset.mapId === this.myVote);
+      card.querySelector('.map-votes')!.textContent = `${candidate?.votes ?? 0} 🗳`;
+    }
+  }
+
+  /**
+   * Server-rendered preview, sized like the map
+   */
+  private setThumbnail(img: HTMLImageElement, map: MapSummary): void {
+    const src = `${this.socketClient.serverUrl}${map.thumbnail}`;
+    if (img.src === src) return; // Keep the loaded image across lobby updates
+    img.src = src;
+    img.alt = map.name;
+    img.width = THUMBNAIL_WIDTH;
+    img.height = Math.round((THUMBNAIL_WIDTH * map.height) / map.width);
+  }
+}
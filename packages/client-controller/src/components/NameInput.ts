@@ -1,27 +1,45 @@
+import { ROOM_CODE_LENGTH } from '@astroparty/shared';
+import type { JoinGameResponse } from '@astroparty/shared';
 import { SocketClient } from '../network/SocketClient';
 
 export class NameInput {
   private onJoinCallback?: (playerName: string, playerId: string) => void;
   private socketClient: SocketClient;
+  private hasJoined = false;
 
   constructor() {
     const serverUrl = import.meta.env.DEV ? 'http://localhost:3000' : window.location.origin;
     this.socketClient = new SocketClient(serverUrl);
 
+    this.takeOverLinkedSession();
+
     this.setupEventListeners();
     this.setupConnectionStatus();
+    this.setupSessionResume();
   }
 
   private setupEventListeners(): void {
+    const roomInput = document.getElementById('room-code-input') as HTMLInputElement;
     const input = document.getElementById('player-name-input') as HTMLInputElement;
     const button = document.getElementById('join-button') as HTMLButtonElement;
 
+    // Room code from the display's join link wins over the last used one
+    const linkedRoom = new URLSearchParams(window.location.search).get('room');
+    const recentRoom = window.localStorage.getItem('astro.roomCode');
+    roomInput.value = linkedRoom || recentRoom || '';
+
     const recentName = window.localStorage.getItem('astro.playerName');
     if (recentName) {
       input.value = recentName;
     }
 
     const joinGame = () => {
+      const roomCode = roomInput.value.trim().toUpperCase();
+      if (roomCode.length !== ROOM_CODE_LENGTH) {
+        alert('Please enter the room code shown on the display');
+        return;
+      }
+
       const playerName = input.value.trim();
       if (playerName.length === 0) {
         alert('Please enter a name');
@@ -33,22 +51,103 @@ export class NameInput {
       button.disabled = true;
       button.textContent = 'Joining...';
 
-      this.socketClient.joinGame(playerName, (playerId) => {
-        if (this.onJoinCallback) {
-          this.onJoinCallback(playerName, playerId);
+      this.socketClient.joinGame(roomCode, playerName, (response) => {
+        if (!response.success) {
+          alert(response.error);
+          button.disabled = false;
+          button.textContent = 'Join Game';
+          return;
         }
+
+        this.completeJoin(playerName, response);
       });
     };
 
     button.addEventListener('click', joinGame);
-    input.addEventListener('keypress', (e) => {
-      if (e.key === 'Enter') {
-        joinGame();
+    for (const field of [roomInput, input]) {
+      field.addEventListener('keypress', (e) => {
+        if (e.key === 'Enter') {
+          joinGame();
+        }
+      });
+    }
+
+    // Watching happens on the display client in spectator mode
+    const spectateLink = document.getElementById('spectate-link') as HTMLAnchorElement;
+    spectateLink.addEventListener('click', (e) => {
+      e.preventDefault();
+      const roomCode = roomInput.value.trim().toUpperCase();
+      if (roomCode.length !== ROOM_CODE_LENGTH) {
+        alert('Please enter the room code shown on the display');
+        return;
       }
+
+      const displayUrl = import.meta.env.DEV ? 'http://localhost:5173/' : `${window.location.origin}/display/`;
+      window.location.href = `${displayUrl}?spectate=${roomCode}`;
     });
 
-    // Auto-focus input
-    input.focus();
+    // Auto-focus the first empty field
+    (roomInput.value ? input : roomInput).focus();
+  }
+
+  /**
+   * A spectator that joined a round hands its session over through the URL.
+   * Store it like our own session so the normal resume picks it up.
+   */
+  private takeOverLinkedSession(): void {
+    const params = new URLSearchParams(window.location.search);
+    const sessionToken = params.get('session');
+    if (!sessionToken) return;
+
+    window.localStorage.setItem('astro.sessionToken', sessionToken);
+    const playerName = params.get('name');
+    if (playerName) {
+      window.localStorage.setItem('astro.playerName', playerName);
+    }
+
+    // Don't keep the token in the address bar (or in a shared link)
+    params.delete('session');
+    params.delete('name');
+    const query = params.toString();
+    window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : ''));
+  }
+
+  /**
+   * Resume the stored session on every (re)connect, so both page reloads
+   * and dropped sockets (locked phone screen) get the same ship back
+   */
+  private setupSessionResume(): void {
+    this.socketClient.on('connect', () => {
+      const sessionToken = window.localStorage.getItem('astro.sessionToken');
+      if (!sessionToken) return;
+
+      this.socketClient.resumeSession(sessionToken, (response) => {
+        if (!response.success) {
+          window.localStorage.removeItem('astro.sessionToken');
+          // The ship is gone - start over from the join screen
+          if (this.hasJoined) {
+            window.location.reload();
+          }
+          return;
+        }
+
+        const playerName = window.localStorage.getItem('astro.playerName') || '';
+        this.completeJoin(playerName, response);
+      });
+    });
+  }
+
+  private completeJoin(playerName: string, response: Extract<JoinGameResponse, { success: true }>): void {
+    window.localStorage.setItem('astro.roomCode', response.roomCode);
+    window.localStorage.setItem('astro.sessionToken', response.sessionToken);
+
+    // Reconnects only rebind the socket, the controller is already running
+    if (this.hasJoined) return;
+    this.hasJoined = true;
+
+    if (this.onJoinCallback) {
+      this.onJoinCallback(playerName, response.playerId);
+    }
   }
 
   private setupConnectionStatus(): void {
@@ -1,20 +1,24 @@
 import { io, Socket } from 'socket.io-client';
-import type { ServerToClientEvents, ClientToServerEvents, InputEvent } from '@astroparty/shared';
+import type { ServerToClientEvents, ClientToServerEvents, InputEvent, JoinGameResponse } from '@astroparty/shared';
 
 type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 export class SocketClient {
   private socket: TypedSocket;
 
-  constructor(serverUrl: string) {
+  constructor(readonly serverUrl: string) {
     this.socket = io(serverUrl, {
       transports: ['websocket', 'polling'],
       query: { type: 'controller' },
     }) as TypedSocket;
   }
 
-  joinGame(playerName: string, callback: (playerId: string) => void): void {
-    this.socket.emit('joinGame', playerName, callback);
+  joinGame(roomCode: string, playerName: string, callback: (response: JoinGameResponse) => void): void {
+    this.socket.emit('joinGame', roomCode, playerName, callback);
+  }
+
+  resumeSession(sessionToken: string, callback: (response: JoinGameResponse) => void): void {
+    this.socket.emit('resumeSession', sessionToken, callback);
   }
 
   sendInput(event: InputEvent): void {
@@ -1,49 +1,111 @@
+import type { SnapshotFormat } from '@astroparty/shared';
 import { CanvasRenderer } from './renderer/CanvasRenderer';
 import { SocketClient } from './network/SocketClient';
+import { SnapshotReceiver } from './network/SnapshotReceiver';
+import { startReplay, showReplayBrowser } from './replay/replayMode';
+import { startSpectating } from './spectator/spectatorMode';
 
 const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
 const renderer = new CanvasRenderer(canvas);
 
 // Connect to server (use window.location for production, localhost for dev)
 const serverUrl = import.meta.env.DEV ? 'http://localhost:3000' : window.location.origin;
-const socketClient = new SocketClient(serverUrl);
-
-// Listen for static map data (sent once per round or on connect)
-// Listen for static map data (sent once per round or on connect)
-socketClient.on('mapSync', (data) => {
-  renderer.updateMap(data.blocks, data.metadata);
-});
-
-// Update renderer when game state changes
-socketClient.on('gameState', (state) => {
-  renderer.updateGameState(state);
-});
-
-socketClient.on('roundStart', (endTime) => {
-  console.log('Round started, ends at:', new Date(endTime));
-});
-
-socketClient.on('roundEnd', (winner) => {
-  if (winner) {
-    console.log(`Round ended! Winner: ${winner.name} with ${winner.score} points`);
-  } else {
-    console.log('Round ended with no winner');
-  }
-});
-
-// Update connection status UI
-const statusDot = document.querySelector('.status-dot') as HTMLElement;
-const statusText = document.querySelector('#connection-status span') as HTMLElement;
-
-socketClient.on('connect', () => {
-  statusDot.classList.remove('disconnected');
-  statusText.textContent = 'Connected';
-});
-
-socketClient.on('disconnect', () => {
-  statusDot.classList.add('disconnected');
-  statusText.textContent = 'Disconnected';
-});
+const controllerUrl = import.meta.env.DEV ? 'http://localhost:5174/' : `${window.location.origin}/controller/`;
+
+// ?replay=<id> plays a recorded round, ?replays lists them,
+// ?spectate=<code> watches a room (&lowrate for slow connections), anything else is live.
+// &protocol=json streams readable JSON snapshots instead of the binary ones, for debugging.
+const params = new URLSearchParams(window.location.search);
+const replayId = params.get('replay');
+const spectateCode = params.get('spectate');
+const snapshotFormat: SnapshotFormat = params.get('protocol') === 'json' ? 'json' : 'binary';
+if (replayId) {
+  startReplay(renderer, serverUrl, replayId);
+} else if (spectateCode) {
+  startSpectating(renderer, serverUrl, controllerUrl, spectateCode, params.has('lowrate'), snapshotFormat);
+} else if (params.has('replays')) {
+  showReplayBrowser(serverUrl);
+} else {
+  startLive();
+}
+
+function startLive(): void {
+  const socketClient = new SocketClient(serverUrl, 'display', snapshotFormat);
+  const snapshots = new SnapshotReceiver((tick) => socketClient.emit('ackSnapshot', tick));
+
+  // Open a room on connect. The code is kept in the URL hash so a reload
+  // (or a reconnect after a network drop) re-attaches to the same room.
+  const roomCodeEl = document.getElementById('room-code')!;
+  const roomJoinUrlEl = document.getElementById('room-join-url')!;
+
+  socketClient.on('connect', () => {
+    snapshots.reset();
+    const requestedCode = window.location.hash.slice(1) || null;
+    socketClient.createRoom(requestedCode, (roomCode) => {
+      window.location.hash = roomCode;
+      roomCodeEl.textContent = roomCode;
+      roomJoinUrlEl.textContent = `${controllerUrl}?room=${roomCode}`;
+    });
+  });
+
+  // Listen for static map data (sent once per round or on connect)
+  socketClient.on('mapSync', (data) => {
+    renderer.updateMap(data);
+  });
+
+  // Damaged and destroyed blocks, between full map syncs
+  socketClient.on('blockUpdates', (updates) => {
+    renderer.applyBlockUpdates(updates);
+  });
+
+  // Update renderer when game state changes (deltas against an earlier snapshot)
+  socketClient.on('snapshot', (snapshot) => {
+    const state = snapshots.receive(snapshot);
+    if (state) {
+      renderer.updateGameState(state);
+    }
+  });
+  socketClient.on('snapshotBinary', (data) => {
+    const state = snapshots.receiveBinary(data);
+    if (state) {
+      renderer.updateGameState(state);
+    }
+  });
+
+  socketClient.on('mapLobby', (lobby) => {
+    renderer.updateMapLobby(lobby);
+  });
+
+  socketClient.on('spectatorCount', (count) => {
+    document.getElementById('room-spectators')!.textContent = count > 0 ? `👁 ${count} watching` : '';
+  });
+
+  socketClient.on('roundStart', (endTime) => {
+    console.log('Round started, ends at:', new Date(endTime));
+  });
+
+  socketClient.on('roundEnd', (winner) => {
+    if (winner) {
+      console.log(`Round ended! Winner: ${winner.name} with ${winner.score} points`);
+    } else {
+      console.log('Round ended with no winner');
+    }
+  });
+
+  // Update connection status UI
+  const statusDot = document.querySelector('.status-dot') as HTMLElement;
+  const statusText = document.querySelector('#connection-status span') as HTMLElement;
+
+  socketClient.on('connect', () => {
+    statusDot.classList.remove('disconnected');
+    statusText.textContent = 'Connected';
+  });
+
+  socketClient.on('disconnect', () => {
+    statusDot.classList.add('disconnected');
+    statusText.textContent = 'Disconnected';
+  });
+}
 
 // Start render loop
 renderer.start();
@@ -0,0 +1,79 @@
+import type { SerializedGameState, StateSnapshot } from '@astroparty/shared';
+import { SNAPSHOT_HISTORY_TICKS, SnapshotDecoder, applySnapshotDelta } from '@astroparty/shared';
+
+/**
+ * Rebuilds the game state from the server's snapshots: keyframes as they are, deltas
+ * on top of an earlier snapshot. Every applied snapshot is acknowledged so the server
+ * can use it as the next baseline. Snapshots come as JSON or in the binary encoding.
+ */
+export class SnapshotReceiver {
+  private states: Map<number, SerializedGameState> = new Map(); // tick -> state, oldest first
+  private decoder = new SnapshotDecoder();
+  private latestTick = -Infinity;
+  private awaitingKeyframe = false;
+
+  constructor(private ack: (tick: number | null) => void) {}
+
+  /**
+   * Forget everything (new connection: the server starts over with a keyframe)
+   */
+  reset(): void {
+    this.states.clear();
+    this.latestTick = -Infinity;
+    this.awaitingKeyframe = false;
+    this.decoder.reset();
+  }
+
+  /**
+   * Same as receive, for a binary snapshot
+   */
+  receiveBinary(data: ArrayBuffer): SerializedGameState | null {
+    let snapshot: StateSnapshot;
+    try {
+      snapshot = this.decoder.decode(data);
+    } catch (error) {
+      console.error('[Snapshots] Could not decode a binary snapshot:', error);
+      return null;
+    }
+    return this.receive(snapshot);
+  }
+
+  /**
+   * State after this snapshot, or null if it can't be applied
+   */
+  receive(snapshot: StateSnapshot): SerializedGameState | null {
+    if (snapshot.tick <= this.latestTick) return null;
+
+    let state: SerializedGameState;
+    if (snapshot.baseTick === null) {
+      state = snapshot.state;
+      this.awaitingKeyframe = false;
+    } else {
+      const base = this.states.get(snapshot.baseTick);
+      if (!base) {
+        // Ask once, then skip deltas until the keyframe arrives
+        if (!this.awaitingKeyframe) {
+          console.warn(`[Snapshots] Missing baseline ${snapshot.baseTick}, requesting a keyframe`);
+          this.awaitingKeyframe = true;
+          this.ack(null);
+        }
+        return null;
+      }
+      state = applySnapshotDelta(base, snapshot.delta);
+
+      // Acks only move forward, so older baselines won't come back
+      for (const tick of this.states.keys()) {
+        if (tick >= snapshot.baseTick) break;
+        this.states.delete(tick);
+      }
+    }
+
+    this.states.set(snapshot.tick, state);
+    if (this.states.size > SNAPSHOT_HISTORY_TICKS) {
+      this.states.delete(this.states.keys().next().value!);
+    }
+    this.latestTick = snapshot.tick;
+    this.ack(snapshot.tick);
+    return state;
+  }
+}
@@ -1,18 +1,37 @@
 import { io, Socket } from 'socket.io-client';
-import type { ServerToClientEvents, ClientToServerEvents } from '@astroparty/shared';
+import type {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  JoinGameResponse,
+  SpectateResponse,
+  SnapshotFormat,
+} from '@astroparty/shared';
+import { BINARY_SNAPSHOT_PROTOCOL } from '@astroparty/shared';
 
 type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 export class SocketClient {
   private socket: TypedSocket;
 
-  constructor(serverUrl: string) {
+  constructor(serverUrl: string, type: 'display' | 'spectator' = 'display', snapshotFormat: SnapshotFormat = 'binary') {
     this.socket = io(serverUrl, {
       transports: ['websocket', 'polling'],
-      query: { type: 'display' },
+      query: { type, protocol: snapshotFormat === 'binary' ? BINARY_SNAPSHOT_PROTOCOL : 'json' },
     }) as TypedSocket;
   }
 
+  createRoom(roomCode: string | null, callback: (roomCode: string) => void): void {
+    this.socket.emit('createRoom', roomCode, callback);
+  }
+
+  joinSpectator(roomCode: string, reducedRate: boolean, callback: (response: SpectateResponse) => void): void {
+    this.socket.emit('joinSpectator', roomCode, reducedRate, callback);
+  }
+
+  promoteSpectator(playerName: string, callback: (response: JoinGameResponse) => void): void {
+    this.socket.emit('promoteSpectator', playerName, callback);
+  }
+
   on<K extends keyof ServerToClientEvents>(
     event: K,
     listener: ServerToClientEvents[K]
@@ -1,4 +1,15 @@
-import type { SerializedGameState, Block } from '@astroparty/shared';
+import type {
+  Asteroid,
+  SerializedGameState,
+  Block,
+  BlockUpdate,
+  GridPosition,
+  MapEnvironment,
+  MapLobbyState,
+  MapSyncData,
+  TeleporterPair,
+  WindCell,
+} from '@astroparty/shared';
 import { 
   GAME_WIDTH, 
   GAME_HEIGHT, 
@@ -12,16 +23,27 @@ import {
   PowerUpType,
   GRID_WIDTH,
   GRID_HEIGHT,
+  DESTRUCTIBLE_BLOCK_HEALTH,
+  BLOCK_SIZE,
+  GRAVITY_WELL_RADIUS,
+  ASTEROID_CONFIGS,
 } from '@astroparty/shared';
 
+const FOLLOW_ZOOM = 2; // Camera zoom while following a player
+
 export class CanvasRenderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private gameState: SerializedGameState | null = null;
   private blocks: Block[] = []; // Cached map blocks from mapSync
+  private powerUpPads: GridPosition[] = []; // Cached from mapSync
+  private teleporters: TeleporterPair[] = []; // Cached from mapSync
+  private environment: MapEnvironment = { gravityWells: [], windCells: [], nebulaCells: [] }; // Cached from mapSync
   private mapMetadata?: { name: string; author: string; width: number; height: number };
   private scale: number = 1;
   private stars: { x: number; y: number; size: number }[] = [];
+  private now: () => number = () => Date.now(); // Game time, replaced during replays
+  private followedPlayerId: string | null = null; // Spectator camera target
 
   constructor(canvas: HTMLCanvasElement) {
  
@@ -46,6 +68,20 @@ export class CanvasRenderer {
     this.canvas.style.height = `${GAME_HEIGHT * this.scale}px`;
   }
 
+  /**
+   * Use another source for game time (timer, pickup notifications)
+   */
+  setTimeSource(now: () => number): void {
+    this.now = now;
+  }
+
+  /**
+   * Zoom the camera in on one player (null shows the whole arena)
+   */
+  setFollowedPlayer(playerId: string | null): void {
+    this.followedPlayerId = playerId;
+  }
+
   updateGameState(state: SerializedGameState): void {
     this.gameState = state;
     this.updateUI(state);
@@ -54,10 +90,29 @@ export class CanvasRenderer {
   /**
    * Update cached map blocks (called via mapSync event)
    */
-  updateMap(blocks: Block[], metadata?: { name: string; author: string; width: number; height: number }): void {
-    this.blocks = blocks;
-    if (metadata) {
-      this.mapMetadata = metadata;
+  updateMap(map: MapSyncData): void {
+    this.blocks = map.blocks;
+    this.powerUpPads = map.powerUpPads ?? [];
+    this.teleporters = map.teleporters ?? [];
+    this.environment = map.environment ?? { gravityWells: [], windCells: [], nebulaCells: [] };
+    if (map.metadata) {
+      this.mapMetadata = map.metadata;
+    }
+  }
+
+  /**
+   * Damage or remove destructible blocks (called via blockUpdates event)
+   */
+  applyBlockUpdates(updates: BlockUpdate[]): void {
+    for (const update of updates) {
+      const block = this.blocks.find(b => b.gridX === update.gridX && b.gridY === update.gridY);
+      if (!block) continue;
+
+      if (update.health > 0) {
+        block.health = update.health;
+      } else {
+        this.blocks = this.blocks.filter(b => b !== block);
+      }
     }
   }
 
@@ -97,14 +152,41 @@ export class CanvasRenderer {
     this.ctx.fillStyle = '#0a0a15';
     this.ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
 
+    this.ctx.save();
+    const followed = this.gameState.players.find(p => p.id === this.followedPlayerId);
+    if (followed) {
+      this.applyFollowCamera(followed.position);
+    }
+
     // Draw starfield background
     this.drawStarfield();
+
+    // Map forces under everything else
+    for (const cell of this.environment.nebulaCells) {
+      this.drawNebulaCell(cell);
+    }
+    for (const cell of this.environment.windCells) {
+      this.drawWindCell(cell);
+    }
+    for (const well of this.environment.gravityWells) {
+      this.drawGravityWell(well);
+    }
     
     // Draw walls (from cached blocks)
     for (const block of this.blocks) {
       this.drawBlock(block);
     }
 
+    for (const pad of this.powerUpPads) {
+      this.drawPowerUpPad(pad);
+    }
+
+    this.teleporters.forEach((teleporter, index) => {
+      for (const pad of teleporter.pads) {
+        this.drawTeleporterPad(pad, teleporter, index);
+      }
+    });
+
     // Draw power-ups
     for (const powerUp of this.gameState.powerUps) {
       this.drawPowerUp(powerUp);
@@ -115,6 +197,11 @@ export class CanvasRenderer {
       this.drawMine(mine);
     }
 
+    // Draw asteroids
+    for (const asteroid of this.gameState.asteroids) {
+      this.drawAsteroid(asteroid);
+    }
+
     // Draw bullets
     for (const bullet of this.gameState.bullets) {
       this.drawBullet(bullet);
@@ -126,11 +213,39 @@ export class CanvasRenderer {
         this.drawShip(player);
       }
     }
+
+    if (followed?.isAlive) {
+      this.drawFollowMarker(followed);
+    }
+    this.ctx.restore();
     
     // Draw notification
     this.drawPowerUpNotification();
   }
 
+  private applyFollowCamera(target: { x: number; y: number }): void {
+    // Keep the view inside the arena
+    const halfWidth = GAME_WIDTH / (2 * FOLLOW_ZOOM);
+    const halfHeight = GAME_HEIGHT / (2 * FOLLOW_ZOOM);
+    const x = Math.max(halfWidth, Math.min(GAME_WIDTH - halfWidth, target.x));
+    const y = Math.max(halfHeight, Math.min(GAME_HEIGHT - halfHeight, target.y));
+
+    this.ctx.translate(GAME_WIDTH / 2, GAME_HEIGHT / 2);
+    this.ctx.scale(FOLLOW_ZOOM, FOLLOW_ZOOM);
+    this.ctx.translate(-x, -y);
+  }
+
+  private drawFollowMarker(player: { position: { x: number; y: number }; color: string }): void {
+    this.ctx.save();
+    this.ctx.strokeStyle = player.color;
+    this.ctx.lineWidth = 1.5;
+    this.ctx.setLineDash([4, 4]);
+    this.ctx.beginPath();
+    this.ctx.arc(player.position.x, player.position.y, SHIP_MAX_RADIUS + 12, 0, Math.PI * 2);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
   private drawStarfield(): void {
     this.ctx.fillStyle = 'rgba(255, 255, 255, 0.03)';
 
@@ -158,19 +273,213 @@ export class CanvasRenderer {
     }
   }
 
-  private drawBlock(block: any): void {
+  private drawBlock(block: Block): void {
     const blockSize = this.getBlockSize();
     const x = block.gridX * blockSize;
     const y = block.gridY * blockSize;
     
-    // Draw solid block
-    this.ctx.fillStyle = '#2a2a3e55';
-    this.ctx.fillRect(x+ 1, y + 1, blockSize - 2, blockSize - 2);
-    
-    // Draw border
-    this.ctx.strokeStyle = '#1a1a2eff';
-    this.ctx.lineWidth =2;
-    this.ctx.strokeRect(x + 1, y + 1, blockSize - 2, blockSize - 2);
+    switch (block.kind ?? 'SOLID') {
+      case 'SOLID':
+        // Draw solid block
+        this.ctx.fillStyle = '#2a2a3e55';
+        this.ctx.fillRect(x+ 1, y + 1, blockSize - 2, blockSize - 2);
+        
+        // Draw border
+        this.ctx.strokeStyle = '#1a1a2eff';
+        this.ctx.lineWidth =2;
+        this.ctx.strokeRect(x + 1, y + 1, blockSize - 2, blockSize - 2);
+        break;
+
+      case 'GLASS':
+        // See-through pane with a glint
+        this.ctx.fillStyle = '#7fd4ff22';
+        this.ctx.fillRect(x + 1, y + 1, blockSize - 2, blockSize - 2);
+        this.ctx.strokeStyle = '#7fd4ff88';
+        this.ctx.lineWidth = 1;
+        this.ctx.strokeRect(x + 1, y + 1, blockSize - 2, blockSize - 2);
+        this.ctx.beginPath();
+        this.ctx.moveTo(x + blockSize * 0.25, y + blockSize * 0.7);
+        this.ctx.lineTo(x + blockSize * 0.7, y + blockSize * 0.25);
+        this.ctx.stroke();
+        break;
+
+      case 'DESTRUCTIBLE': {
+        // Crate that fades and cracks as it takes hits
+        const health = (block.health ?? DESTRUCTIBLE_BLOCK_HEALTH) / DESTRUCTIBLE_BLOCK_HEALTH;
+        this.ctx.save();
+        this.ctx.globalAlpha = 0.4 + 0.6 * health;
+        this.ctx.fillStyle = '#8a5a2e66';
+        this.ctx.fillRect(x + 1, y + 1, blockSize - 2, blockSize - 2);
+        this.ctx.strokeStyle = '#c98a4bcc';
+        this.ctx.lineWidth = 2;
+        this.ctx.strokeRect(x + 1, y + 1, blockSize - 2, blockSize - 2);
+        this.ctx.beginPath();
+        this.ctx.moveTo(x + blockSize * 0.2, y + blockSize * 0.3);
+        this.ctx.lineTo(x + blockSize * 0.5, y + blockSize * 0.5);
+        this.ctx.lineTo(x + blockSize * 0.4, y + blockSize * 0.8);
+        if (health < 1) {
+          this.ctx.moveTo(x + blockSize * 0.5, y + blockSize * 0.5);
+          this.ctx.lineTo(x + blockSize * 0.8, y + blockSize * 0.4);
+          this.ctx.lineTo(x + blockSize * 0.9, y + blockSize * 0.7);
+        }
+        if (health < 0.5) {
+          this.ctx.moveTo(x + blockSize * 0.2, y + blockSize * 0.3);
+          this.ctx.lineTo(x + blockSize * 0.35, y + blockSize * 0.1);
+          this.ctx.moveTo(x + blockSize * 0.4, y + blockSize * 0.8);
+          this.ctx.lineTo(x + blockSize * 0.7, y + blockSize * 0.9);
+        }
+        this.ctx.stroke();
+        this.ctx.restore();
+        break;
+      }
+
+      case 'BOUNCY':
+        // Padded bumper
+        this.ctx.fillStyle = '#2ecc7144';
+        this.ctx.fillRect(x + 1, y + 1, blockSize - 2, blockSize - 2);
+        this.ctx.strokeStyle = '#2ecc71';
+        this.ctx.lineWidth = 3;
+        this.ctx.strokeRect(x + 4, y + 4, blockSize - 8, blockSize - 8);
+        break;
+    }
+  }
+
+  /**
+   * Marker where power-ups appear on maps with pads
+   */
+  private drawPowerUpPad(pad: GridPosition): void {
+    const blockSize = this.getBlockSize();
+    const x = pad.gridX * blockSize + blockSize / 2;
+    const y = pad.gridY * blockSize + blockSize / 2;
+
+    this.ctx.save();
+    this.ctx.strokeStyle = '#f1c40f55';
+    this.ctx.lineWidth = 2;
+    this.ctx.setLineDash([4, 4]);
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, POWERUP_RADIUS + 6, 0, Math.PI * 2);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
+  private drawNebulaCell(cell: GridPosition): void {
+    const blockSize = this.getBlockSize();
+    const x = cell.gridX * blockSize + blockSize / 2;
+    const y = cell.gridY * blockSize + blockSize / 2;
+    // Slow shimmer, offset per cell so the cloud doesn't pulse as one
+    const shimmer = 0.5 + 0.5 * Math.sin(this.now() / 900 + cell.gridX * 1.7 + cell.gridY * 2.3);
+
+    const haze = this.ctx.createRadialGradient(x, y, 0, x, y, blockSize * 0.8);
+    haze.addColorStop(0, `rgba(155, 89, 182, ${0.25 + 0.1 * shimmer})`);
+    haze.addColorStop(1, 'rgba(155, 89, 182, 0)');
+    this.ctx.fillStyle = haze;
+    this.ctx.fillRect(x - blockSize * 0.8, y - blockSize * 0.8, blockSize * 1.6, blockSize * 1.6);
+  }
+
+  /**
+   * Chevrons drifting in the direction of the wind
+   */
+  private drawWindCell(cell: WindCell): void {
+    const blockSize = this.getBlockSize();
+    const angle = { RIGHT: 0, DOWN: Math.PI / 2, LEFT: Math.PI, UP: -Math.PI / 2 }[cell.direction];
+    const drift = ((this.now() / 1000) % 1) * blockSize;
+
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(cell.gridX * blockSize, cell.gridY * blockSize, blockSize, blockSize);
+    this.ctx.clip();
+    this.ctx.fillStyle = 'rgba(127, 212, 255, 0.06)';
+    this.ctx.fill();
+
+    this.ctx.translate(cell.gridX * blockSize + blockSize / 2, cell.gridY * blockSize + blockSize / 2);
+    this.ctx.rotate(angle);
+    this.ctx.strokeStyle = 'rgba(127, 212, 255, 0.35)';
+    this.ctx.lineWidth = 2;
+    const size = blockSize * 0.15;
+    for (const offset of [-blockSize, -blockSize / 2, 0, blockSize / 2]) {
+      const x = offset + drift;
+      this.ctx.beginPath();
+      this.ctx.moveTo(x - size, -size);
+      this.ctx.lineTo(x, 0);
+      this.ctx.lineTo(x - size, size);
+      this.ctx.stroke();
+    }
+    this.ctx.restore();
+  }
+
+  /**
+   * Dark core with rings falling into it, and the edge of its pull
+   */
+  private drawGravityWell(well: GridPosition): void {
+    const blockSize = this.getBlockSize();
+    const x = well.gridX * blockSize + blockSize / 2;
+    const y = well.gridY * blockSize + blockSize / 2;
+    const reach = GRAVITY_WELL_RADIUS * (blockSize / BLOCK_SIZE);
+
+    this.ctx.save();
+    this.ctx.strokeStyle = 'rgba(255, 140, 60, 0.15)';
+    this.ctx.lineWidth = 1;
+    this.ctx.setLineDash([6, 10]);
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, reach, 0, Math.PI * 2);
+    this.ctx.stroke();
+    this.ctx.setLineDash([]);
+
+    // Rings shrink toward the core and fade in as they get closer
+    const phase = (this.now() / 1500) % 1;
+    for (let i = 0; i < 3; i++) {
+      const progress = (phase + i / 3) % 1;
+      this.ctx.strokeStyle = `rgba(255, 140, 60, ${0.4 * progress})`;
+      this.ctx.lineWidth = 2;
+      this.ctx.beginPath();
+      this.ctx.arc(x, y, reach * (1 - progress) * 0.6 + blockSize * 0.2, 0, Math.PI * 2);
+      this.ctx.stroke();
+    }
+
+    const core = this.ctx.createRadialGradient(x, y, 0, x, y, blockSize * 0.45);
+    core.addColorStop(0, '#000000');
+    core.addColorStop(0.6, '#000000');
+    core.addColorStop(1, 'rgba(255, 140, 60, 0)');
+    this.ctx.fillStyle = core;
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, blockSize * 0.45, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.restore();
+  }
+
+  /**
+   * Spinning rings, one color per pair. Wormholes (which also carry bullets) spin the other way.
+   */
+  private drawTeleporterPad(pad: GridPosition, teleporter: TeleporterPair, index: number): void {
+    const blockSize = this.getBlockSize();
+    const x = pad.gridX * blockSize + blockSize / 2;
+    const y = pad.gridY * blockSize + blockSize / 2;
+    const hue = (200 + index * 67) % 360;
+    const spin = (this.now() / 400) * (teleporter.bullets ? -1 : 1);
+    const pulse = 0.5 + 0.5 * Math.sin(this.now() / 250 + index);
+
+    this.ctx.save();
+    this.ctx.translate(x, y);
+
+    const glow = this.ctx.createRadialGradient(0, 0, 2, 0, 0, blockSize * 0.45);
+    glow.addColorStop(0, `hsla(${hue}, 90%, 70%, ${0.3 + 0.3 * pulse})`);
+    glow.addColorStop(1, `hsla(${hue}, 90%, 50%, 0)`);
+    this.ctx.fillStyle = glow;
+    this.ctx.beginPath();
+    this.ctx.arc(0, 0, blockSize * 0.45, 0, Math.PI * 2);
+    this.ctx.fill();
+
+    this.ctx.strokeStyle = `hsl(${hue}, 90%, 65%)`;
+    this.ctx.lineWidth = 2;
+    for (let ring = 0; ring < 3; ring++) {
+      const radius = blockSize * (0.15 + ring * 0.1);
+      const start = spin * (ring % 2 === 0 ? 1 : -1.5) + ring;
+      this.ctx.beginPath();
+      this.ctx.arc(0, 0, radius, start, start + Math.PI * 1.2);
+      this.ctx.stroke();
+    }
+
+    this.ctx.restore();
   }
 
   private drawShip(player: any): void {
@@ -209,6 +518,11 @@ export class CanvasRenderer {
       this.ctx.globalAlpha = 0.4;
     }
 
+    // Dim frozen ships while their controller reconnects
+    if (!player.isConnected) {
+      this.ctx.globalAlpha = 0.25;
+    }
+
     // Draw ship as triangle
     this.ctx.fillStyle = player.color;
     this.ctx.strokeStyle = 'white';
@@ -235,7 +549,9 @@ export class CanvasRenderer {
     this.ctx.fillStyle = 'white';
     this.ctx.font = 'bold 14px Arial';
     this.ctx.textAlign = 'center';
-    this.ctx.fillText(player.name, player.position.x, player.position.y - SHIP_SIZE);
+    const name = this.getDisplayName(player);
+    const label = player.isConnected ? name : `${name} (reconnecting)`;
+    this.ctx.fillText(label, player.position.x, player.position.y - SHIP_SIZE);
   }
 
   private drawBullet(bullet: any): void {
@@ -300,7 +616,7 @@ export class CanvasRenderer {
   private drawPowerUpNotification(): void {
     if (!this.gameState) return;
     
-    const now = Date.now();
+    const now = this.now();
     const duration = 2000; // 2 seconds
     
     // Draw each recent pickup
@@ -384,6 +700,98 @@ export class CanvasRenderer {
     this.ctx.restore();
   }
 
+  /**
+   * Lumpy rock. The outline comes from the id, so each asteroid keeps its shape.
+   */
+  private drawAsteroid(asteroid: Asteroid): void {
+    const { radius, health } = ASTEROID_CONFIGS[asteroid.size];
+    let seed = 0;
+    for (const char of asteroid.id) {
+      seed = (seed * 31 + char.charCodeAt(0)) >>> 0;
+    }
+
+    this.ctx.save();
+    this.ctx.translate(asteroid.position.x, asteroid.position.y);
+    this.ctx.rotate(asteroid.rotation);
+
+    const corners = 11;
+    this.ctx.beginPath();
+    for (let i = 0; i < corners; i++) {
+      seed = (seed * 1103515245 + 12345) >>> 0;
+      const bump = 0.75 + ((seed >>> 16) % 100) / 330;
+      const angle = (i / corners) * Math.PI * 2;
+      const x = Math.cos(angle) * radius * bump;
+      const y = Math.sin(angle) * radius * bump;
+      if (i === 0) this.ctx.moveTo(x, y);
+      else this.ctx.lineTo(x, y);
+    }
+    this.ctx.closePath();
+
+    // Darker as it takes hits
+    const wear = 1 - asteroid.health / health;
+    this.ctx.fillStyle = `rgb(${110 - wear * 40}, ${100 - wear * 40}, ${90 - wear * 40})`;
+    this.ctx.strokeStyle = '#c8bfb0';
+    this.ctx.lineWidth = 2;
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    // A couple of craters
+    this.ctx.strokeStyle = 'rgba(0, 0, 0, 0.3)';
+    this.ctx.beginPath();
+    this.ctx.arc(radius * 0.3, -radius * 0.2, radius * 0.2, 0, Math.PI * 2);
+    this.ctx.stroke();
+    this.ctx.beginPath();
+    this.ctx.arc(-radius * 0.35, radius * 0.3, radius * 0.12, 0, Math.PI * 2);
+    this.ctx.stroke();
+
+    this.ctx.restore();
+  }
+
+  /**
+   * Player name with a marker for AI players
+   */
+  private getDisplayName(player: { name: string; isBot: boolean }): string {
+    return player.isBot ? `🤖 ${player.name}` : player.name;
+  }
+
+  /**
+   * Remaining lives in elimination rounds (nothing in frag races)
+   */
+  private createLivesLabel(lives: number | null | undefined): HTMLElement | null {
+    if (lives === null || lives === undefined) return null;
+    return this.createElement('span', 'lives', lives > 0 ? '❤'.repeat(lives) : '💀');
+  }
+
+  /**
+   * Element with the given text, set as text and never parsed as HTML (player names come from the players)
+   */
+  private createElement(tag: string, className: string, text?: string): HTMLElement {
+    const element = document.createElement(tag);
+    element.className = className;
+    if (text !== undefined) element.textContent = text;
+    return element;
+  }
+
+  private createScoreRow(label: string, score: number, color: string, className: string): HTMLElement {
+    const row = this.createElement('div', className);
+    row.style.borderLeftColor = color;
+    row.append(this.createElement('span', '', label), ': ', this.createElement('span', '', String(score)));
+    return row;
+  }
+
+  private createLeaderboardEntry(rank: number, label: string, color: string, score: number): HTMLElement {
+    const medals = ['🥇', '🥈', '🥉'];
+    const classes = ['first', 'second', 'third'];
+
+    const entry = this.createElement('div', `leaderboard-entry ${classes[rank] ?? ''}`);
+    const info = this.createElement('div', 'player-info');
+    const name = this.createElement('div', 'name', label);
+    name.style.color = color;
+    info.append(name, this.createElement('div', 'score', `${score} points`));
+    entry.append(this.createElement('div', 'rank', medals[rank] ?? `${rank + 1}.`), info);
+    return entry;
+  }
+
   private updateUI(state: SerializedGameState): void {
     // Show/hide leaderboard based on game phase
     const leaderboardOverlay = document.getElementById('leaderboard-overlay')!;
@@ -397,19 +805,32 @@ export class CanvasRenderer {
 
     // Update scoreboard (always visible during PLAYING)
     const scoreboard = document.getElementById('scoreboard')!;
-    scoreboard.innerHTML = state.players
+    // Team totals come first in team modes
+    const teamScores = state.teams
+      .map(team => this.createScoreRow(`Team ${team.name}`, team.score, team.color, 'player-score team-score'));
+    const playerScores = state.players
       .sort((a, b) => b.score - a.score)
-      .map(player => `
-        <div class="player-score" style="border-left-color: ${player.color}">
-          <span>${player.name}</span>: <span>${player.score}</span>
-        </div>
-      `)
-      .join('');
+      .map(player => {
+        const row = this.createScoreRow(
+          this.getDisplayName(player),
+          player.score,
+          player.color,
+          `player-score ${player.lives === 0 ? 'eliminated' : ''}`
+        );
+        const lives = this.createLivesLabel(player.lives);
+        if (lives) row.append(' ', lives);
+        return row;
+      });
+    scoreboard.replaceChildren(...teamScores, ...playerScores);
+
+    this.updateRules(state);
 
     // Update timer
     const timer = document.getElementById('timer')!;
-    if (state.roundEndTime) {
-      const remaining = Math.max(0, state.roundEndTime - Date.now());
+    if (state.isSuddenDeath) {
+      timer.textContent = 'SUDDEN DEATH';
+    } else if (state.roundEndTime) {
+      const remaining = Math.max(0, state.roundEndTime - this.now());
       const minutes = Math.floor(remaining / 60000);
       const seconds = Math.floor((remaining % 60000) / 1000);
       timer.textContent = `${minutes}:${seconds.toString().padStart(2, '0')}`;
@@ -418,28 +839,68 @@ export class CanvasRenderer {
     }
   }
 
+  /**
+   * Summary of the match rules picked by the host
+   */
+  private updateRules(state: SerializedGameState): void {
+    const rules = document.getElementById('rules')!;
+    const { settings, modeConfig } = state;
+    const seconds = (ms: number) => `${ms / 1000}s`;
+    const mode = modeConfig.mode === 'TEAM_DEATHMATCH' ? `${modeConfig.teamCount} teams` : 'Free-for-all';
+    const winCondition = modeConfig.winCondition === 'ELIMINATION'
+      ? `last ship standing (${modeConfig.lives} ❤)`
+      : 'most kills';
+    const minutes = Math.floor(settings.roundDuration / 60000);
+    const roundSeconds = Math.floor((settings.roundDuration % 60000) / 1000);
+
+    rules.textContent = [
+      `${mode}, ${winCondition}`,
+      `⏱ ${minutes}:${roundSeconds.toString().padStart(2, '0')}`,
+      `🔫 ${settings.clipSize} shots, ${seconds(settings.reloadTime)} reload`,
+      `🚀 speed ${settings.maxSpeed}`,
+      `⭐ every ${seconds(settings.powerUpSpawnInterval)}`,
+      `♻ ${seconds(settings.respawnDelay)} respawn`,
+      settings.maxAsteroids > 0
+        ? `☄ up to ${settings.maxAsteroids}, ${settings.asteroidScore} pt each`
+        : '☄ off',
+    ].join(' · ');
+  }
+
+  /**
+   * Next map vote shown under the leaderboard between rounds
+   */
+  updateMapLobby(lobby: MapLobbyState): void {
+    const status = document.getElementById('map-vote-status')!;
+    const picked = lobby.maps.find(map => map.id === lobby.nextMap);
+
+    if (picked) {
+      status.textContent = `Next map: ${picked.name}`;
+    } else if (lobby.vote) {
+      status.textContent = `🗳 Next map: ${lobby.vote.map(candidate => `${candidate.name} (${candidate.votes})`).join(' · ')}`;
+    } else {
+      status.textContent = '';
+    }
+  }
+
   private updateLeaderboard(state: SerializedGameState): void {
     const leaderboardContent = document.getElementById('leaderboard-content')!;
     const sortedPlayers = [...state.players].sort((a, b) => b.score - a.score);
 
-    const medals = ['🥇', '🥈', '🥉'];
-    const classes = ['first', 'second', 'third'];
+    // Team standings (team modes only), already sorted by the server
+    const teamStandings = state.teams
+      .map((team, index) => this.createLeaderboardEntry(index, `Team ${team.name}`, team.color, team.score));
 
-    leaderboardContent.innerHTML = sortedPlayers
-      .map((player, index) => {
-        const rankClass = index < 3 ? classes[index] : '';
-        const medal = index < 3 ? medals[index] : `${index + 1}.`;
-        
-        return `
-          <div class="leaderboard-entry ${rankClass}">
-            <div class="rank">${medal}</div>
-            <div class="player-info">
-              <div class="name" style="color: ${player.color}">${player.name}</div>
-              <div class="score">${player.score} points</div>
-            </div>
-          </div>
-        `;
-      })
-      .join('');
+    const playerStandings = sortedPlayers
+      .map((player, index) => this.createLeaderboardEntry(index, this.getDisplayName(player), player.color, player.score));
+
+    if (teamStandings.length > 0) {
+      leaderboardContent.replaceChildren(
+        ...teamStandings,
+        this.createElement('h2', 'leaderboard-section', 'Players'),
+        ...playerStandings
+      );
+    } else {
+      leaderboardContent.replaceChildren(...playerStandings);
+    }
   }
 }
@@ -0,0 +1,180 @@
+import type { MatchRecording, SerializedGameState } from '@astroparty/shared';
+import { applySnapshotDelta } from '@astroparty/shared';
+import type { CanvasRenderer } from '../renderer/CanvasRenderer';
+
+const MAX_FRAME_DELTA = 100; // ms, longer gaps (hidden tab, slow frame) do not skip ahead
+
+/**
+ * Plays a recorded round back through the regular renderer
+ */
+export class ReplayPlayer {
+  private renderer: CanvasRenderer;
+  private recording: MatchRecording;
+  private position = 0; // ms since the start of the recording
+  private speed = 1;
+  private playing = false;
+  private frameIndex = -1;
+  private frameState: SerializedGameState | null = null; // State at frameIndex
+  private blockUpdateIndex = 0; // Block updates already applied to the renderer's map
+  private lastUpdate: number | null = null; // Timestamp of the previous animation frame
+  private changeListener?: () => void;
+
+  constructor(renderer: CanvasRenderer, recording: MatchRecording) {
+    this.renderer = renderer;
+    this.recording = recording;
+
+    this.resetMap();
+    // Timer and pickup notifications follow the replay, not the wall clock
+    this.renderer.setTimeSource(() => this.recording.startedAt + this.position);
+    this.showFrameAt(0);
+  }
+
+  /**
+   * Called whenever position, speed or play state change
+   */
+  onChange(listener: () => void): void {
+    this.changeListener = listener;
+  }
+
+  start(): void {
+    const tick = (timestamp: number) => {
+      // The first frame only sets the reference time
+      if (this.playing && this.lastUpdate !== null) {
+        const delta = Math.min(timestamp - this.lastUpdate, MAX_FRAME_DELTA);
+        this.seek(this.position + delta * this.speed);
+        if (this.position >= this.getDuration()) {
+          this.pause();
+        }
+      }
+      this.lastUpdate = timestamp;
+      requestAnimationFrame(tick);
+    };
+    requestAnimationFrame(tick);
+  }
+
+  play(): void {
+    // Restart from the beginning when pressing play at the end
+    if (this.position >= this.getDuration()) {
+      this.seek(0);
+    }
+    this.playing = true;
+    this.changeListener?.();
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.changeListener?.();
+  }
+
+  togglePlay(): void {
+    if (this.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  seek(position: number): void {
+    this.position = Math.max(0, Math.min(position, this.getDuration()));
+    this.showFrameAt(this.position);
+    this.changeListener?.();
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+    this.changeListener?.();
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  getPosition(): number {
+    return this.position;
+  }
+
+  getDuration(): number {
+    return this.recording.endedAt - this.recording.startedAt;
+  }
+
+  private showFrameAt(position: number): void {
+    this.showBlocksAt(this.recording.startedAt + position);
+
+    const index = this.findFrame(this.recording.startedAt + position);
+    if (index === this.frameIndex || index < 0) return;
+
+    this.frameState = this.buildState(index);
+    this.frameIndex = index;
+    this.renderer.updateGameState(this.frameState);
+  }
+
+  /**
+   * State at a frame: from the current frame when playing forward,
+   * else from the last keyframe at or before it
+   */
+  private buildState(index: number): SerializedGameState {
+    const frames = this.recording.frames;
+    let from = index;
+    if (this.frameState && this.frameIndex >= 0 && this.frameIndex < index) {
+      from = this.frameIndex + 1;
+    } else {
+      while (from > 0 && !('state' in frames[from])) from--;
+    }
+
+    let state = this.frameState;
+    for (let i = from; i <= index; i++) {
+      const frame = frames[i];
+      state = 'state' in frame ? frame.state : applySnapshotDelta(state!, frame.delta);
+    }
+    return state!;
+  }
+
+  /**
+   * Break the destructible blocks that were hit up to this time
+   * (seeking backwards starts over from the intact map)
+   */
+  private showBlocksAt(time: number): void {
+    const history = this.recording.blockUpdates ?? [];
+    if (this.blockUpdateIndex > 0 && history[this.blockUpdateIndex - 1].time > time) {
+      this.resetMap();
+    }
+
+    while (this.blockUpdateIndex < history.length && history[this.blockUpdateIndex].time <= time) {
+      this.renderer.applyBlockUpdates(history[this.blockUpdateIndex].updates);
+      this.blockUpdateIndex++;
+    }
+  }
+
+  private resetMap(): void {
+    // Copies: the renderer damages its blocks in place
+    const blocks = this.recording.map.blocks.map(block => ({ ...block }));
+    this.renderer.updateMap({ ...this.recording.map, blocks });
+    this.blockUpdateIndex = 0;
+  }
+
+  /**
+   * Last frame recorded at or before the given time (binary search)
+   */
+  private findFrame(time: number): number {
+    const frames = this.recording.frames;
+    let low = 0;
+    let high = frames.length - 1;
+    let result = frames.length > 0 ? 0 : -1;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (frames[mid].time <= time) {
+        result = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return result;
+  }
+}
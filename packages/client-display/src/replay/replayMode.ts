@@ -0,0 +1,123 @@
+import type { MatchRecording, MatchSummary } from '@astroparty/shared';
+import { MATCH_RECORDING_VERSION } from '@astroparty/shared';
+import type { CanvasRenderer } from '../renderer/CanvasRenderer';
+import { ReplayPlayer } from './ReplayPlayer';
+
+const SEEK_STEP = 5000; // Arrow keys jump 5 seconds
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Load a recording from the server and play it with the replay controls
+ */
+export async function startReplay(renderer: CanvasRenderer, serverUrl: string, recordingId: string): Promise<void> {
+  document.getElementById('room-info')!.style.display = 'none';
+  document.getElementById('connection-status')!.style.display = 'none';
+
+  const response = await fetch(`${serverUrl}/api/recordings/${encodeURIComponent(recordingId)}`);
+  if (!response.ok) {
+    showReplayBrowser(serverUrl, `Recording "${recordingId}" not found`);
+    return;
+  }
+  const recording: MatchRecording = await response.json();
+  if (recording.version !== MATCH_RECORDING_VERSION) {
+    showReplayBrowser(serverUrl, `Recording "${recordingId}" was made by another version of the game`);
+    return;
+  }
+
+  const player = new ReplayPlayer(renderer, recording);
+
+  const controls = document.getElementById('replay-controls')!;
+  const playButton = document.getElementById('replay-play') as HTMLButtonElement;
+  const seekInput = document.getElementById('replay-seek') as HTMLInputElement;
+  const timeLabel = document.getElementById('replay-time')!;
+  const speedSelect = document.getElementById('replay-speed') as HTMLSelectElement;
+  document.getElementById('replay-title')!.textContent =
+    `${recording.map.metadata?.name ?? 'Unknown map'} · Room ${recording.roomCode} · ${new Date(recording.startedAt).toLocaleString()}`;
+
+  controls.style.display = 'flex';
+  seekInput.max = String(player.getDuration());
+
+  player.onChange(() => {
+    playButton.textContent = player.isPlaying() ? '⏸' : '▶';
+    seekInput.value = String(player.getPosition());
+    timeLabel.textContent = `${formatTime(player.getPosition())} / ${formatTime(player.getDuration())}`;
+  });
+
+  playButton.addEventListener('click', () => player.togglePlay());
+  seekInput.addEventListener('input', () => player.seek(Number(seekInput.value)));
+  speedSelect.addEventListener('change', () => player.setSpeed(Number(speedSelect.value)));
+
+  window.addEventListener('keydown', (e) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+
+    if (e.code === 'Space') {
+      e.preventDefault();
+      player.togglePlay();
+    } else if (e.code === 'ArrowLeft') {
+      player.seek(player.getPosition() - SEEK_STEP);
+    } else if (e.code === 'ArrowRight') {
+      player.seek(player.getPosition() + SEEK_STEP);
+    }
+  });
+
+  player.start();
+  player.play();
+}
+
+/**
+ * List recorded matches with links to play them
+ */
+export async function showReplayBrowser(serverUrl: string, error?: string): Promise<void> {
+  document.getElementById('room-info')!.style.display = 'none';
+  document.getElementById('connection-status')!.style.display = 'none';
+
+  const browser = document.getElementById('replay-browser')!;
+  const list = document.getElementById('replay-list')!;
+  browser.style.display = 'flex';
+
+  if (error) {
+    const message = document.createElement('p');
+    message.className = 'replay-error';
+    message.textContent = error;
+    list.before(message);
+  }
+
+  let recordings: MatchSummary[];
+  try {
+    const response = await fetch(`${serverUrl}/api/recordings`);
+    recordings = await response.json();
+  } catch (err) {
+    console.error('Failed to load recordings:', err);
+    list.textContent = 'Could not load recordings';
+    return;
+  }
+
+  if (recordings.length === 0) {
+    list.textContent = 'No recorded matches yet. Play a round first!';
+    return;
+  }
+
+  for (const summary of recordings) {
+    const entry = document.createElement('a');
+    entry.className = 'replay-entry';
+    entry.href = `?replay=${encodeURIComponent(summary.id)}`;
+
+    const title = document.createElement('div');
+    title.className = 'name';
+    title.textContent = `${summary.mapName} · ${formatTime(summary.duration)}`;
+
+    const details = document.createElement('div');
+    details.className = 'details';
+    const winner = summary.winner ? `🏆 ${summary.winner.name} (${summary.winner.score})` : 'No winner';
+    details.textContent = `${new Date(summary.startedAt).toLocaleString()} · Room ${summary.roomCode} · ${summary.players.length} players · ${winner}`;
+
+    entry.append(title, details);
+    list.append(entry);
+  }
+}
@@ -0,0 +1,129 @@
+import type { SerializedGameState, SnapshotFormat } from '@astroparty/shared';
+import type { CanvasRenderer } from '../renderer/CanvasRenderer';
+import { SocketClient } from '../network/SocketClient';
+import { SnapshotReceiver } from '../network/SnapshotReceiver';
+
+/**
+ * Watch a room without taking a player slot. Spectators can follow a
+ * player and hand themselves over to a controller between rounds.
+ */
+export function startSpectating(
+  renderer: CanvasRenderer,
+  serverUrl: string,
+  controllerUrl: string,
+  roomCode: string,
+  reducedRate: boolean,
+  snapshotFormat: SnapshotFormat
+): void {
+  const socketClient = new SocketClient(serverUrl, 'spectator', snapshotFormat);
+  const snapshots = new SnapshotReceiver((tick) => socketClient.emit('ackSnapshot', tick));
+
+  document.getElementById('room-info')!.style.display = 'none';
+  const bar = document.getElementById('spectator-bar')!;
+  const title = document.getElementById('spectator-title')!;
+  const followSelect = document.getElementById('follow-select') as HTMLSelectElement;
+  const joinButton = document.getElementById('spectator-join-button') as HTMLButtonElement;
+  bar.style.display = 'flex';
+  title.textContent = `👁 Watching room ${roomCode.toUpperCase()}`;
+
+  // Re-join on every connect so a dropped connection keeps watching
+  socketClient.on('connect', () => {
+    snapshots.reset();
+    socketClient.joinSpectator(roomCode, reducedRate, (response) => {
+      if (!response.success) {
+        title.textContent = `👁 ${response.error}`;
+        return;
+      }
+      title.textContent = `👁 Watching room ${response.roomCode}`;
+    });
+  });
+
+  socketClient.on('mapSync', (data) => {
+    renderer.updateMap(data);
+  });
+
+  socketClient.on('blockUpdates', (updates) => {
+    renderer.applyBlockUpdates(updates);
+  });
+
+  let playerKey = '';
+  const showState = (state: SerializedGameState | null) => {
+    if (!state) return;
+
+    renderer.updateGameState(state);
+    joinButton.disabled = state.phase === 'PLAYING';
+
+    // Only rebuild the follow list when players come or go
+    const key = state.players.map(p => `${p.id}:${p.name}`).join('|');
+    if (key !== playerKey) {
+      playerKey = key;
+      updateFollowOptions(followSelect, state);
+    }
+  };
+  socketClient.on('snapshot', (snapshot) => showState(snapshots.receive(snapshot)));
+  socketClient.on('snapshotBinary', (data) => showState(snapshots.receiveBinary(data)));
+
+  socketClient.on('mapLobby', (lobby) => {
+    renderer.updateMapLobby(lobby);
+  });
+
+  socketClient.on('spectatorCount', (count) => {
+    document.getElementById('spectator-count')!.textContent = `${count} watching`;
+  });
+
+  followSelect.addEventListener('change', () => {
+    renderer.setFollowedPlayer(followSelect.value || null);
+  });
+
+  joinButton.addEventListener('click', () => {
+    const playerName = window.prompt('Your name', window.localStorage.getItem('astro.playerName') || '')?.trim();
+    if (!playerName) return;
+
+    joinButton.disabled = true;
+    socketClient.promoteSpectator(playerName, (response) => {
+      if (!response.success) {
+        alert(response.error);
+        joinButton.disabled = false;
+        return;
+      }
+
+      // The controller resumes the session created for us
+      const params = new URLSearchParams({
+        room: response.roomCode,
+        session: response.sessionToken,
+        name: playerName,
+      });
+      window.location.href = `${controllerUrl}?${params}`;
+    });
+  });
+
+  // Update connection status UI
+  const statusDot = document.querySelector('.status-dot') as HTMLElement;
+  const statusText = document.querySelector('#connection-status span') as HTMLElement;
+
+  socketClient.on('connect', () => {
+    statusDot.classList.remove('disconnected');
+    statusText.textContent = 'Connected';
+  });
+
+  socketClient.on('disconnect', () => {
+    statusDot.classList.add('disconnected');
+    statusText.textContent = 'Disconnected';
+  });
+}
+
+function updateFollowOptions(select: HTMLSelectElement, state: SerializedGameState): void {
+  const selected = select.value;
+  select.innerHTML = '';
+  select.append(new Option('Whole arena', ''));
+
+  for (const player of state.players) {
+    select.append(new Option(player.isBot ? `🤖 ${player.name}` : player.name, player.id));
+  }
+
+  // Keep following the same player, fall back to the whole arena if they left
+  select.value = state.players.some(p => p.id === selected) ? selected : '';
+  if (select.value !== selected) {
+    select.dispatchEvent(new Event('change'));
+  }
+}
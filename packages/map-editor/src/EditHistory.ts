@@ -0,0 +1,61 @@
+const MAX_HISTORY = 200; // Oldest edits are forgotten beyond this
+
+export interface CellChange {
+  x: number;
+  y: number;
+  before: string;
+  after: string;
+}
+
+// One undo step: the cells of a paint stroke, or a whole grid (clear, fill, resize, import)
+export type Edit =
+  | { kind: 'cells'; changes: CellChange[] }
+  | { kind: 'grid'; before: string[][]; after: string[][] };
+
+/**
+ * Undo and redo stacks of map edits. A new edit drops whatever could be redone.
+ */
+export class EditHistory {
+  private undoStack: Edit[] = [];
+  private redoStack: Edit[] = [];
+
+  push(edit: Edit): void {
+    if (edit.kind === 'cells' && edit.changes.length === 0) return;
+
+    this.undoStack.push(edit);
+    if (this.undoStack.length > MAX_HISTORY) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Edit to revert (null if there is nothing to undo)
+   */
+  undo(): Edit | null {
+    const edit = this.undoStack.pop();
+    if (!edit) return null;
+
+    this.redoStack.push(edit);
+    return edit;
+  }
+
+  /**
+   * Edit to apply again (null if there is nothing to redo)
+   */
+  redo(): Edit | null {
+    const edit = this.redoStack.pop();
+    if (!edit) return null;
+
+    this.undoStack.push(edit);
+    return edit;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+}
@@ -0,0 +1,44 @@
+import type { MapIssue, MapSummary } from '@astroparty/shared';
+
+/**
+ * The game server's map API (/api/maps). Every call needs the server's MAP_API_TOKEN.
+ * Failed requests throw with the server's error message.
+ */
+export class MapServerClient {
+  constructor(private serverUrl: string, private token: string) {}
+
+  list(): Promise<MapSummary[]> {
+    return this.request('GET', '').then(response => response.json());
+  }
+
+  load(id: string): Promise<string> {
+    return this.request('GET', `/${encodeURIComponent(id)}`).then(response => response.text());
+  }
+
+  /**
+   * Add or replace a map. Resolves with its warnings.
+   */
+  async publish(id: string, text: string): Promise<MapIssue[]> {
+    const response = await this.request('PUT', `/${encodeURIComponent(id)}`, text);
+    const { issues } = await response.json();
+    return issues;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.request('DELETE', `/${encodeURIComponent(id)}`);
+  }
+
+  private async request(method: string, path: string, body?: string): Promise<Response> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.token}` };
+    if (body !== undefined) headers['Content-Type'] = 'text/plain';
+
+    const response = await fetch(`${this.serverUrl.replace(/\/+$/, '')}/api/maps${path}`, { method, headers, body });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      const issues: MapIssue[] = error?.issues ?? [];
+      const details = issues.filter(issue => issue.severity === 'error').map(issue => `\n• ${issue.message}`).join('');
+      throw new Error(`${error?.error ?? `${response.status} ${response.statusText}`}${details}`);
+    }
+    return response;
+  }
+}
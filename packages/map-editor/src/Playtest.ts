@@ -0,0 +1,218 @@
+import type { MapData, TileKind } from '@astroparty/shared';
+import {
+  ASTEROID_CONFIGS,
+  BLOCK_SIZE,
+  BULLET_RADIUS,
+  GAME_FPS,
+  GAME_SETTINGS_LIMITS,
+  InputAction,
+  MEGA_BULLET_SIZE_MULTIPLIER,
+  MINE_RADIUS,
+  POWERUP_RADIUS,
+  SHIP_SIZE,
+} from '@astroparty/shared';
+// The server's game core is network-free, so the editor runs the real physics
+import { GameSimulation, TickClock, SeededRandom } from '@astroparty/simulation';
+
+const PILOT_ID = 'pilot';
+const TICK_MS = 1000 / GAME_FPS;
+const MAX_STEPS_PER_FRAME = 5; // Don't spiral after the tab was in the background
+
+// Held keys send the start action on press and the stop action on release
+const KEY_ACTIONS: Record<string, { press: InputAction; release?: InputAction }> = {
+  ArrowUp: { press: InputAction.THRUST_START, release: InputAction.THRUST_STOP },
+  w: { press: InputAction.THRUST_START, release: InputAction.THRUST_STOP },
+  ' ': { press: InputAction.FIRE },
+  ArrowDown: { press: InputAction.PLACE_MINE },
+  Shift: { press: InputAction.DASH },
+};
+
+export type TileColors = Record<TileKind, { fill: string; stroke: string }>;
+
+/**
+ * Fly a ship on the map being edited, with the server's simulation stepped in the browser
+ */
+export class Playtest {
+  private simulation: GameSimulation;
+  private frame: number | null = null;
+  private lastFrameTime = 0;
+  private pendingTime = 0; // ms not simulated yet
+  private heldKeys = new Set<string>();
+  private onKeyDown = (e: KeyboardEvent) => this.handleKey(e, true);
+  private onKeyUp = (e: KeyboardEvent) => this.handleKey(e, false);
+
+  constructor(
+    private ctx: CanvasRenderingContext2D,
+    map: MapData,
+    botCount: number,
+    private tileColors: TileColors,
+    private onExit: () => void
+  ) {
+    this.simulation = new GameSimulation({
+      clock: new TickClock(),
+      random: new SeededRandom(Date.now()),
+      roundDuration: GAME_SETTINGS_LIMITS.roundDuration.max,
+      selectMap: () => map,
+      label: 'Playtest',
+    });
+
+    this.simulation.addPlayer(PILOT_ID, 'You');
+    for (let i = 0; i < botCount; i++) {
+      this.simulation.addBot(PILOT_ID, 'EASY');
+    }
+    this.simulation.startGame(PILOT_ID);
+  }
+
+  start(): void {
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('keyup', this.onKeyUp);
+    this.lastFrameTime = performance.now();
+    this.frame = requestAnimationFrame(time => this.tick(time));
+  }
+
+  stop(): void {
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('keyup', this.onKeyUp);
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  private handleKey(e: KeyboardEvent, pressed: boolean): void {
+    if (e.key === 'Escape' && pressed) {
+      this.onExit();
+      return;
+    }
+
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    const action = KEY_ACTIONS[key];
+    if (!action) return;
+    e.preventDefault();
+
+    // Ignore auto-repeat: one input per press, like a controller button
+    if (pressed === this.heldKeys.has(key)) return;
+    if (pressed) this.heldKeys.add(key);
+    else this.heldKeys.delete(key);
+
+    const input = pressed ? action.press : action.release;
+    if (input) {
+      this.simulation.queueInput(PILOT_ID, { action: input, timestamp: this.simulation.now() });
+    }
+  }
+
+  private tick(time: number): void {
+    this.pendingTime += time - this.lastFrameTime;
+    this.lastFrameTime = time;
+
+    let steps = 0;
+    while (this.pendingTime >= TICK_MS && steps < MAX_STEPS_PER_FRAME) {
+      this.simulation.step();
+      this.pendingTime -= TICK_MS;
+      steps++;
+    }
+    if (steps === MAX_STEPS_PER_FRAME) {
+      this.pendingTime = 0;
+    }
+
+    this.draw();
+    this.frame = requestAnimationFrame(next => this.tick(next));
+  }
+
+  private draw(): void {
+    const state = this.simulation.getState();
+    const ctx = this.ctx;
+
+    ctx.fillStyle = '#0a0a15';
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+    for (const well of state.environment.gravityWells) {
+      this.drawCircle(well.gridX * BLOCK_SIZE + BLOCK_SIZE / 2, well.gridY * BLOCK_SIZE + BLOCK_SIZE / 2, BLOCK_SIZE * 0.4, '#000000', '#ff8c3c');
+    }
+    ctx.fillStyle = '#9b59b633';
+    for (const cell of state.environment.nebulaCells) {
+      ctx.fillRect(cell.gridX * BLOCK_SIZE, cell.gridY * BLOCK_SIZE, BLOCK_SIZE, BLOCK_SIZE);
+    }
+    ctx.fillStyle = '#7fd4ff14';
+    for (const cell of state.environment.windCells) {
+      ctx.fillRect(cell.gridX * BLOCK_SIZE, cell.gridY * BLOCK_SIZE, BLOCK_SIZE, BLOCK_SIZE);
+    }
+    for (const teleporter of state.teleporters) {
+      for (const pad of teleporter.pads) {
+        const color = teleporter.bullets ? '#c77dff' : '#4dd0e1';
+        this.drawCircle(pad.gridX * BLOCK_SIZE + BLOCK_SIZE / 2, pad.gridY * BLOCK_SIZE + BLOCK_SIZE / 2, BLOCK_SIZE * 0.4, null, color);
+      }
+    }
+
+    // Blocks come from the simulation, so broken walls disappear
+    for (const block of state.blocks) {
+      const colors = this.tileColors[block.kind ?? 'SOLID'];
+      ctx.fillStyle = colors.fill;
+      ctx.fillRect(block.gridX * BLOCK_SIZE + 1, block.gridY * BLOCK_SIZE + 1, BLOCK_SIZE - 2, BLOCK_SIZE - 2);
+      ctx.strokeStyle = colors.stroke;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(block.gridX * BLOCK_SIZE + 1, block.gridY * BLOCK_SIZE + 1, BLOCK_SIZE - 2, BLOCK_SIZE - 2);
+    }
+
+    for (const powerUp of state.powerUps) {
+      this.drawCircle(powerUp.position.x, powerUp.position.y, POWERUP_RADIUS, '#f1c40f55', '#f1c40f');
+    }
+    for (const mine of state.mines) {
+      this.drawCircle(mine.position.x, mine.position.y, MINE_RADIUS, '#e74c3c', null);
+    }
+    for (const asteroid of state.asteroids) {
+      this.drawCircle(asteroid.position.x, asteroid.position.y, ASTEROID_CONFIGS[asteroid.size].radius, '#6e645a', '#c8bfb0');
+    }
+    for (const bullet of state.bullets) {
+      const radius = bullet.isMega ? BULLET_RADIUS * MEGA_BULLET_SIZE_MULTIPLIER : BULLET_RADIUS;
+      this.drawCircle(bullet.position.x, bullet.position.y, radius, '#ffffff', null);
+    }
+
+    for (const player of state.players.values()) {
+      if (!player.isAlive) continue;
+
+      ctx.save();
+      ctx.translate(player.position.x, player.position.y);
+      ctx.rotate(player.rotation);
+      ctx.fillStyle = player.color;
+      ctx.beginPath();
+      ctx.moveTo(SHIP_SIZE * 0.6, 0);
+      ctx.lineTo(-SHIP_SIZE * 0.4, -SHIP_SIZE * 0.5);
+      ctx.lineTo(-SHIP_SIZE * 0.4, SHIP_SIZE * 0.5);
+      ctx.closePath();
+      ctx.fill();
+      if (player.id === PILOT_ID) {
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+
+    const pilot = state.players.get(PILOT_ID);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '16px sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText(
+      `PLAYTEST · ↑/W thrust (release to turn) · Space fire · ↓ mine · Shift dash · Esc back to editing` +
+        (pilot ? ` · Score ${pilot.score} · Ammo ${pilot.ammo}` : ''),
+      10,
+      10
+    );
+  }
+
+  private drawCircle(x: number, y: number, radius: number, fill: string | null, stroke: string | null): void {
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, radius, 0, Math.PI * 2);
+    if (fill) {
+      this.ctx.fillStyle = fill;
+      this.ctx.fill();
+    }
+    if (stroke) {
+      this.ctx.strokeStyle = stroke;
+      this.ctx.lineWidth = 2;
+      this.ctx.stroke();
+    }
+  }
+}
@@ -1,11 +1,109 @@
-import { GRID_WIDTH, GRID_HEIGHT, BLOCK_SIZE } from '@astroparty/shared';
+import type { MapData, TileKind } from '@astroparty/shared';
+import { EditHistory } from './EditHistory';
+import type { CellChange, Edit } from './EditHistory';
+import { mirrorCell, lineCells, rectCells, floodFillCells } from './shapes';
+import type { Cell, Symmetry } from './shapes';
+import { Playtest } from './Playtest';
+import { MapServerClient } from './MapServerClient';
+import {
+  GRID_WIDTH,
+  GRID_HEIGHT,
+  BLOCK_SIZE,
+  MAP_MIN_WIDTH,
+  MAP_MAX_WIDTH,
+  MAP_MIN_HEIGHT,
+  MAP_MAX_HEIGHT,
+  parseMapText,
+  hasMapErrors,
+  formatMapIssue,
+  MAP_TILES,
+  MAP_SPAWN_POINT,
+  MAP_POWERUP_PAD,
+  MAP_TELEPORTER_CHANNELS,
+  MAP_WORMHOLE_CHANNELS,
+  MAP_GRAVITY_WELL,
+  MAP_NEBULA,
+  MAP_WIND,
+} from '@astroparty/shared';
+
+const EMPTY = '.';
+
+const tileChar = (kind: TileKind) => Object.keys(MAP_TILES).find(char => MAP_TILES[char] === kind)!;
+
+// Map file character each tool paints
+const TOOLS = {
+  wall: tileChar('SOLID'),
+  glass: tileChar('GLASS'),
+  destructible: tileChar('DESTRUCTIBLE'),
+  bouncy: tileChar('BOUNCY'),
+  spawn: MAP_SPAWN_POINT,
+  pad: MAP_POWERUP_PAD,
+  well: MAP_GRAVITY_WELL,
+  nebula: MAP_NEBULA,
+  erase: EMPTY,
+};
+
+// Tools that paint one character per channel, picked in the channel selector
+const CHANNEL_TOOLS = {
+  teleporter: MAP_TELEPORTER_CHANNELS,
+  wormhole: MAP_WORMHOLE_CHANNELS,
+};
+type Tool = keyof typeof TOOLS | keyof typeof CHANNEL_TOOLS | 'wind';
+
+// How a click or drag paints: freehand, straight line, rectangle outline or block,
+// bucket fill, or selecting a region to copy
+const SHAPES = ['brush', 'line', 'rect', 'block', 'fill', 'select'] as const;
+type Shape = typeof SHAPES[number];
+
+// Keys without modifiers
+const SHAPE_SHORTCUTS: Record<string, Shape> = {
+  d: 'brush',
+  l: 'line',
+  r: 'rect',
+  k: 'fill',
+  m: 'select',
+};
+const SHORTCUTS: Record<string, Tool | 'border'> = {
+  w: 'wall',
+  g: 'glass',
+  b: 'destructible',
+  o: 'bouncy',
+  s: 'spawn',
+  p: 'pad',
+  t: 'teleporter',
+  h: 'wormhole',
+  e: 'erase',
+  f: 'border',
+};
+
+const WIND_ARROWS: Record<string, string> = { '^': '↑', 'v': '↓', '<': '←', '>': '→' };
+
+const TILE_COLORS: Record<TileKind, { fill: string; stroke: string }> = {
+  SOLID: { fill: '#2a2a3e88', stroke: '#1a1a2eaa' },
+  GLASS: { fill: '#7fd4ff33', stroke: '#7fd4ff99' },
+  DESTRUCTIBLE: { fill: '#8a5a2e88', stroke: '#c98a4bcc' },
+  BOUNCY: { fill: '#2ecc7155', stroke: '#2ecc71' },
+};
 
 class MapEditor {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
-  private grid: boolean[][]; // true = wall, false = empty
-  private currentTool: 'wall' | 'erase' = 'wall';
+  private grid: string[][]; // Map file characters, EMPTY for free space
+  private currentTool: Tool = 'wall';
+  private channel = 0; // Index into the channel characters
+  private windChar = '>'; // Map character of the wind direction to paint
   private isDrawing = false;
+  private strokeTool: Tool | null = null; // Tool of the stroke being drawn (erase for right drags)
+  private shape: Shape = 'brush';
+  private symmetry: Symmetry = 'NONE';
+  private anchor: Cell | null = null; // Where a line, rectangle or selection drag started
+  private hoverCell: Cell | null = null;
+  private selection: [Cell, Cell] | null = null; // Corners of the selected region
+  private clipboard: string[][] | null = null;
+  private isPasting = false; // The clipboard follows the mouse until a click stamps it
+  private stroke = new Map<string, CellChange>(); // "x,y" -> change, one undo step per stroke
+  private history = new EditHistory();
+  private playtest: Playtest | null = null; // Editing is off while a playtest runs
 
   constructor() {
     this.canvas = document.getElementById('canvas') as HTMLCanvasElement;
@@ -13,14 +111,13 @@ class MapEditor {
     
     // Initialize empty grid
     this.grid = Array(GRID_HEIGHT).fill(null).map(() => 
-      Array(GRID_WIDTH).fill(false)
+      Array(GRID_WIDTH).fill(EMPTY)
     );
     
     this.setupCanvas();
     this.setupEventListeners();
-    this.render();
-    this.updateStats();
-    this.updatePreview();
+    this.refresh();
+    this.updateHistoryButtons();
   }
 
   private setupCanvas(): void {
@@ -34,48 +131,80 @@ class MapEditor {
   }
 
   private setupEventListeners(): void {
-    // Canvas mouse events
+    // Canvas mouse events (right button erases)
     this.canvas.addEventListener('mousedown', (e) => {
-      this.isDrawing = true;
-      this.handleDraw(e);
+      this.handleMouseDown(e);
     });
     
     this.canvas.addEventListener('mousemove', (e) => {
-      if (this.isDrawing) this.handleDraw(e);
+      this.hoverCell = this.getCell(e);
+      if (this.isDrawing && this.shape === 'brush') {
+        if (this.hoverCell) this.paintCells([this.hoverCell], this.getStrokeChar());
+      } else if (this.anchor || this.isPasting) {
+        this.render(); // Shape or paste preview
+      }
     });
     
     this.canvas.addEventListener('mouseup', () => {
-      this.isDrawing = false;
+      this.finishDrag();
     });
     
     this.canvas.addEventListener('mouseleave', () => {
-      this.isDrawing = false;
+      // Dragging out of the canvas drops the shape
+      this.anchor = null;
+      this.hoverCell = null;
+      this.endStroke();
+      this.render();
     });
     
     this.canvas.addEventListener('contextmenu', (e) => {
       e.preventDefault();
-      const prevTool = this.currentTool;
-      this.currentTool = 'erase';
-      this.isDrawing = true;
-      this.handleDraw(e);
-      // Return to previous tool after right-click
-      setTimeout(() => {
-        if (prevTool === 'wall') {
-          this.setTool('wall');
-        }
-      }, 50);
+    });
+
+    document.addEventListener('keydown', (e) => {
+      this.handleShortcut(e);
     });
     
     // Tool buttons
-    document.getElementById('tool-wall')!.addEventListener('click', () => {
-      this.setTool('wall');
+    for (const tool of [...Object.keys(TOOLS), ...Object.keys(CHANNEL_TOOLS), 'wind'] as Tool[]) {
+      document.getElementById(`tool-${tool}`)!.addEventListener('click', () => {
+        this.setTool(tool);
+      });
+    }
+    
+    for (const shape of SHAPES) {
+      document.getElementById(`shape-${shape}`)!.addEventListener('click', () => {
+        this.setShape(shape);
+      });
+    }
+    
+    document.getElementById('symmetry')!.addEventListener('change', (e) => {
+      this.symmetry = (e.target as HTMLSelectElement).value as Symmetry;
+      this.render();
+    });
+    
+    document.getElementById('channel')!.addEventListener('change', (e) => {
+      this.channel = Number((e.target as HTMLSelectElement).value);
     });
     
-    document.getElementById('tool-erase')!.addEventListener('click', () => {
-      this.setTool('erase');
+    // Out of range values show up in the validation panel
+    document.getElementById('map-asteroids')!.addEventListener('input', () => {
+      this.updateValidation();
+    });
+    
+    document.getElementById('wind-direction')!.addEventListener('change', (e) => {
+      this.windChar = (e.target as HTMLSelectElement).value;
     });
     
     // Action buttons
+    document.getElementById('btn-undo')!.addEventListener('click', () => {
+      this.undo();
+    });
+    
+    document.getElementById('btn-redo')!.addEventListener('click', () => {
+      this.redo();
+    });
+    
     document.getElementById('btn-clear')!.addEventListener('click', () => {
       this.clearMap();
     });
@@ -88,7 +217,6 @@ class MapEditor {
       this.addBorder();
     });
     
-    
     document.getElementById('btn-resize')!.addEventListener('click', () => {
       this.resizeGrid();
     });
@@ -104,81 +232,354 @@ class MapEditor {
     document.getElementById('file-input')!.addEventListener('change', (e) => {
       this.importMap(e as Event);
     });
+    
+    // Server URL and token survive reloads (the token only for this tab)
+    const serverUrl = document.getElementById('server-url') as HTMLInputElement;
+    const serverToken = document.getElementById('server-token') as HTMLInputElement;
+    serverUrl.value = window.localStorage.getItem('astro.editor.serverUrl') ?? serverUrl.value;
+    serverToken.value = window.sessionStorage.getItem('astro.editor.mapToken') ?? '';
+    serverUrl.addEventListener('change', () => window.localStorage.setItem('astro.editor.serverUrl', serverUrl.value.trim()));
+    serverToken.addEventListener('change', () => window.sessionStorage.setItem('astro.editor.mapToken', serverToken.value));
+    
+    document.getElementById('btn-publish')!.addEventListener('click', () => {
+      this.publishMap();
+    });
+    
+    document.getElementById('btn-server-refresh')!.addEventListener('click', () => {
+      this.refreshServerMaps();
+    });
+    
+    document.getElementById('btn-server-open')!.addEventListener('click', () => {
+      this.openServerMap();
+    });
+    
+    document.getElementById('btn-server-delete')!.addEventListener('click', () => {
+      this.deleteServerMap();
+    });
+    
+    document.getElementById('btn-playtest')!.addEventListener('click', () => {
+      if (this.playtest) this.stopPlaytest();
+      else this.startPlaytest();
+    });
   }
 
-  private handleDraw(e: MouseEvent): void {
+  private handleMouseDown(e: MouseEvent): void {
+    const cell = this.getCell(e);
+    if (!cell || this.playtest) return;
+    this.strokeTool = e.button === 2 ? 'erase' : this.currentTool;
+
+    if (this.isPasting) {
+      // Left click stamps the clipboard, right click puts it away
+      if (e.button === 2) {
+        this.isPasting = false;
+      } else {
+        this.stamp(cell);
+      }
+      this.endStroke();
+      this.render();
+      return;
+    }
+
+    switch (this.shape) {
+      case 'brush':
+        this.isDrawing = true;
+        this.paintCells([cell], this.getStrokeChar());
+        break;
+      case 'fill':
+        this.paintCells(floodFillCells(this.grid, cell), this.getStrokeChar());
+        this.endStroke();
+        break;
+      default:
+        this.isDrawing = true;
+        this.anchor = cell;
+        this.hoverCell = cell;
+        this.selection = null;
+        this.render();
+    }
+  }
+
+  /**
+   * Mouse released: draw the line or rectangle, or keep the selection
+   */
+  private finishDrag(): void {
+    if (this.anchor && this.hoverCell) {
+      if (this.shape === 'select') {
+        this.selection = [this.anchor, this.hoverCell];
+      } else {
+        this.paintCells(this.getShapeCells(this.anchor, this.hoverCell), this.getStrokeChar());
+      }
+    }
+    this.anchor = null;
+    this.endStroke();
+    this.render();
+  }
+
+  private getShapeCells(from: Cell, to: Cell): Cell[] {
+    switch (this.shape) {
+      case 'line': return lineCells(from, to);
+      case 'rect': return rectCells(from, to, false);
+      case 'block': return rectCells(from, to, true);
+      default: return [to];
+    }
+  }
+
+  /**
+   * Grid cell under the mouse (null outside the grid)
+   */
+  private getCell(e: MouseEvent): Cell | null {
     const rect = this.canvas.getBoundingClientRect();
-    const width = this.grid[0]?.length || GRID_WIDTH;
-    const height = this.grid.length || GRID_HEIGHT;
     const x = Math.floor((e.clientX - rect.left) / BLOCK_SIZE);
     const y = Math.floor((e.clientY - rect.top) / BLOCK_SIZE);
-    
-    if (x >= 0 && x < width && y >= 0 && y < height) {
-      const newValue = this.currentTool === 'wall';
-      
-      // Only update if value changed
-      if (this.grid[y][x] !== newValue) {
-        this.grid[y][x] = newValue;
-        this.render();
-        this.updateStats();
-        this.updatePreview();
+    return x >= 0 && x < this.getWidth() && y >= 0 && y < this.getHeight() ? [x, y] : null;
+  }
+
+  private getWidth(): number {
+    return this.grid[0]?.length || GRID_WIDTH;
+  }
+
+  private getHeight(): number {
+    return this.grid.length || GRID_HEIGHT;
+  }
+
+  private getStrokeChar(): string {
+    return this.getToolChar(this.strokeTool ?? this.currentTool);
+  }
+
+  /**
+   * Paint cells and their mirror images as part of the current stroke
+   */
+  private paintCells(cells: Cell[], value: string): void {
+    const painted = cells.flatMap(cell => mirrorCell(cell, this.getWidth(), this.getHeight(), this.symmetry));
+    for (const [x, y] of painted) {
+      this.setCell(x, y, value);
+    }
+    this.refresh();
+  }
+
+  private setCell(x: number, y: number, value: string): void {
+    // Only update if value changed
+    if (this.grid[y]?.[x] === undefined || this.grid[y][x] === value) return;
+
+    const key = `${x},${y}`;
+    const change = this.stroke.get(key) ?? { x, y, before: this.grid[y][x], after: value };
+    change.after = value;
+    this.stroke.set(key, change);
+    this.grid[y][x] = value;
+  }
+
+  private copySelection(): void {
+    if (!this.selection) return;
+
+    const [a, b] = this.selection;
+    const [left, right] = [Math.min(a[0], b[0]), Math.max(a[0], b[0])];
+    const [top, bottom] = [Math.min(a[1], b[1]), Math.max(a[1], b[1])];
+    this.clipboard = this.grid.slice(top, bottom + 1).map(row => row.slice(left, right + 1));
+  }
+
+  private eraseSelection(): void {
+    if (!this.selection) return;
+
+    this.paintCells(rectCells(this.selection[0], this.selection[1], true), EMPTY);
+    this.endStroke();
+  }
+
+  /**
+   * Copy the clipboard with its top left corner on a cell (and mirrored)
+   */
+  private stamp([left, top]: Cell): void {
+    if (!this.clipboard) return;
+
+    this.clipboard.forEach((row, dy) => row.forEach((value, dx) => {
+      for (const [x, y] of mirrorCell([left + dx, top + dy], this.getWidth(), this.getHeight(), this.symmetry)) {
+        this.setCell(x, y, value);
       }
+    }));
+    this.refresh();
+  }
+
+  /**
+   * Record the cells painted since the mouse went down as one undo step
+   */
+  private endStroke(): void {
+    this.isDrawing = false;
+    this.strokeTool = null;
+    if (this.stroke.size === 0) return;
+
+    this.history.push({ kind: 'cells', changes: Array.from(this.stroke.values()) });
+    this.stroke.clear();
+    this.updateHistoryButtons();
+  }
+
+  /**
+   * Replace the whole grid as one undo step (clear, fill, border, resize, import)
+   */
+  private replaceGrid(grid: string[][]): void {
+    this.endStroke();
+    this.history.push({ kind: 'grid', before: this.grid, after: grid });
+    this.setGrid(grid);
+    this.updateHistoryButtons();
+  }
+
+  private undo(): void {
+    this.endStroke();
+    const edit = this.history.undo();
+    if (edit) this.applyEdit(edit, 'before');
+    this.updateHistoryButtons();
+  }
+
+  private redo(): void {
+    this.endStroke();
+    const edit = this.history.redo();
+    if (edit) this.applyEdit(edit, 'after');
+    this.updateHistoryButtons();
+  }
+
+  private applyEdit(edit: Edit, side: 'before' | 'after'): void {
+    if (edit.kind === 'grid') {
+      this.setGrid(edit[side]);
+      return;
+    }
+
+    for (const change of edit.changes) {
+      this.grid[change.y][change.x] = change[side];
+    }
+    this.refresh();
+  }
+
+  /**
+   * Show a grid (kept as is: grids in the history are never modified in place)
+   */
+  private setGrid(grid: string[][]): void {
+    this.grid = grid.map(row => [...row]);
+    this.selection = null;
+    (document.getElementById('grid-width') as HTMLInputElement).value = String(this.grid[0]?.length || GRID_WIDTH);
+    (document.getElementById('grid-height') as HTMLInputElement).value = String(this.grid.length || GRID_HEIGHT);
+    this.resizeCanvas();
+    this.refresh();
+  }
+
+  private updateHistoryButtons(): void {
+    (document.getElementById('btn-undo') as HTMLButtonElement).disabled = !this.history.canUndo();
+    (document.getElementById('btn-redo') as HTMLButtonElement).disabled = !this.history.canRedo();
+  }
+
+  /**
+   * Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo and redo, single keys pick tools and run quick actions
+   */
+  private handleShortcut(e: KeyboardEvent): void {
+    // The playtest has its own keys
+    if (this.playtest) return;
+
+    // Typing in the sidebar fields
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+
+    const key = e.key.toLowerCase();
+    if (e.ctrlKey || e.metaKey) {
+      if (key === 'z' && !e.shiftKey) this.undo();
+      else if (key === 'z' || key === 'y') this.redo();
+      else if (key === 's') this.exportMap();
+      else if (key === 'c') this.copySelection();
+      else if (key === 'v' && this.clipboard) this.isPasting = true;
+      else return;
+      e.preventDefault();
+      this.render();
+      return;
+    }
+    if (e.altKey) return;
+
+    if (key === 'escape') {
+      this.isPasting = false;
+      this.selection = null;
+      this.render();
+      return;
     }
+    if (key === 'delete' || key === 'backspace') {
+      this.eraseSelection();
+      e.preventDefault();
+      return;
+    }
+
+    const shape = SHAPE_SHORTCUTS[key];
+    if (shape) {
+      this.setShape(shape);
+      return;
+    }
+
+    const action = SHORTCUTS[key];
+    if (!action) return;
+    e.preventDefault();
+    if (action === 'border') this.addBorder();
+    else this.setTool(action);
   }
 
-  private setTool(tool: 'wall' | 'erase'): void {
+  private getToolChar(tool: Tool): string {
+    if (tool === 'wind') return this.windChar;
+    return tool in CHANNEL_TOOLS
+      ? CHANNEL_TOOLS[tool as keyof typeof CHANNEL_TOOLS][this.channel]
+      : TOOLS[tool as keyof typeof TOOLS];
+  }
+
+  private setShape(shape: Shape): void {
+    this.shape = shape;
+    this.anchor = null;
+    document.querySelectorAll('#shapes .tool-btn').forEach(btn => {
+      btn.classList.remove('active');
+    });
+    document.getElementById(`shape-${shape}`)!.classList.add('active');
+  }
+
+  private setTool(tool: Tool): void {
     this.currentTool = tool;
-    document.querySelectorAll('.tool-btn').forEach(btn => {
+    document.querySelectorAll('#tools .tool-btn').forEach(btn => {
       btn.classList.remove('active');
     });
     document.getElementById(`tool-${tool}`)!.classList.add('active');
   }
 
+  // Both can be undone, so no confirmation
   private clearMap(): void {
-    if (confirm('Clear entire map?')) {
-      const width = this.grid[0]?.length || GRID_WIDTH;
-      const height = this.grid.length || GRID_HEIGHT;
-      this.grid = Array(height).fill(null).map(() => 
-        Array(width).fill(false)
-      );
-      this.render();
-      this.updateStats();
-      this.updatePreview();
-    }
+    const width = this.grid[0]?.length || GRID_WIDTH;
+    const height = this.grid.length || GRID_HEIGHT;
+    this.replaceGrid(Array(height).fill(null).map(() => 
+      Array(width).fill(EMPTY)
+    ));
   }
 
   private fillMap(): void {
-    if (confirm('Fill entire map with walls?')) {
-      const width = this.grid[0]?.length || GRID_WIDTH;
-      const height = this.grid.length || GRID_HEIGHT;
-      this.grid = Array(height).fill(null).map(() => 
-        Array(width).fill(true)
-      );
-      this.render();
-      this.updateStats();
-      this.updatePreview();
-    }
+    const width = this.grid[0]?.length || GRID_WIDTH;
+    const height = this.grid.length || GRID_HEIGHT;
+    this.replaceGrid(Array(height).fill(null).map(() => 
+      Array(width).fill(TOOLS.wall)
+    ));
   }
 
   private addBorder(): void {
     const width = this.grid[0]?.length || GRID_WIDTH;
     const height = this.grid.length || GRID_HEIGHT;
+    const grid = this.grid.map(row => [...row]);
     
     // Add 1-block border around edges
     for (let x = 0; x < width; x++) {
-      this.grid[0][x] = true;
-      this.grid[height - 1][x] = true;
+      grid[0][x] = TOOLS.wall;
+      grid[height - 1][x] = TOOLS.wall;
     }
     for (let y = 0; y < height; y++) {
-      this.grid[y][0] = true;
-      this.grid[y][width - 1] = true;
+      grid[y][0] = TOOLS.wall;
+      grid[y][width - 1] = TOOLS.wall;
     }
+    this.replaceGrid(grid);
+  }
+
+  private refresh(): void {
     this.render();
     this.updateStats();
     this.updatePreview();
   }
 
   private render(): void {
+    if (this.playtest) return; // The playtest owns the canvas
+
     const width = this.grid[0]?.length || GRID_WIDTH;
     const height = this.grid.length || GRID_HEIGHT;
     
@@ -209,9 +610,11 @@ class MapEditor {
     // Draw blocks
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        if (this.grid[y][x]) {
-          // Solid block
-          this.ctx.fillStyle = '#2a2a3e88';
+        const cell = this.grid[y][x];
+        const kind = MAP_TILES[cell];
+        if (kind) {
+          // Tile
+          this.ctx.fillStyle = TILE_COLORS[kind].fill;
           this.ctx.fillRect(
             x * BLOCK_SIZE + 1,
             y * BLOCK_SIZE + 1,
@@ -220,7 +623,7 @@ class MapEditor {
           );
           
           // Border
-          this.ctx.strokeStyle = '#1a1a2eaa';
+          this.ctx.strokeStyle = TILE_COLORS[kind].stroke;
           this.ctx.lineWidth = 2;
           this.ctx.strokeRect(
             x * BLOCK_SIZE + 1,
@@ -228,44 +631,187 @@ class MapEditor {
             BLOCK_SIZE - 2,
             BLOCK_SIZE - 2
           );
+        } else if (cell === MAP_SPAWN_POINT || cell === MAP_POWERUP_PAD) {
+          // Marker on a free cell
+          this.ctx.fillStyle = cell === MAP_SPAWN_POINT ? '#5fa8ff' : '#f1c40f';
+          this.ctx.font = `bold ${Math.floor(BLOCK_SIZE * 0.6)}px sans-serif`;
+          this.ctx.textAlign = 'center';
+          this.ctx.textBaseline = 'middle';
+          this.ctx.fillText(cell, x * BLOCK_SIZE + BLOCK_SIZE / 2, y * BLOCK_SIZE + BLOCK_SIZE / 2);
+        } else if (cell === MAP_NEBULA) {
+          this.ctx.fillStyle = '#9b59b644';
+          this.ctx.fillRect(x * BLOCK_SIZE, y * BLOCK_SIZE, BLOCK_SIZE, BLOCK_SIZE);
+        } else if (cell === MAP_GRAVITY_WELL || MAP_WIND[cell]) {
+          // Force marker
+          this.ctx.fillStyle = cell === MAP_GRAVITY_WELL ? '#ff8c3c' : '#7fd4ff';
+          this.ctx.font = `bold ${Math.floor(BLOCK_SIZE * 0.6)}px sans-serif`;
+          this.ctx.textAlign = 'center';
+          this.ctx.textBaseline = 'middle';
+          this.ctx.fillText(
+            cell === MAP_GRAVITY_WELL ? '◉' : WIND_ARROWS[cell],
+            x * BLOCK_SIZE + BLOCK_SIZE / 2,
+            y * BLOCK_SIZE + BLOCK_SIZE / 2
+          );
+        } else if (cell !== EMPTY && cell !== ' ') {
+          // Teleporter or wormhole pad: ring with the channel in it
+          const centerX = x * BLOCK_SIZE + BLOCK_SIZE / 2;
+          const centerY = y * BLOCK_SIZE + BLOCK_SIZE / 2;
+          const color = MAP_WORMHOLE_CHANNELS.includes(cell) ? '#c77dff' : '#4dd0e1';
+          this.ctx.strokeStyle = color;
+          this.ctx.lineWidth = 2;
+          this.ctx.beginPath();
+          this.ctx.arc(centerX, centerY, BLOCK_SIZE / 2 - 2, 0, Math.PI * 2);
+          this.ctx.stroke();
+          this.ctx.fillStyle = color;
+          this.ctx.font = `bold ${Math.floor(BLOCK_SIZE * 0.5)}px sans-serif`;
+          this.ctx.textAlign = 'center';
+          this.ctx.textBaseline = 'middle';
+          this.ctx.fillText(cell, centerX, centerY);
         }
       }
     }
+
+    this.drawOverlay();
+  }
+
+  /**
+   * Symmetry axes, shape and paste previews, and the selection
+   */
+  private drawOverlay(): void {
+    const width = this.getWidth();
+    const height = this.getHeight();
+    this.ctx.save();
+
+    if (this.symmetry !== 'NONE') {
+      this.ctx.strokeStyle = '#6c5ce7aa';
+      this.ctx.lineWidth = 2;
+      this.ctx.setLineDash([8, 6]);
+      this.ctx.beginPath();
+      if (this.symmetry !== 'VERTICAL') {
+        this.ctx.moveTo((width * BLOCK_SIZE) / 2, 0);
+        this.ctx.lineTo((width * BLOCK_SIZE) / 2, height * BLOCK_SIZE);
+      }
+      if (this.symmetry !== 'HORIZONTAL') {
+        this.ctx.moveTo(0, (height * BLOCK_SIZE) / 2);
+        this.ctx.lineTo(width * BLOCK_SIZE, (height * BLOCK_SIZE) / 2);
+      }
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+    }
+
+    // Cells the current drag or paste would paint
+    let preview: Cell[] = [];
+    if (this.anchor && this.hoverCell && this.shape !== 'select') {
+      preview = this.getShapeCells(this.anchor, this.hoverCell);
+    } else if (this.isPasting && this.hoverCell && this.clipboard) {
+      const [left, top] = this.hoverCell;
+      preview = this.clipboard.flatMap((row, dy) => row.map((_, dx): Cell => [left + dx, top + dy]));
+    }
+    this.ctx.fillStyle = '#6c5ce766';
+    for (const cell of preview) {
+      for (const [x, y] of mirrorCell(cell, width, height, this.symmetry)) {
+        this.ctx.fillRect(x * BLOCK_SIZE, y * BLOCK_SIZE, BLOCK_SIZE, BLOCK_SIZE);
+      }
+    }
+
+    const selection = this.shape === 'select' && this.anchor && this.hoverCell
+      ? [this.anchor, this.hoverCell]
+      : this.selection;
+    if (selection) {
+      const [a, b] = selection;
+      this.ctx.strokeStyle = '#ffffff';
+      this.ctx.lineWidth = 2;
+      this.ctx.setLineDash([6, 4]);
+      this.ctx.strokeRect(
+        Math.min(a[0], b[0]) * BLOCK_SIZE + 1,
+        Math.min(a[1], b[1]) * BLOCK_SIZE + 1,
+        (Math.abs(a[0] - b[0]) + 1) * BLOCK_SIZE - 2,
+        (Math.abs(a[1] - b[1]) + 1) * BLOCK_SIZE - 2
+      );
+    }
+
+    this.ctx.restore();
   }
 
   private updateStats(): void {
     const width = this.grid[0]?.length || GRID_WIDTH;
     const height = this.grid.length || GRID_HEIGHT;
-    const blockCount = this.grid.flat().filter(b => b).length;
+    const cells = this.grid.flat();
+    const blockCount = cells.filter(cell => MAP_TILES[cell]).length;
     const total = width * height;
     const coverage = ((blockCount / total) * 100).toFixed(1);
     
     document.getElementById('grid-size')!.textContent = `${width} x ${height}`;
     document.getElementById('block-count')!.textContent = String(blockCount);
     document.getElementById('coverage')!.textContent = coverage + '%';
+    document.getElementById('spawn-count')!.textContent = String(cells.filter(cell => cell === MAP_SPAWN_POINT).length);
+    document.getElementById('pad-count')!.textContent = String(cells.filter(cell => cell === MAP_POWERUP_PAD).length);
+    document.getElementById('teleporter-count')!.textContent = String(
+      cells.filter(cell => MAP_TELEPORTER_CHANNELS.includes(cell) || MAP_WORMHOLE_CHANNELS.includes(cell)).length
+    );
   }
 
   private updatePreview(): void {
     const txt = this.gridToText();
     (document.getElementById('preview') as HTMLTextAreaElement).value = txt;
+    this.updateValidation();
+  }
+
+  /**
+   * Run the server's map checks on the map being edited
+   */
+  private updateValidation(): void {
+    const { issues } = parseMapText(this.getMapText(), 'custom_map');
+    const list = document.getElementById('validation')!;
+    list.innerHTML = '';
+
+    if (issues.length === 0) {
+      const item = document.createElement('li');
+      item.className = 'ok';
+      item.textContent = '✓ Ready to play';
+      list.append(item);
+      return;
+    }
+
+    for (const issue of issues) {
+      const item = document.createElement('li');
+      item.className = issue.severity;
+      item.textContent = `${issue.severity === 'error' ? '✗' : '⚠'} ${formatMapIssue(issue)}`;
+      list.append(item);
+    }
   }
 
   private gridToText(): string {
-    return this.grid.map(row => 
-      row.map(cell => cell ? '#' : '.').join('')
-    ).join('\n');
+    return this.grid.map(row => row.join('')).join('\n');
   }
 
-  private exportMap(): void {
+  /**
+   * Full .map.txt content, header included
+   */
+  private getMapText(): string {
     const mapName = (document.getElementById('map-name') as HTMLInputElement).value || 'Custom Map';
     const mapAuthor = (document.getElementById('map-author') as HTMLInputElement).value || 'Unknown';
     const width = this.grid[0]?.length || GRID_WIDTH;
     const height = this.grid.length || GRID_HEIGHT;
-    
-    // Build header in new format: - name | author | WIDTHxHEIGHT
-    const header = `- ${mapName} | ${mapAuthor} | ${width}x${height}`;
-    const gridData = this.gridToText();
-    const fullContent = `${header}\n${gridData}`;
+
+    const maxAsteroids = (document.getElementById('map-asteroids') as HTMLInputElement).value.trim();
+
+    // Build header in new format: - name | author | WIDTHxHEIGHT [| asteroids=N]
+    const options = maxAsteroids ? ` | asteroids=${maxAsteroids}` : '';
+    const header = `- ${mapName} | ${mapAuthor} | ${width}x${height}${options}`;
+    return `${header}\n${this.gridToText()}`;
+  }
+
+  private exportMap(): void {
+    const mapName = (document.getElementById('map-name') as HTMLInputElement).value || 'Custom Map';
+    const width = this.grid[0]?.length || GRID_WIDTH;
+    const height = this.grid.length || GRID_HEIGHT;
+    const fullContent = this.getMapText();
+
+    if (hasMapErrors(parseMapText(fullContent, 'custom_map').issues)
+      && !confirm('The server will refuse to load this map (see Validation). Export anyway?')) {
+      return;
+    }
     
     const blob = new Blob([fullContent], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
@@ -279,57 +825,169 @@ class MapEditor {
     console.log(`Exported map: ${mapName} (${width}x${height})`);
   }
 
+  /**
+   * Fly the current map with the game's simulation (refused while it has errors)
+   */
+  private startPlaytest(): void {
+    const { map, issues } = parseMapText(this.getMapText(), 'playtest');
+    if (hasMapErrors(issues)) {
+      alert('Fix the errors in the Validation panel before playtesting.');
+      return;
+    }
+
+    this.endStroke();
+    this.anchor = null;
+    this.isPasting = false;
+    const bots = Number((document.getElementById('playtest-bots') as HTMLSelectElement).value);
+    this.playtest = new Playtest(this.ctx, map, bots, TILE_COLORS, () => this.stopPlaytest());
+    this.playtest.start();
+    document.getElementById('btn-playtest')!.textContent = '⏹️ Stop Playtest';
+  }
+
+  private stopPlaytest(): void {
+    if (!this.playtest) return;
+
+    this.playtest.stop();
+    this.playtest = null;
+    document.getElementById('btn-playtest')!.textContent = '▶️ Playtest';
+    this.render();
+  }
+
   private async importMap(e: Event): Promise<void> {
     const input = e.target as HTMLInputElement;
     const file = input.files?.[0];
     if (!file) return;
     
-    const text = await file.text();
-    const lines = text.split('\n').map(l => l.trim());
-    
-    // Parse header if present (new format with -)
-    if (lines.length > 0 && lines[0].startsWith('-')) {
-      const header = lines[0].substring(1).trim();
-      const parts = header.split('|').map(p => p.trim());
-      
-      const name = parts[0] || file.name.replace('.map.txt', '').replace('.txt', '');
-      const author = parts[1] || '';
-      const gridSizeStr = parts[2] || `${GRID_WIDTH}x${GRID_HEIGHT}`;
-      const [widthStr, heightStr] = gridSizeStr.split('x');
-      const width = parseInt(widthStr) || GRID_WIDTH;
-      const height = parseInt(heightStr) || GRID_HEIGHT;
-      
-      (document.getElementById('map-name') as HTMLInputElement).value = name;
-      (document.getElementById('map-author') as HTMLInputElement).value = author;
-      (document.getElementById('grid-width') as HTMLInputElement).value = String(width);
-      (document.getElementById('grid-height')as HTMLInputElement).value = String(height);
-      
-      // Parse grid starting from line 1
-      const gridLines = lines.slice(1).filter(l => l.length > 0);
-      this.grid = this.textToGrid(gridLines.join('\n'), width, height);
-    } else {
-      // Old format - no header
-      (document.getElementById('map-name') as HTMLInputElement).value = file.name.replace('.map.txt', '').replace('.txt', '');
-      (document.getElementById('map-author') as HTMLInputElement).value = '';
-      this.grid = this.textToGrid(text, GRID_WIDTH, GRID_HEIGHT);
+    this.openMapText(await file.text(), file.name.replace('.map.txt', '').replace('.txt', ''), file.name);
+    input.value = '';
+  }
+
+  /**
+   * Load a map file into the editor, as one undo step
+   */
+  private openMapText(text: string, fallbackName: string, source: string): void {
+    const { map, issues } = parseMapText(text, fallbackName);
+    const { name, author } = map.metadata;
+
+    (document.getElementById('map-name') as HTMLInputElement).value = name;
+    (document.getElementById('map-author') as HTMLInputElement).value = author === 'Unknown' ? '' : author;
+    (document.getElementById('map-asteroids') as HTMLInputElement).value = String(map.metadata.maxAsteroids ?? '');
+    // Undoing the import brings back the map that was open
+    this.replaceGrid(this.mapToGrid(map));
+
+    // Problems with the file itself are gone once it is re-exported, so report them now
+    const fileIssues = issues.filter(issue => issue.line !== undefined);
+    if (hasMapErrors(fileIssues)) {
+      alert(`${source} has problems, check the imported map:\n\n${fileIssues.map(formatMapIssue).join('\n')}`);
     }
     
-    this.resizeCanvas();
-    this.render();
-    this.updateStats();
-    this.updatePreview();
-    
-    console.log(`Imported map: ${file.name}`);
-    input.value = '';
+    console.log(`Imported map: ${source}`);
+  }
+
+  /**
+   * Client for the server fields (null, after telling the user, if they are empty)
+   */
+  private getServerClient(): MapServerClient | null {
+    const url = (document.getElementById('server-url') as HTMLInputElement).value.trim();
+    const token = (document.getElementById('server-token') as HTMLInputElement).value;
+    if (!url || !token) {
+      alert('Enter the server URL and its map API token first.');
+      return null;
+    }
+    return new MapServerClient(url, token);
+  }
+
+  /**
+   * Upload the map under an id made from its name, replacing a map with the same id after asking
+   */
+  private async publishMap(): Promise<void> {
+    const client = this.getServerClient();
+    if (!client) return;
+
+    const mapName = (document.getElementById('map-name') as HTMLInputElement).value;
+    const id = mapName.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_-]/g, '');
+    if (!id) {
+      alert('Give the map a name (letters or digits) before publishing.');
+      return;
+    }
+    const text = this.getMapText();
+    if (hasMapErrors(parseMapText(text, id).issues)) {
+      alert('The server refuses maps with errors, see Validation.');
+      return;
+    }
+
+    try {
+      const maps = await client.list();
+      if (maps.some(map => map.id === id) && !confirm(`The server already has a map "${id}". Replace it?`)) {
+        return;
+      }
+
+      await client.publish(id, text);
+      console.log(`Published map: ${id}`);
+      await this.refreshServerMaps(id);
+      alert(`Published "${id}". Lobbies can pick it right away.`);
+    } catch (error) {
+      alert(`Publishing failed: ${(error as Error).message}`);
+    }
   }
+
+  /**
+   * Fill the server map list, keeping (or picking) a selection
+   */
+  private async refreshServerMaps(selectId?: string): Promise<void> {
+    const client = this.getServerClient();
+    if (!client) return;
+
+    const select = document.getElementById('server-maps') as HTMLSelectElement;
+    const selected = selectId ?? select.value;
+    try {
+      const maps = await client.list();
+      select.replaceChildren(...maps.map(map => new Option(`${map.name} (${map.id})`, map.id)));
+      if (maps.some(map => map.id === selected)) select.value = selected;
+    } catch (error) {
+      alert(`Could not list the server's maps: ${(error as Error).message}`);
+    }
+  }
+
+  private async openServerMap(): Promise<void> {
+    const id = (document.getElementById('server-maps') as HTMLSelectElement).value;
+    if (!id) {
+      await this.refreshServerMaps();
+      return;
+    }
+    const client = this.getServerClient();
+    if (!client) return;
+
+    try {
+      this.openMapText(await client.load(id), id, `${id} (server)`);
+    } catch (error) {
+      alert(`Could not open ${id}: ${(error as Error).message}`);
+    }
+  }
+
+  private async deleteServerMap(): Promise<void> {
+    const id = (document.getElementById('server-maps') as HTMLSelectElement).value;
+    if (!id || !confirm(`Delete "${id}" from the server? Rooms stop picking it right away.`)) return;
+    const client = this.getServerClient();
+    if (!client) return;
+
+    try {
+      await client.remove(id);
+      console.log(`Deleted map from server: ${id}`);
+      await this.refreshServerMaps();
+    } catch (error) {
+      alert(`Could not delete ${id}: ${(error as Error).message}`);
+    }
+  }
+
   
   private resizeGrid(): void {
     const newWidth = parseInt((document.getElementById('grid-width') as HTMLInputElement).value) || GRID_WIDTH;
     const newHeight = parseInt((document.getElementById('grid-height') as HTMLInputElement).value) || GRID_HEIGHT;
     
     // Validate
-    if (newWidth < 10 || newWidth > 100 || newHeight < 10 || newHeight > 60) {
-      alert('Grid size must be between 10x10 and 100x60');
+    if (newWidth < MAP_MIN_WIDTH || newWidth > MAP_MAX_WIDTH || newHeight < MAP_MIN_HEIGHT || newHeight > MAP_MAX_HEIGHT) {
+      alert(`Grid size must be between ${MAP_MIN_WIDTH}x${MAP_MIN_HEIGHT} and ${MAP_MAX_WIDTH}x${MAP_MAX_HEIGHT}`);
       return;
     }
     
@@ -338,8 +996,8 @@ class MapEditor {
     const oldHeight = oldGrid.length || GRID_HEIGHT;
     
     // Create new grid
-    const newGrid: boolean[][] = Array(newHeight).fill(null).map(() => 
-      Array(newWidth).fill(false)
+    const newGrid: string[][] = Array(newHeight).fill(null).map(() => 
+      Array(newWidth).fill(EMPTY)
     );
     
     // Copy old content (top-left aligned)
@@ -349,11 +1007,7 @@ class MapEditor {
       }
     }
     
-    this.grid = newGrid;
-    this.resizeCanvas();
-    this.render();
-    this.updateStats();
-    this.updatePreview();
+    this.replaceGrid(newGrid);
     
     console.log(`Resized grid to ${newWidth}x${newHeight}`);
   }
@@ -368,21 +1022,33 @@ class MapEditor {
     this.canvas.style.height = height * BLOCK_SIZE + 'px';
   }
   
-  private textToGrid(text: string, width: number, height: number): boolean[][] {
-    const lines = text.trim().split('\n');
-    const grid: boolean[][] = [];
-    
-    for (let y = 0; y < height; y++) {
-      const row: boolean[] = [];
-      const line = lines[y] || '';
-      
-      for (let x = 0; x < width; x++) {
-        row.push(line[x] === '#');
+  private mapToGrid(map: MapData): string[][] {
+    const grid: string[][] = Array(map.metadata.height).fill(null).map(() =>
+      Array(map.metadata.width).fill(EMPTY)
+    );
+    for (const block of map.blocks) {
+      grid[block.gridY][block.gridX] = tileChar(block.kind ?? 'SOLID');
+    }
+    for (const point of map.spawnPoints) {
+      grid[point.gridY][point.gridX] = MAP_SPAWN_POINT;
+    }
+    for (const pad of map.powerUpPads) {
+      grid[pad.gridY][pad.gridX] = MAP_POWERUP_PAD;
+    }
+    for (const well of map.environment.gravityWells) {
+      grid[well.gridY][well.gridX] = MAP_GRAVITY_WELL;
+    }
+    for (const cell of map.environment.nebulaCells) {
+      grid[cell.gridY][cell.gridX] = MAP_NEBULA;
+    }
+    for (const cell of map.environment.windCells) {
+      grid[cell.gridY][cell.gridX] = Object.keys(MAP_WIND).find(char => MAP_WIND[char] === cell.direction)!;
+    }
+    for (const teleporter of map.teleporters) {
+      for (const pad of teleporter.pads) {
+        grid[pad.gridY][pad.gridX] = teleporter.channel;
       }
-      
-      grid.push(row);
     }
-    
     return grid;
   }
 }
@@ -0,0 +1,111 @@
+// Cell geometry for the drawing tools. Cells are [x, y] grid coordinates.
+
+export type Cell = [number, number];
+
+// HORIZONTAL mirrors left/right, VERTICAL top/bottom, ROTATIONAL turns the map half way around its center
+export type Symmetry = 'NONE' | 'HORIZONTAL' | 'VERTICAL' | 'FOUR_WAY' | 'ROTATIONAL';
+
+/**
+ * A cell and its mirror images (without duplicates on the axes)
+ */
+export function mirrorCell([x, y]: Cell, width: number, height: number, symmetry: Symmetry): Cell[] {
+  const mirrorX = width - 1 - x;
+  const mirrorY = height - 1 - y;
+  const cells: Cell[] = [[x, y]];
+
+  switch (symmetry) {
+    case 'HORIZONTAL':
+      cells.push([mirrorX, y]);
+      break;
+    case 'VERTICAL':
+      cells.push([x, mirrorY]);
+      break;
+    case 'FOUR_WAY':
+      cells.push([mirrorX, y], [x, mirrorY], [mirrorX, mirrorY]);
+      break;
+    case 'ROTATIONAL':
+      cells.push([mirrorX, mirrorY]);
+      break;
+  }
+  return uniqueCells(cells);
+}
+
+/**
+ * Cells on a straight line between two cells (Bresenham)
+ */
+export function lineCells([x0, y0]: Cell, [x1, y1]: Cell): Cell[] {
+  const cells: Cell[] = [];
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const stepX = x0 < x1 ? 1 : -1;
+  const stepY = y0 < y1 ? 1 : -1;
+  let error = dx + dy;
+  let x = x0;
+  let y = y0;
+
+  for (;;) {
+    cells.push([x, y]);
+    if (x === x1 && y === y1) return cells;
+    const doubled = 2 * error;
+    if (doubled >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += stepY;
+    }
+  }
+}
+
+/**
+ * Outline (or every cell) of the rectangle spanned by two corners
+ */
+export function rectCells(a: Cell, b: Cell, filled: boolean): Cell[] {
+  const [left, right] = [Math.min(a[0], b[0]), Math.max(a[0], b[0])];
+  const [top, bottom] = [Math.min(a[1], b[1]), Math.max(a[1], b[1])];
+  const cells: Cell[] = [];
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      if (filled || y === top || y === bottom || x === left || x === right) {
+        cells.push([x, y]);
+      }
+    }
+  }
+  return cells;
+}
+
+/**
+ * Cells connected to the start cell (4 neighbours) that hold the same character
+ */
+export function floodFillCells(grid: string[][], [startX, startY]: Cell): Cell[] {
+  const target = grid[startY]?.[startX];
+  if (target === undefined) return [];
+
+  const cells: Cell[] = [];
+  const seen = new Set<string>([`${startX},${startY}`]);
+  const queue: Cell[] = [[startX, startY]];
+  while (queue.length > 0) {
+    const [x, y] = queue.pop()!;
+    cells.push([x, y]);
+
+    for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+      const key = `${nx},${ny}`;
+      if (grid[ny]?.[nx] !== target || seen.has(key)) continue;
+      seen.add(key);
+      queue.push([nx, ny]);
+    }
+  }
+  return cells;
+}
+
+function uniqueCells(cells: Cell[]): Cell[] {
+  const seen = new Set<string>();
+  return cells.filter(([x, y]) => {
+    const key = `${x},${y}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
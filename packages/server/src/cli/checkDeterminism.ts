@@ -0,0 +1,194 @@
+import { InputAction, MAP_VOTE_CANDIDATES, ROUND_END_DELAY, GAME_FPS } from '@astroparty/shared';
+import { GameSimulation, TickClock, SeededRandom } from '@astroparty/simulation';
+import { createHash } from 'crypto';
+import { MapManager } from '../game/MapManager.js';
+import { MapRotation } from '../game/MapRotation.js';
+
+/**
+ * Check that a room replays exactly: the same seed and inputs must give the same
+ * game state on every tick, maps and votes included, and different seeds must not.
+ * The map rotation is also checked on its own over many picks.
+ *
+ *   npm run check:determinism [-- <maps dir> [seed...]]   (defaults to ./maps and 3 random seeds)
+ *
+ * Exits with 1 at the first check that fails.
+ */
+
+const SEED_COUNT = 3;
+const MAP_PICKS = 30; // Rounds of map rotation checked per seed
+const ROUNDS = 3;
+const ROUND_DURATION = 10000; // ms, short rounds so several maps get played
+const HOST_ID = 'host';
+const VOTER_IDS = ['host', 'voter-1', 'voter-2'];
+
+interface Run {
+  states: string[]; // Digest of the game state after each tick
+  maps: string[]; // Map of each round
+}
+
+function run(mapManager: MapManager, seed: number): Run {
+  const random = new SeededRandom(seed);
+  const mapRotation = new MapRotation(mapManager, random);
+  const simulation = new GameSimulation({
+    clock: new TickClock(),
+    random,
+    roundDuration: ROUND_DURATION,
+    selectMap: () => mapRotation.selectMap(),
+    label: 'checkDeterminism',
+    listener: {
+      onRoundEnd: () => mapRotation.openVote(),
+    },
+  });
+
+  simulation.addPlayer(HOST_ID, 'Host');
+  for (const difficulty of ['EASY', 'MEDIUM', 'HARD'] as const) {
+    simulation.addBot(HOST_ID, difficulty);
+  }
+  simulation.startGame(HOST_ID);
+
+  const result: Run = { states: [], maps: [] };
+  let roundsStarted = 1;
+  let endedAt: number | null = null;
+  result.maps.push(simulation.getMapMetadata()?.name ?? '?');
+
+  while (true) {
+    const tick = simulation.getTick();
+    // The host flies in bursts and fires every half second
+    if (tick % 90 === 0) simulation.queueInput(HOST_ID, { action: InputAction.THRUST_START, timestamp: simulation.now() });
+    if (tick % 90 === 45) simulation.queueInput(HOST_ID, { action: InputAction.THRUST_STOP, timestamp: simulation.now() });
+    if (tick % 30 === 0) simulation.queueInput(HOST_ID, { action: InputAction.FIRE, timestamp: simulation.now() });
+
+    simulation.step();
+    result.states.push(digestState(simulation));
+
+    if (simulation.getState().phase !== 'ENDED') continue;
+    if (roundsStarted === ROUNDS) break;
+
+    // Split the vote so ties are broken by the RNG, then play on after the usual delay
+    endedAt ??= simulation.getTick();
+    if (simulation.getTick() - endedAt === 1) {
+      const candidates = mapRotation.getLobbyState().vote ?? [];
+      VOTER_IDS.forEach((voterId, i) => {
+        const candidate = candidates[i % MAP_VOTE_CANDIDATES];
+        if (candidate) mapRotation.vote(voterId, candidate.id);
+      });
+    }
+    if (simulation.getTick() - endedAt >= ROUND_END_DELAY / (1000 / GAME_FPS)) {
+      simulation.resetGame();
+      result.maps.push(simulation.getMapMetadata()?.name ?? '?');
+      roundsStarted++;
+      endedAt = null;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Maps a room's rotation picks for many rounds in a row, with a vote every other round
+ */
+function pickMaps(mapManager: MapManager, seed: number): string[] {
+  const mapRotation = new MapRotation(mapManager, new SeededRandom(seed));
+  const picks: string[] = [];
+
+  for (let round = 0; round < MAP_PICKS; round++) {
+    if (round % 2 === 1) {
+      mapRotation.openVote();
+      const candidates = mapRotation.getLobbyState().vote ?? [];
+      VOTER_IDS.forEach((voterId, i) => {
+        const candidate = candidates[i % MAP_VOTE_CANDIDATES];
+        if (candidate) mapRotation.vote(voterId, candidate.id);
+      });
+    }
+    picks.push(mapRotation.selectMap()?.metadata.name ?? '?');
+  }
+
+  return picks;
+}
+
+function digestState(simulation: GameSimulation): string {
+  const json = JSON.stringify(simulation.getState(), (_key, value) =>
+    value instanceof Map ? [...value.entries()] : value
+  );
+  return createHash('sha1').update(json).digest('hex');
+}
+
+function randomSeeds(count: number): number[] {
+  const seeds = new Set<number>();
+  while (seeds.size < count) {
+    seeds.add(Math.floor(Math.random() * 0x100000000));
+  }
+  return [...seeds];
+}
+
+/**
+ * Two runs with the same seed must match tick for tick. Returns the run.
+ */
+function checkSeed(mapManager: MapManager, seed: number): Run {
+  const first = run(mapManager, seed);
+  const second = run(mapManager, seed);
+
+  const ticks = Math.max(first.states.length, second.states.length);
+  for (let tick = 0; tick < ticks; tick++) {
+    if (first.states[tick] !== second.states[tick]) {
+      console.error(`✗ Seed ${seed}: the runs differ at tick ${tick + 1} (maps ${first.maps.join(', ')} / ${second.maps.join(', ')})`);
+      process.exit(1);
+    }
+  }
+
+  const firstPicks = pickMaps(mapManager, seed);
+  const secondPicks = pickMaps(mapManager, seed);
+  if (firstPicks.join() !== secondPicks.join()) {
+    console.error(`✗ Seed ${seed}: the map rotation picked ${firstPicks.join(', ')} / ${secondPicks.join(', ')}`);
+    process.exit(1);
+  }
+
+  console.log(`✓ Seed ${seed}: ${ticks} ticks and ${ROUNDS} rounds (${first.maps.join(', ')}) replayed identically, ${MAP_PICKS} map picks too`);
+  return first;
+}
+
+function main(): void {
+  const [mapsDir = 'maps', ...seedArgs] = process.argv.slice(2);
+  const seeds = seedArgs.length > 0 ? seedArgs.map(Number) : randomSeeds(SEED_COUNT);
+  const invalid = seedArgs.find((arg, i) => !Number.isInteger(seeds[i]));
+  if (invalid !== undefined) {
+    console.error(`[checkDeterminism] Invalid seed: ${invalid}`);
+    process.exit(2);
+  }
+
+  const mapManager = new MapManager(mapsDir);
+  if (mapManager.getAllMapNames().length === 0) {
+    console.error(`[checkDeterminism] No maps found in ${mapsDir}`);
+    process.exit(2);
+  }
+
+  // A seed that is ignored somewhere would replay just as well: different seeds must give different games
+  const runs = new Map<string, number>(); // Digest of the whole run -> seed
+  for (const seed of seeds) {
+    const digest = createHash('sha1').update(checkSeed(mapManager, seed).states.join()).digest('hex');
+    const other = runs.get(digest);
+    if (other !== undefined && other !== seed) {
+      console.error(`✗ Seeds ${other} and ${seed} played the same game`);
+      process.exit(1);
+    }
+    runs.set(digest, seed);
+  }
+
+  const mapPicks = new Map<string, number>(); // Picks -> seed
+  if (mapManager.getAllMapNames().length > 1) {
+    for (const seed of new Set(seeds)) {
+      const picks = pickMaps(mapManager, seed).join();
+      const other = mapPicks.get(picks);
+      if (other !== undefined) {
+        console.error(`✗ Seeds ${other} and ${seed} picked the same ${MAP_PICKS} maps`);
+        process.exit(1);
+      }
+      mapPicks.set(picks, seed);
+    }
+  }
+
+  console.log(`✓ ${seeds.length} seeds, each replayed identically and different from the others`);
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,66 @@
+import { parseMapText, hasMapErrors, formatMapIssue } from '@astroparty/shared';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Check map files before they are deployed.
+ *
+ *   npm run lint:maps [-- <dir or .map.txt file>...]   (defaults to ./maps and the parser fixtures)
+ *
+ * Exits with 1 if any map has errors. Warnings are printed but do not fail.
+ */
+
+const MAP_FILE_EXTENSION = '.map.txt';
+// Fixtures keep edge cases of the format loading, like the whitespace old maps were written with
+const DEFAULT_TARGETS = ['maps', 'packages/server/fixtures/maps'];
+
+function collectMapFiles(target: string): string[] {
+  if (!fs.existsSync(target)) {
+    throw new Error(`${target} does not exist`);
+  }
+  if (fs.statSync(target).isFile()) {
+    return [target];
+  }
+
+  return fs.readdirSync(target)
+    .filter(file => file.endsWith(MAP_FILE_EXTENSION))
+    .sort()
+    .map(file => path.join(target, file));
+}
+
+function main(): void {
+  const targets = process.argv.slice(2);
+  let files: string[];
+  try {
+    files = (targets.length > 0 ? targets : DEFAULT_TARGETS).flatMap(collectMapFiles);
+  } catch (error) {
+    console.error(`[lintMaps] ${(error as Error).message}`);
+    process.exit(2);
+  }
+
+  if (files.length === 0) {
+    console.error('[lintMaps] No map files found');
+    process.exit(2);
+  }
+
+  let errorCount = 0;
+  let warningCount = 0;
+
+  for (const file of files) {
+    const fallbackName = path.basename(file, MAP_FILE_EXTENSION);
+    const { map, issues } = parseMapText(fs.readFileSync(file, 'utf-8'), fallbackName);
+    const status = hasMapErrors(issues) ? '✗' : '✓';
+    console.log(`${status} ${file} (${map.metadata.name}, ${map.metadata.width}x${map.metadata.height})`);
+
+    for (const issue of issues) {
+      console.log(`    ${issue.severity}: ${formatMapIssue(issue)}`);
+      if (issue.severity === 'error') errorCount++;
+      else warningCount++;
+    }
+  }
+
+  console.log(`\n${files.length} maps, ${errorCount} errors, ${warningCount} warnings`);
+  process.exit(errorCount > 0 ? 1 : 0);
+}
+
+main();
@@ -1,76 +1,142 @@
 import type { Server as SocketIOServer } from 'socket.io';
 import type {
-  Player,
-  Bullet,
-  GameState,
   SerializedGameState,
   ClientToServerEvents,
   ServerToClientEvents,
-  InputEvent,
   PlayerSpecificState, // Import added
-  MapMetadata,
+  BotDifficulty,
+  BlockUpdate,
+  MapSyncData,
+  SnapshotFormat,
+  StateSnapshot,
 } from '@astroparty/shared';
-import {
-  GAME_WIDTH,
-  GAME_HEIGHT,
-  GAME_FPS,
-  MAX_PLAYERS,
-  PLAYER_COLORS,
-  AMMO_CLIP_SIZE,
-  SHIP_MAX_RADIUS,
-  BLOCK_SIZE,
-  GRID_WIDTH,
-  GRID_HEIGHT,
-} from '@astroparty/shared';
-import { PhysicsEngine } from './PhysicsEngine.js';
-import { InputHandler } from './InputHandler.js';
-import { PowerUpManager } from './PowerUpManager.js';
-import { MapManager } from './MapManager.js';
-
+import { GAME_FPS, SPECTATOR_REDUCED_RATE_INTERVAL, SnapshotEncoder } from '@astroparty/shared';
+import { GameSimulation, TickClock, SeededRandom } from '@astroparty/simulation';
+import type { RoundWinner } from '@astroparty/simulation';
+import type { MapManager } from './MapManager.js';
+import { MapRotation } from './MapRotation.js';
+import { MatchRecorder } from '../replay/MatchRecorder.js';
+import { SnapshotStream } from '../network/SnapshotStream.js';
+import type { RecordingStore } from '../replay/RecordingStore.js';
+
+const MAX_CATCH_UP_STEPS = 5; // Max simulation steps per loop iteration when the loop falls behind
+
+/**
+ * Runs a room's GameSimulation in real time and connects it to Socket.IO
+ */
 export class GameManager {
   private io: SocketIOServer<ClientToServerEvents, ServerToClientEvents>;
-  private gameState: GameState;
-  private physicsEngine: PhysicsEngine;
-  private inputHandler: InputHandler;
-  private powerUpManager: PowerUpManager;
-  private mapManager: MapManager;
+  readonly roomCode: string;
+  readonly roomChannel: string; // Every socket in this room (displays + controllers)
+  readonly displayChannel: string; // Displays and spectators (map sync, block updates)
+  readonly seed: number;
+  private clock: TickClock;
+  private simulation: GameSimulation;
+  private mapRotation: MapRotation;
+  private unsubscribeMaps: () => void;
   private gameLoopInterval: NodeJS.Timeout | null = null;
-  private roundDuration: number;
-  private playerNames: Map<string, string> = new Map();
   // Dirty set for network optimization
   private dirtyPlayers: Set<string> = new Set();
-  private currentMapMetadata?: MapMetadata;
-
-  constructor(io: SocketIOServer<ClientToServerEvents, ServerToClientEvents>, roundDuration: number) {
+  private pendingBlockUpdates: BlockUpdate[] = []; // Sent to displays after the tick
+  private recorder: MatchRecorder;
+  private recordingStore?: RecordingStore;
+  private snapshots: SnapshotStream;
+  private snapshotEncoder = new SnapshotEncoder();
+  private binarySnapshotClients: Set<string> = new Set();
+  private finishedRound: { winner: RoundWinner } | null = null; // Set by onRoundEnd, saved after the next broadcast
+
+  constructor(
+    io: SocketIOServer<ClientToServerEvents, ServerToClientEvents>,
+    roomCode: string,
+    mapManager: MapManager,
+    roundDuration: number,
+    recordingStore?: RecordingStore
+  ) {
     this.io = io;
-    this.roundDuration = roundDuration;
-    
-    this.gameState = {
-      players: new Map(),
-      bullets: [],
-      powerUps: [],
-      mines: [],
-      blocks: [], // Will be loaded from map
-      mapWidth: GRID_WIDTH,
-      mapHeight: GRID_HEIGHT,
-      recentPickups: [],
-      roundEndTime: null,
-      isRoundActive: false,
-      phase: 'WAITING',
-      hostPlayerId: null,
-    };
+    this.roomCode = roomCode;
+    this.roomChannel = `room:${roomCode}`;
+    this.displayChannel = `room:${roomCode}:displays`;
+    this.seed = Math.floor(Math.random() * 0x100000000);
+    this.recorder = new MatchRecorder(roomCode);
+    this.recordingStore = recordingStore;
+    this.snapshots = new SnapshotStream((socketIds, snapshot) => this.sendSnapshot(socketIds, snapshot));
+    // Maps are picked with the simulation's RNG: the seed reproduces the whole match
+    const random = new SeededRandom(this.seed);
+    this.mapRotation = new MapRotation(mapManager, random);
+    // Maps are hot-reloaded: keep the lobby and the vote up to date
+    this.unsubscribeMaps = mapManager.onChange(() => {
+      this.mapRotation.handleCatalogChange();
+      this.broadcastMapLobby();
+    });
 
-    this.physicsEngine = new PhysicsEngine(this.gameState, (id) => this.markPlayerDirty(id));
-    this.inputHandler = new InputHandler(this.gameState, this);
-    this.powerUpManager = new PowerUpManager(this.gameState, this.physicsEngine, (id) => this.markPlayerDirty(id));
-    this.mapManager = new MapManager();
+    this.clock = new TickClock(Date.now());
+    this.simulation = new GameSimulation({
+      clock: this.clock,
+      random,
+      roundDuration,
+      selectMap: () => this.mapRotation.selectMap(),
+      label: `Room ${roomCode}`,
+      listener: {
+        onPlayerDirty: (id) => this.markPlayerDirty(id),
+        onAllPlayersDirty: () => this.markAllPlayersDirty(),
+        onPlayerJoined: (id, name) => this.io.to(this.roomChannel).emit('playerJoined', id, name),
+        onPlayerLeft: (id) => {
+          this.dirtyPlayers.delete(id); // Clean up dirty set
+          this.io.to(this.roomChannel).emit('playerLeft', id);
+          if (this.mapRotation.removeVoter(id)) {
+            this.broadcastMapLobby();
+          }
+        },
+        onRoundStart: (endTime) => {
+          this.io.to(this.roomChannel).emit('roundStart', endTime);
+          this.broadcastMapLobby(); // The vote is over
+          this.finishedRound = null;
+          if (this.recordingStore) {
+            this.recorder.begin(this.simulation.now(), this.getMapSyncData());
+          }
+        },
+        onRoundEnd: (winner, teams) => {
+          this.io.to(this.roomChannel).emit('roundEnd', winner, teams);
+          this.finishedRound = { winner };
+          this.mapRotation.openVote();
+          this.broadcastMapLobby();
+        },
+        onMapChanged: () => {
+          this.pendingBlockUpdates = []; // The new map replaces them
+          this.syncMapToAllDisplays();
+        },
+        onBlockUpdate: (update) => this.pendingBlockUpdates.push(update),
+      },
+    });
   }
 
   start(): void {
-    // Start game loop at 60 FPS
+    // Step the simulation at 60 FPS, catching up with wall time if the loop was late
     const tickInterval = 1000 / GAME_FPS;
     this.gameLoopInterval = setInterval(() => {
-      this.update();
+      let steps = 0;
+      while (this.simulation.now() + tickInterval <= Date.now() && steps < MAX_CATCH_UP_STEPS) {
+        this.simulation.step();
+        steps++;
+      }
+
+      // Still behind after the catch-up budget (GC pause, suspended process):
+      // drop the backlog instead of fast-forwarding the room until it is caught up
+      const behind = Date.now() - this.simulation.now();
+      if (steps === MAX_CATCH_UP_STEPS && behind >= tickInterval) {
+        console.warn(`[Room ${this.roomCode}] Loop fell behind, skipping ${Math.floor(behind / tickInterval)} ticks (${Math.round(behind)}ms)`);
+        this.clock.skipTo(Date.now());
+      }
+
+      if (steps > 0) {
+        this.flushBlockUpdates();
+        // Only displays, spectators and the recorder need the whole state
+        const state = this.snapshots.hasClients() || this.recorder.isRecording() ? this.serializeGameState() : null;
+        this.broadcastGameState(state);
+        if (state) {
+          this.recordFrame(state);
+        }
+      }
     }, tickInterval);
   }
 
@@ -79,302 +145,128 @@ export class GameManager {
       clearInterval(this.gameLoopInterval);
       this.gameLoopInterval = null;
     }
+    this.unsubscribeMaps();
+    // Rounds cut short by the room closing are not kept
+    this.recorder.discard();
   }
 
-  addPlayer(playerId: string, playerName: string): void {
-    if (this.gameState.players.size >= MAX_PLAYERS) {
-      console.warn(`Cannot add player ${playerId}: max players reached`);
-      return;
-    }
-
-    const colorIndex = this.gameState.players.size % PLAYER_COLORS.length;
-    const spawnPosition = this.getRandomSpawnPosition();
-
-    const player: Player = {
-      id: playerId,
-      name: playerName,
-      position: spawnPosition,
-      velocity: { x: 0, y: 0 },
-      rotation: Math.random() * Math.PI * 2, // Random initial direction
-      color: PLAYER_COLORS[colorIndex],
-      score: 0,
-      ammo: AMMO_CLIP_SIZE,
-      isAlive: true,
-      isThrustActive: false,
-      turnStartTime: Date.now(),
-      lastReloadTime: Date.now(),
-      activePowerUps: [],
-    };
-
-    this.gameState.players.set(playerId, player);
-    this.playerNames.set(playerId, playerName);
-
-    // Set first player as host
-    if (this.gameState.hostPlayerId === null) {
-      this.gameState.hostPlayerId = playerId;
-      console.log(`First player joined. Host set to: ${playerId}`);
-    } else {
-      console.log(`Player joined. Current host: ${this.gameState.hostPlayerId}, new player: ${playerId}`);
-    }
-
-    // Notify all clients
-    this.io.emit('playerJoined', playerId, playerName);
-
-    // Initial state sync for the new player
-    this.markPlayerDirty(playerId);
-
-    // Don't auto-start anymore - wait for host to click start
+  addPlayer(playerId: string, playerName: string): boolean {
+    return this.simulation.addPlayer(playerId, playerName);
   }
 
-  removePlayer(playerId: string): void {
-    // Check if host left
-    const wasHost = this.gameState.hostPlayerId === playerId;
-
-    this.gameState.players.delete(playerId);
-    this.playerNames.delete(playerId);
-    this.dirtyPlayers.delete(playerId); // Clean up dirty set
-    
-    // Clear any pending respawn timers
-    this.physicsEngine.clearRespawnTimer(playerId);
-    this.powerUpManager.clearRespawnTimer(playerId);
-    
-    // Remove bullets from this player
-    this.gameState.bullets = this.gameState.bullets.filter(b => b.playerId !== playerId);
-    
-    // Remove mines from this player
-    this.gameState.mines = this.gameState.mines.filter(m => m.playerId !== playerId);
-
-    // Reassign host if needed
-    if (wasHost) {
-      const remainingPlayers = Array.from(this.gameState.players.keys());
-      if (remainingPlayers.length > 0) {
-        this.gameState.hostPlayerId = remainingPlayers[0];
-        console.log(`Host left. New host assigned: ${this.gameState.hostPlayerId}`);
-      } else {
-        this.gameState.hostPlayerId = null;
-      }
-      // Notify everyone about new host
-      this.markAllPlayersDirty();
-    }
+  addBot(requesterId: string, difficulty: BotDifficulty): boolean {
+    return this.simulation.addBot(requesterId, difficulty);
+  }
 
-    this.io.emit('playerLeft', playerId);
+  removeBot(requesterId: string): boolean {
+    return this.simulation.removeBot(requesterId);
+  }
 
-    // End round if no players left
-    if (this.gameState.players.size === 0 && this.gameState.isRoundActive) {
-      this.endRound();
-    }
+  setGameMode(requesterId: string, config: unknown): boolean {
+    return this.simulation.setGameMode(requesterId, config);
   }
 
-  handleInput(event: InputEvent): void {
-    this.inputHandler.handleInput(event);
+  setGameSettings(requesterId: string, settings: unknown): boolean {
+    return this.simulation.setGameSettings(requesterId, settings);
   }
 
-  // Manual game start (called by host)
-  startGame(playerId: string): void {
-    console.log(`startGame called by ${playerId}, host is ${this.gameState.hostPlayerId}, phase is ${this.gameState.phase}`);
-    
-    if (this.gameState.phase !== 'WAITING') {
-      console.warn(`Cannot start game: phase is ${this.gameState.phase}`);
-      return;
+  /**
+   * Switch the map rotation (host only, outside of a running round)
+   */
+  setPlaylist(requesterId: string, name: unknown): boolean {
+    if (!this.canManageMaps(requesterId)) return false;
+    if (typeof name !== 'string' || !this.mapRotation.setPlaylist(name)) {
+      console.warn(`[Room ${this.roomCode}] Unknown playlist from ${requesterId}`);
+      return false;
     }
 
-    if (this.gameState.hostPlayerId !== playerId) {
-      console.warn(`Only host can start the game: ${playerId} is not host`);
-      return;
-    }
+    this.broadcastMapLobby();
+    return true;
+  }
 
-    if (this.gameState.players.size < 1) {
-      console.warn('Cannot start game: need at least 1 player');
-      return;
+  /**
+   * Pick the next map, or null to leave it to the vote and the playlist
+   * (host only, outside of a running round)
+   */
+  setNextMap(requesterId: string, mapId: unknown): boolean {
+    if (!this.canManageMaps(requesterId)) return false;
+    if ((mapId !== null && typeof mapId !== 'string') || !this.mapRotation.setNextMap(mapId)) {
+      console.warn(`[Room ${this.roomCode}] Unknown map from ${requesterId}`);
+      return false;
     }
 
-    this.startRound();
+    this.broadcastMapLobby();
+    return true;
   }
 
-  // Reset game after round ends (called by any player)
-  resetGame(): void {
-    if (this.gameState.phase !== 'ENDED') {
-      console.warn(`Cannot reset game: phase is ${this.gameState.phase}`);
-      return;
-    }
-
-    // Reset scores
-    for (const player of this.gameState.players.values()) {
-      player.score = 0;
+  /**
+   * Vote for one of the candidate maps (players only, between rounds)
+   */
+  voteMap(playerId: string, mapId: unknown): boolean {
+    if (!this.simulation.hasPlayer(playerId) || typeof mapId !== 'string') return false;
+    if (!this.mapRotation.vote(playerId, mapId)) {
+      console.warn(`[Room ${this.roomCode}] Rejected map vote from ${playerId}`);
+      return false;
     }
 
-    this.startRound();
+    this.broadcastMapLobby();
+    return true;
   }
 
-  private update(): void {
-    // Update physics
-    this.physicsEngine.update();
-
-    // Update power-ups
-    this.powerUpManager.update();
-
-    // Handle ammo reload
-    this.updateAmmo();
-    
-    // Clean up old pickup notifications (keep for 3 seconds)
-    const now = Date.now();
-    this.gameState.recentPickups = this.gameState.recentPickups.filter(
-      pickup => now - pickup.timestamp < 3000
-    );
-
-    // Broadcast game state to all clients
-    this.broadcastGameState();
-
-    // Check if round should end
-    if (this.gameState.isRoundActive && this.gameState.roundEndTime) {
-      if (Date.now() >= this.gameState.roundEndTime) {
-        this.endRound();
-      }
+  private canManageMaps(requesterId: string): boolean {
+    const gameState = this.simulation.getState();
+    if (gameState.hostPlayerId !== requesterId) {
+      console.warn(`[Room ${this.roomCode}] Only host can choose maps: ${requesterId} is not host`);
+      return false;
     }
-  }
-
-  private updateAmmo(): void {
-    const now = Date.now();
-    for (const player of this.gameState.players.values()) {
-      const maxAmmo = this.powerUpManager.getMaxAmmo(player);
-      
-      if (player.ammo < maxAmmo) {
-        // Check if we can reload another charge
-        const timeSinceLastReload = now - player.lastReloadTime;
-        const baseReloadTime = 2000; // AMMO_RELOAD_TIME from constants
-        const reloadMultiplier = this.powerUpManager.getReloadMultiplier(player);
-        const reloadTime = baseReloadTime * reloadMultiplier;
-                if (timeSinceLastReload >= reloadTime) {
-            player.ammo = Math.min(player.ammo + 1, maxAmmo);
-            player.lastReloadTime = now;
-            this.markPlayerDirty(player.id);
-          }
-      }
+    if (gameState.phase === 'PLAYING') {
+      console.warn(`[Room ${this.roomCode}] Cannot choose maps during a round`);
+      return false;
     }
+    return true;
   }
 
-  private startRound(): void {
-    this.gameState.isRoundActive = true;
-    this.gameState.phase = 'PLAYING';
-    this.gameState.roundEndTime = Date.now() + this.roundDuration;
-    
-    // Load random map
-    const map = this.mapManager.getRandomMap();
-    this.gameState.blocks = map.blocks;
-    this.gameState.mapWidth = map.metadata.width;
-    this.gameState.mapHeight = map.metadata.height;
-    this.currentMapMetadata = map.metadata;
-    console.log(`[GameManager] Starting round with map: ${map.metadata.name} by ${map.metadata.author} (${map.metadata.width}x${map.metadata.height})`);
-    
-    // Rebuild spatial grid for optimized collisions
-    this.physicsEngine.rebuildSpatialGrid();
-
-    // Reset all players
-    for (const player of this.gameState.players.values()) {
-      player.isAlive = true;
-      player.position = this.getRandomSpawnPosition();
-      player.velocity = { x: 0, y: 0 };
-      player.rotation = Math.random() * Math.PI * 2;
-      player.ammo = AMMO_CLIP_SIZE;
-      player.isThrustActive = false;
-      player.activePowerUps = [];
-      player.shieldHits = undefined;
-      player.dashCharges = undefined;
-      player.minesAvailable = undefined;
-    }
+  setPlayerConnected(playerId: string, connected: boolean): void {
+    this.simulation.setPlayerConnected(playerId, connected);
+  }
 
-    this.gameState.bullets = [];
-    
-    // Clear all power-ups, mines, and pickups
-    this.powerUpManager.clearAllPowerUps();
-    this.gameState.recentPickups = [];
-
-    this.io.emit('roundStart', this.gameState.roundEndTime);
-    
-    // Sync new map to all displays
-    this.syncMapToAllDisplays();
-    
-    // Force update for everyone
-    this.markAllPlayersDirty();
-  }
-
-  private endRound(): void {
-    this.gameState.isRoundActive = false;
-    this.gameState.phase = 'ENDED';
-    this.gameState.roundEndTime = null;
-
-    // Find winner (highest score)
-    let winner: { id: string; name: string; score: number } | null = null;
-    for (const player of this.gameState.players.values()) {
-      if (!winner || player.score > winner.score) {
-        winner = {
-          id: player.id,
-          name: player.name,
-          score: player.score,
-        };
-      }
-    }
+  hasPlayer(playerId: string): boolean {
+    return this.simulation.hasPlayer(playerId);
+  }
 
-    this.io.emit('roundEnd', winner);
+  getHumanPlayerCount(): number {
+    return this.simulation.getHumanPlayerCount();
+  }
 
-    // Update all clients with new phase
-    this.markAllPlayersDirty();
+  removePlayer(playerId: string): void {
+    this.simulation.removePlayer(playerId);
+  }
 
-    // Don't auto-restart - wait for playAgain
+  /**
+   * Queue an input for the next tick. Returns false if the event was malformed.
+   */
+  handleInput(playerId: string, event: unknown): boolean {
+    return this.simulation.queueInput(playerId, event);
   }
 
-  private getRandomSpawnPosition(): { x: number; y: number } {
-    // Try to find a valid spawn position that doesn't collide with walls
-    const maxAttempts = 30;
-    
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const x = Math.random() * GAME_WIDTH;
-      const y = Math.random() * GAME_HEIGHT;
-      
-      // Check if this position is clear of walls
-      if (!this.physicsEngine.isPositionInsideWall(x, y, SHIP_MAX_RADIUS)) {
-        return { x, y };
-      }
-    }
-    
-    // Fallback: systematically search grid centers
-    // Center of block is safest: BLOCK_SIZE/2 + i * BLOCK_SIZE
-    console.warn('[GameManager] Random spawn failed, searching grid centers...');
-    
-    // Create a randomized order of grid indices to avoid always spawning top-left
-    const gridIndices: {x: number, y: number}[] = [];
-    // Skip outer edges (0 and MAX-1) to avoid map boundaries
-    for (let y = 1; y < GRID_HEIGHT - 1; y++) {
-      for (let x = 1; x < GRID_WIDTH - 1; x++) {
-        gridIndices.push({x, y});
-      }
-    }
-    
-    // Shuffle indices for variety even in fallback
-    for (let i = gridIndices.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [gridIndices[i], gridIndices[j]] = [gridIndices[j], gridIndices[i]];
-    }
+  // Manual game start (called by host)
+  startGame(playerId: string): void {
+    this.simulation.startGame(playerId);
+  }
 
-    // Check each grid center
-    for (const pos of gridIndices) {
-      const centerX = pos.x * BLOCK_SIZE + BLOCK_SIZE / 2;
-      const centerY = pos.y * BLOCK_SIZE + BLOCK_SIZE / 2;
+  // Reset game after round ends (called by any player)
+  resetGame(): void {
+    this.simulation.resetGame();
+  }
 
-      if (!this.physicsEngine.isPositionInsideWall(centerX, centerY, SHIP_MAX_RADIUS)) {
-        console.log(`[GameManager] Found spawn at grid center (${centerX}, ${centerY})`);
-        return { x: centerX, y: centerY };
-      }
-    }
-    
-    // Last resort: force spawn at top-left corner (should never happen with proper maps)
-    console.error('[GameManager] NO VALID SPAWN FOUND! Using emergency position');
-    return { x: 90, y: 90 };
+  isRoundActive(): boolean {
+    return this.simulation.getState().isRoundActive;
   }
 
-  private broadcastGameState(): void {
-    const serialized: SerializedGameState = {
-      players: Array.from(this.gameState.players.values()).map(p => ({
+  private serializeGameState(): SerializedGameState {
+    const gameState = this.simulation.getState();
+    return {
+      players: Array.from(gameState.players.values()).map(p => ({
         id: p.id,
         name: p.name,
         position: p.position,
@@ -384,29 +276,57 @@ export class GameManager {
         score: p.score,
         ammo: p.ammo,
         isAlive: p.isAlive,
+        isConnected: p.isConnected,
+        isBot: p.isBot,
+        team: p.team,
+        lives: p.lives,
         activePowerUps: p.activePowerUps,
         shieldHits: p.shieldHits,
         dashCharges: p.dashCharges,
         minesAvailable: p.minesAvailable,
       })),
-      bullets: this.gameState.bullets,
-      powerUps: this.gameState.powerUps,
-      mines: this.gameState.mines,
+      bullets: gameState.bullets,
+      powerUps: gameState.powerUps,
+      mines: gameState.mines,
+      asteroids: gameState.asteroids,
       // blocks removed - sent separately via mapSync
-      recentPickups: this.gameState.recentPickups,
-      roundEndTime: this.gameState.roundEndTime,
-      isRoundActive: this.gameState.isRoundActive,
-      phase: this.gameState.phase,
-      hostPlayerId: this.gameState.hostPlayerId,
+      recentPickups: gameState.recentPickups,
+      roundEndTime: gameState.roundEndTime,
+      isRoundActive: gameState.isRoundActive,
+      phase: gameState.phase,
+      hostPlayerId: gameState.hostPlayerId,
+      modeConfig: gameState.modeConfig,
+      teams: this.simulation.getTeamScores(),
+      isSuddenDeath: gameState.isSuddenDeath,
+      settings: gameState.settings,
     };
+  }
+
+  /**
+   * Send the blocks damaged since the last tick to displays, instead of the whole map
+   */
+  private flushBlockUpdates(): void {
+    if (this.pendingBlockUpdates.length === 0) return;
+
+    const updates = this.pendingBlockUpdates;
+    this.pendingBlockUpdates = [];
+    this.io.to(this.displayChannel).emit('blockUpdates', updates);
+    if (this.recorder.isRecording()) {
+      this.recorder.recordBlockUpdates(this.simulation.now(), updates);
+    }
+  }
+
+  private broadcastGameState(serialized: SerializedGameState | null): void {
+    const gameState = this.simulation.getState();
+    if (serialized) {
+      this.snapshots.publish(this.simulation.getTick(), serialized, this.dirtyPlayers);
+    }
 
-    this.io.to('displays').emit('gameState', serialized);
-    
     // Send optimized state only to dirty players
     if (this.dirtyPlayers.size > 0) {
       for (const playerId of this.dirtyPlayers) {
-        const player = this.gameState.players.get(playerId);
-        if (!player) continue;
+        const player = gameState.players.get(playerId);
+        if (!player || player.isBot) continue;
 
         const state: PlayerSpecificState = {
           id: player.id,
@@ -419,49 +339,124 @@ export class GameManager {
           shieldHits: player.shieldHits,
           dashCharges: player.dashCharges,
           minesAvailable: player.minesAvailable,
-          phase: this.gameState.phase,
-          roundEndTime: this.gameState.roundEndTime,
-          hostPlayerId: this.gameState.hostPlayerId,
+          phase: gameState.phase,
+          roundEndTime: gameState.roundEndTime,
+          hostPlayerId: gameState.hostPlayerId,
+          botCount: this.simulation.getBotCount(),
+          team: player.team,
+          lives: player.lives,
+          modeConfig: gameState.modeConfig,
+          settings: gameState.settings,
         };
 
-        this.io.to(player.id).emit('playerState', state);
+        this.io.to(this.playerChannel(player.id)).emit('playerState', state);
       }
       this.dirtyPlayers.clear();
     }
   }
 
+  private recordFrame(state: SerializedGameState): void {
+    if (!this.recorder.isRecording()) return;
+
+    if (!this.finishedRound) {
+      this.recorder.capture(this.simulation.getTick(), this.simulation.now(), state);
+      return;
+    }
+
+    // Round is over: close the recording with the final standings
+    const recording = this.recorder.finish(this.simulation.now(), state, this.finishedRound.winner);
+    this.finishedRound = null;
+    if (recording && this.recordingStore) {
+      this.recordingStore.save(recording).catch((error) => {
+        console.error(`[Room ${this.roomCode}] Failed to save recording ${recording.id}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Channel joined by whichever socket currently controls this player
+   */
+  playerChannel(playerId: string): string {
+    return `player:${playerId}`;
+  }
+
   public markPlayerDirty(playerId: string): void {
     this.dirtyPlayers.add(playerId);
   }
 
   private markAllPlayersDirty(): void {
-    for (const id of this.gameState.players.keys()) {
+    for (const id of this.simulation.getState().players.keys()) {
       this.dirtyPlayers.add(id);
     }
   }
 
+  /**
+   * Stream game state snapshots to a display or spectator (reduced rate: every few ticks)
+   */
+  addSnapshotClient(socketId: string, reducedRate: boolean, format: SnapshotFormat): void {
+    this.snapshots.addClient(socketId, reducedRate ? SPECTATOR_REDUCED_RATE_INTERVAL : 1);
+    if (format === 'binary') {
+      this.binarySnapshotClients.add(socketId);
+    }
+  }
+
+  removeSnapshotClient(socketId: string): void {
+    this.snapshots.removeClient(socketId);
+    this.binarySnapshotClients.delete(socketId);
+  }
+
+  acknowledgeSnapshot(socketId: string, tick: number | null): void {
+    this.snapshots.acknowledge(socketId, tick);
+  }
+
+  /**
+   * Each snapshot is encoded once per format, whatever the number of clients
+   */
+  private sendSnapshot(socketIds: string[], snapshot: StateSnapshot): void {
+    const binary = socketIds.filter(id => this.binarySnapshotClients.has(id));
+    const json = socketIds.filter(id => !this.binarySnapshotClients.has(id));
+
+    if (binary.length > 0) {
+      this.io.to(binary).emit('snapshotBinary', this.snapshotEncoder.encode(snapshot));
+    }
+    if (json.length > 0) {
+      this.io.to(json).emit('snapshot', snapshot);
+    }
+  }
+
   /**
    * Sync map to a specific display client
    */
   syncMapToDisplay(socketId: string): void {
-    this.io.to(socketId).emit('mapSync', {
-      blocks: this.gameState.blocks,
-      metadata: this.currentMapMetadata
-    });
+    this.io.to(socketId).emit('mapSync', this.getMapSyncData());
+  }
+
+  private getMapSyncData(): MapSyncData {
+    const state = this.simulation.getState();
+    return {
+      blocks: state.blocks,
+      metadata: this.simulation.getMapMetadata(),
+      powerUpPads: state.powerUpPads,
+      teleporters: state.teleporters,
+      environment: state.environment,
+    };
   }
 
   /**
-   * Sync map to all displays (called on round start)
+   * Send the map catalog, rotation and vote to one socket (on join)
    */
-  syncMapToAllDisplays(): void {
-    this.io.to('displays').emit('mapSync', {
-      blocks: this.gameState.blocks,
-      metadata: this.currentMapMetadata
-    });
+  syncMapLobby(socketId: string): void {
+    this.io.to(socketId).emit('mapLobby', this.mapRotation.getLobbyState());
+  }
+
+  private broadcastMapLobby(): void {
+    this.io.to(this.roomChannel).emit('mapLobby', this.mapRotation.getLobbyState());
   }
-  
-  // Expose PowerUpManager methods for InputHandler
-  getPowerUpManager(): PowerUpManager {
-    return this.powerUpManager;
+
+  /**
+   * Sync map to all displays and spectators of this room (called on round start)
+   */
+  syncMapToAllDisplays(): void {
+    this.io.to(this.displayChannel).emit('mapSync', this.getMapSyncData());
   }
 }
@@ -1,22 +1,92 @@
-import type { MapData, Block } from '@astroparty/shared';
-import { GRID_WIDTH, GRID_HEIGHT } from '@astroparty/shared';
+import type { MapData, MapIssue, MapPreview, MapSummary, Playlist } from '@astroparty/shared';
+import { DEFAULT_PLAYLIST_NAME, parseMapText, hasMapErrors, formatMapIssue } from '@astroparty/shared';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import type { Random } from '@astroparty/simulation';
+import { randomInt } from '@astroparty/simulation';
+import { renderMapThumbnail } from './MapThumbnail.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const MAP_FILE_EXTENSION = '.map.txt';
+const PLAYLISTS_FILE = 'playlists.json';
+const RELOAD_DEBOUNCE = 200; // Editors fire several events per save, reload once they settle
+
+// A map entry is either a map name or { map, weight }
+const PlaylistsSchema = z.array(z.object({
+  name: z.string().trim().min(1).max(40),
+  order: z.enum(['ORDERED', 'SHUFFLE', 'WEIGHTED']),
+  maps: z.array(z.union([
+    z.string().min(1).transform(map => ({ map, weight: 1 })),
+    z.object({ map: z.string().min(1), weight: z.number().positive().default(1) }),
+  ])).min(1),
+}));
+
+export interface MapThumbnail {
+  svg: string;
+  version: string; // Content hash, changes whenever the map does
+}
+
 export class MapManager {
   private maps: Map<string, MapData> = new Map();
+  private thumbnails: Map<string, MapThumbnail> = new Map();
+  private playlists: Playlist[] = [];
+  private mapsDir: string;
+  private watcher: fs.FSWatcher | null = null;
+  private pendingReloads: Map<string, NodeJS.Timeout> = new Map();
+  private changeListeners: Set<() => void> = new Set();
 
-  constructor() {
+  constructor(mapsDir?: string) {
+    // Robust path resolution relative to project root (WORKDIR /app in Docker)
+    this.mapsDir = path.resolve(process.cwd(), mapsDir ?? 'packages/server/maps');
     this.loadAllMaps();
   }
 
+  /**
+   * Pick up added, changed and removed map files (and playlists) without a restart
+   */
+  watch(): void {
+    if (this.watcher) return;
+
+    this.watcher = fs.watch(this.mapsDir, (_event, filename) => {
+      const name = filename?.toString();
+      if (!name || (!name.endsWith(MAP_FILE_EXTENSION) && name !== PLAYLISTS_FILE)) return;
+
+      clearTimeout(this.pendingReloads.get(name));
+      this.pendingReloads.set(name, setTimeout(() => {
+        this.pendingReloads.delete(name);
+        this.reloadFile(name);
+      }, RELOAD_DEBOUNCE));
+    });
+    this.watcher.on('error', (error) => {
+      console.error('[MapManager] Watching maps failed:', error);
+    });
+    console.log(`[MapManager] Watching ${this.mapsDir} for changes`);
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.pendingReloads.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingReloads.clear();
+  }
+
+  /**
+   * Called whenever the catalog or the playlists change. Returns an unsubscribe function.
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
   private loadAllMaps(): void {
-    // Robust path resolution relative to project root (WORKDIR /app in Docker)
-    const mapsDir = path.resolve(process.cwd(), 'packages/server/maps');
+    const mapsDir = this.mapsDir;
     
     console.log(`[MapManager] Loading maps from: ${mapsDir}`);
 
@@ -28,84 +98,205 @@ export class MapManager {
 
     // Scan directory for all .map.txt files
     const files = fs.readdirSync(mapsDir);
-    const mapFiles = files.filter(file => file.endsWith('.map.txt'));
+    const mapFiles = files.filter(file => file.endsWith(MAP_FILE_EXTENSION));
 
     console.log(`[MapManager] Found ${mapFiles.length} map files in ${mapsDir}`);
 
     for (const filename of mapFiles) {
       const mapPath = path.join(mapsDir, filename);
-      const mapName = filename.replace('.map.txt', '');
+      const mapName = filename.replace(MAP_FILE_EXTENSION, '');
       
       try {
         const mapData = this.loadMapFromFile(mapPath, mapName);
-        this.maps.set(mapName, mapData);
+        this.setMap(mapName, mapData);
         console.log(`[MapManager] Loaded map: ${mapData.metadata.name} by ${mapData.metadata.author} (${mapData.blocks.length} blocks, ${mapData.metadata.width}x${mapData.metadata.height})`);
       } catch (error) {
         console.error(`[MapManager] Failed to load map ${mapName}:`, error);
       }
     }
+
+    this.loadPlaylists();
   }
 
-  private loadMapFromFile(filePath: string, fallbackName: string): MapData {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const lines = content.split('\n').map(line => line.replace('\r', '').trim()).filter(l => l.length > 0);
-    
-    let metadata: { name: string; author: string; width: number; height: number };
-    let gridStartIndex = 0;
-    
-    // Check for new format (header line starting with #)
-    if (lines.length > 0 && lines[0].startsWith('-')) {
-      const header = lines[0].substring(1).trim(); // Remove leading '#'
-      const parts = header.split('|').map(p => p.trim());
-      
-      const name = parts[0] || fallbackName;
-      const author = parts[1] || 'Unknown';
-      const gridSizeStr = parts[2] || `${GRID_WIDTH}x${GRID_HEIGHT}`;
-      const [widthStr, heightStr] = gridSizeStr.split('x');
-      const width = parseInt(widthStr) || GRID_WIDTH;
-      const height = parseInt(heightStr) || GRID_HEIGHT;
-      
-      metadata = { name, author, width, height };
-      gridStartIndex = 1; // Skip header line
+  /**
+   * Load one changed file. A map that fails to parse keeps its last good version.
+   */
+  private reloadFile(filename: string): void {
+    const filePath = path.join(this.mapsDir, filename);
+
+    if (filename === PLAYLISTS_FILE) {
+      if (!this.loadPlaylists()) return;
     } else {
-      // Old format - no header, use defaults
-      metadata = {
-        name: fallbackName,
-        author: 'Unknown',
-        width: GRID_WIDTH,
-        height: GRID_HEIGHT,
-      };
-      gridStartIndex = 0;
+      const mapName = filename.replace(MAP_FILE_EXTENSION, '');
+      if (!fs.existsSync(filePath)) {
+        if (!this.maps.has(mapName)) return;
+        // Rounds need a map to start: the catalog never goes empty
+        if (this.maps.size === 1) {
+          console.warn(`[MapManager] ${filename} was deleted but it is the last map, keeping it loaded`);
+          return;
+        }
+        this.removeMap(mapName);
+        console.log(`[MapManager] Removed map: ${mapName}`);
+      } else {
+        try {
+          const mapData = this.loadMapFromFile(filePath, mapName);
+          const action = this.maps.has(mapName) ? 'Reloaded' : 'Added';
+          this.setMap(mapName, mapData);
+          console.log(`[MapManager] ${action} map: ${mapData.metadata.name} by ${mapData.metadata.author} (${mapData.blocks.length} blocks, ${mapData.metadata.width}x${mapData.metadata.height})`);
+        } catch (error) {
+          const kept = this.maps.has(mapName) ? ', keeping the previous version' : '';
+          console.error(`[MapManager] Failed to load map ${mapName}${kept}:`, error);
+          return;
+        }
+      }
     }
-    
-    // Parse grid data
-    const blocks: Block[] = [];
-    for (let y = gridStartIndex; y < lines.length && (y - gridStartIndex) < metadata.height; y++) {
-      const line = lines[y];
-      for (let x = 0; x < Math.min(line.length, metadata.width); x++) {
-        if (line[x] === '#') {
-          blocks.push({
-            gridX: x,
-            gridY: y - gridStartIndex,
-          });
+
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Read the named playlists from playlists.json next to the maps (optional).
+   * Returns false if the file is invalid, in which case the previous playlists are kept.
+   */
+  private loadPlaylists(): boolean {
+    const playlistsPath = path.join(this.mapsDir, PLAYLISTS_FILE);
+    if (!fs.existsSync(playlistsPath)) {
+      this.playlists = [];
+      return true;
+    }
+
+    try {
+      const result = PlaylistsSchema.safeParse(JSON.parse(fs.readFileSync(playlistsPath, 'utf-8')));
+      if (!result.success) {
+        console.error(`[MapManager] Invalid ${PLAYLISTS_FILE}: ${result.error.issues[0].message}`);
+        return false;
+      }
+
+      this.playlists = result.data.filter(playlist => playlist.name !== DEFAULT_PLAYLIST_NAME);
+      for (const playlist of this.playlists) {
+        const missing = playlist.maps.filter(entry => !this.maps.has(entry.map));
+        if (missing.length > 0) {
+          console.warn(`[MapManager] Playlist "${playlist.name}" references unknown maps: ${missing.map(e => e.map).join(', ')}`);
         }
       }
+      console.log(`[MapManager] Loaded ${this.playlists.length} playlists`);
+      return true;
+    } catch (error) {
+      console.error(`[MapManager] Failed to load ${PLAYLISTS_FILE}:`, error);
+      return false;
     }
+  }
 
-    return {
-      metadata,
-      blocks,
-    };
+  /**
+   * Parse a map file. Throws if the map has errors, logs its warnings.
+   */
+  private loadMapFromFile(filePath: string, fallbackName: string): MapData {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const { map, issues } = parseMapText(content, fallbackName);
+
+    if (hasMapErrors(issues)) {
+      const errors = issues.filter(issue => issue.severity === 'error');
+      throw new Error(errors.map(formatMapIssue).join('; '));
+    }
+    for (const issue of issues) {
+      console.warn(`[MapManager] ${fallbackName}: ${formatMapIssue(issue)}`);
+    }
+
+    return map;
+  }
+
+  /**
+   * Map ids end up in file names, so only allow a safe charset
+   */
+  static isValidId(id: string): boolean {
+    return /^[A-Za-z0-9_-]{1,64}$/.test(id);
+  }
+
+  /**
+   * File contents of a map in the catalog (null if there is no such map)
+   */
+  async readMapText(id: string): Promise<string | null> {
+    if (!MapManager.isValidId(id) || !this.maps.has(id)) return null;
+
+    try {
+      return await fs.promises.readFile(this.getMapPath(id), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write an uploaded map to the maps folder, checked like the files loaded from it.
+   * Nothing is written if the map has errors.
+   */
+  async saveMap(id: string, content: string): Promise<{ saved: boolean; created: boolean; issues: MapIssue[] }> {
+    const { map, issues } = parseMapText(content, id);
+    if (!MapManager.isValidId(id) || hasMapErrors(issues)) {
+      return { saved: false, created: false, issues };
+    }
+
+    const created = !this.maps.has(id);
+    await fs.promises.writeFile(this.getMapPath(id), content);
+    // The watcher picks the file up too, but the catalog is current as soon as this returns
+    this.setMap(id, map);
+    console.log(`[MapManager] ${created ? 'Published' : 'Replaced'} map: ${map.metadata.name} by ${map.metadata.author} (${id})`);
+    this.notifyChange();
+
+    return { saved: true, created, issues };
+  }
+
+  /**
+   * Remove a map file. Returns false if there is no such map.
+   */
+  async deleteMap(id: string): Promise<boolean> {
+    if (!MapManager.isValidId(id) || !this.maps.has(id)) return false;
+
+    await fs.promises.rm(this.getMapPath(id), { force: true });
+    this.removeMap(id);
+    console.log(`[MapManager] Deleted map: ${id}`);
+    this.notifyChange();
+    return true;
   }
 
-  getRandomMap(): MapData {
+  /**
+   * Add or replace a map in the catalog, with a fresh thumbnail
+   */
+  private setMap(id: string, map: MapData): void {
+    const svg = renderMapThumbnail(map);
+    this.maps.set(id, map);
+    this.thumbnails.set(id, { svg, version: createHash('sha1').update(svg).digest('hex').slice(0, 12) });
+  }
+
+  private removeMap(id: string): boolean {
+    this.thumbnails.delete(id);
+    return this.maps.delete(id);
+  }
+
+  getThumbnail(id: string): MapThumbnail | undefined {
+    return this.thumbnails.get(id);
+  }
+
+  private getMapPath(id: string): string {
+    return path.join(this.mapsDir, id + MAP_FILE_EXTENSION);
+  }
+
+  /**
+   * Any map of the catalog (null if no maps are loaded)
+   */
+  getRandomMap(random: Random): MapData | null {
     const mapNames = Array.from(this.maps.keys());
     if (mapNames.length === 0) {
-      throw new Error('[MapManager] No maps loaded!');
+      console.error('[MapManager] No maps loaded!');
+      return null;
     }
 
-    const randomName = mapNames[Math. floor(Math.random() * mapNames.length)];
-    console.log(mapNames)
+    const randomName = mapNames[randomInt(random, mapNames.length)];
     const map = this.maps.get(randomName)!;
     
     console.log(`[MapManager] Selected map: ${map.metadata.name}`);
@@ -119,4 +310,43 @@ export class MapManager {
   getAllMapNames(): string[] {
     return Array.from(this.maps.keys());
   }
+
+  /**
+   * Catalog for the lobby, sorted by display name
+   */
+  getMapSummaries(): MapSummary[] {
+    return Array.from(this.maps.entries())
+      .map(([id, map]) => ({ id, ...map.metadata, thumbnail: this.getThumbnailPath(id) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Name and thumbnail of each map, sorted like the catalog
+   */
+  getMapPreviews(): MapPreview[] {
+    return this.getMapSummaries().map(({ id, name, thumbnail }) => ({ id, name, thumbnail }));
+  }
+
+  /**
+   * URL path of a map's thumbnail. It names the version, so it can be cached for good.
+   */
+  getThumbnailPath(id: string): string {
+    return `/api/maps/${encodeURIComponent(id)}/thumbnail.svg?v=${this.thumbnails.get(id)?.version ?? ''}`;
+  }
+
+  /**
+   * The built-in playlist of every map, then the ones from playlists.json
+   */
+  getPlaylists(): Playlist[] {
+    const allMaps: Playlist = {
+      name: DEFAULT_PLAYLIST_NAME,
+      order: 'SHUFFLE',
+      maps: this.getAllMapNames().map(map => ({ map, weight: 1 })),
+    };
+    return [allMaps, ...this.playlists];
+  }
+
+  getPlaylist(name: string): Playlist | undefined {
+    return this.getPlaylists().find(playlist => playlist.name === name);
+  }
 }
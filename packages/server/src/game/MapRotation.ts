@@ -0,0 +1,267 @@
+import type { MapData, MapLobbyState, Playlist } from '@astroparty/shared';
+import { DEFAULT_PLAYLIST_NAME, MAP_VOTE_CANDIDATES } from '@astroparty/shared';
+import type { Random } from '@astroparty/simulation';
+import { randomInt } from '@astroparty/simulation';
+import type { MapManager } from './MapManager.js';
+
+/**
+ * Picks the map of each round in one room: the host's pick if there is one,
+ * else the winner of the end-of-round vote, else the next map of the playlist
+ */
+export class MapRotation {
+  private mapManager: MapManager;
+  private random: Random; // The room's simulation RNG, so a seed replays the same maps
+  private playlistName = DEFAULT_PLAYLIST_NAME;
+  private position = 0; // ORDERED: index of the next map
+  private bag: string[] = []; // SHUFFLE: maps left in the current pass
+  private lastMap: string | null = null;
+  private nextMap: string | null = null;
+  private candidates: string[] | null = null;
+  private votes: Map<string, string> = new Map(); // playerId -> mapId
+
+  constructor(mapManager: MapManager, random: Random) {
+    this.mapManager = mapManager;
+    this.random = random;
+  }
+
+  setPlaylist(name: string): boolean {
+    if (!this.mapManager.getPlaylist(name)) return false;
+
+    this.playlistName = name;
+    this.position = 0;
+    this.bag = [];
+    return true;
+  }
+
+  /**
+   * Forget maps and playlists that were removed from disk (the catalog is hot-reloaded)
+   */
+  handleCatalogChange(): void {
+    if (!this.mapManager.getPlaylist(this.playlistName)) {
+      this.setPlaylist(DEFAULT_PLAYLIST_NAME);
+    }
+    if (this.nextMap && !this.mapManager.getMapByName(this.nextMap)) {
+      this.nextMap = null;
+    }
+    if (this.candidates) {
+      this.candidates = this.candidates.filter(id => this.mapManager.getMapByName(id));
+      for (const [playerId, mapId] of this.votes) {
+        if (!this.candidates.includes(mapId)) this.votes.delete(playerId);
+      }
+      if (this.candidates.length < 2) {
+        this.closeVote();
+      }
+    }
+  }
+
+  /**
+   * Force the next map (null to go back to the vote and the playlist)
+   */
+  setNextMap(mapId: string | null): boolean {
+    if (mapId !== null && !this.mapManager.getMapByName(mapId)) return false;
+
+    this.nextMap = mapId;
+    // The host's pick makes an open vote pointless
+    if (mapId !== null) {
+      this.closeVote();
+    }
+    return true;
+  }
+
+  /**
+   * Offer the next few maps of the playlist to vote on (called when a round ends)
+   */
+  openVote(): void {
+    this.closeVote();
+    if (this.nextMap) return;
+
+    // Only the winner moves the playlist along (in selectMap), the other candidates stay up next
+    const candidates: string[] = [];
+    // Offer the map just played again only if the playlist is too short
+    const exclude = this.withoutLastMap(MAP_VOTE_CANDIDATES + 1);
+    while (candidates.length < MAP_VOTE_CANDIDATES) {
+      const mapId = this.peekPlaylist(exclude);
+      if (!mapId) break;
+      candidates.push(mapId);
+      exclude.add(mapId);
+    }
+
+    // Nothing to choose from with a single map
+    this.candidates = candidates.length >= 2 ? candidates : null;
+  }
+
+  isVoteOpen(): boolean {
+    return this.candidates !== null;
+  }
+
+  /**
+   * Record a player's vote (a new vote replaces the old one)
+   */
+  vote(playerId: string, mapId: string): boolean {
+    if (!this.candidates?.includes(mapId)) return false;
+
+    this.votes.set(playerId, mapId);
+    return true;
+  }
+
+  removeVoter(playerId: string): boolean {
+    return this.votes.delete(playerId);
+  }
+
+  /**
+   * Map for the round that is starting (null if no maps are loaded). Clears the pick and the vote.
+   */
+  selectMap(): MapData | null {
+    const fromPlaylist = this.nextMap ? null : this.getVoteWinner() ?? this.peekPlaylist(this.withoutLastMap(2));
+    const mapId = this.nextMap ?? fromPlaylist;
+    if (fromPlaylist) {
+      this.advancePlaylist(fromPlaylist);
+    }
+    this.nextMap = null;
+    this.closeVote();
+
+    const map = mapId ? this.mapManager.getMapByName(mapId) : undefined;
+    if (!map) {
+      // The playlist has no loadable maps left
+      return this.mapManager.getRandomMap(this.random);
+    }
+
+    this.lastMap = mapId;
+    console.log(`[MapRotation] Selected map: ${map.metadata.name} (${this.playlistName})`);
+    return map;
+  }
+
+  getLobbyState(): MapLobbyState {
+    const tally = new Map<string, number>();
+    for (const mapId of this.votes.values()) {
+      tally.set(mapId, (tally.get(mapId) ?? 0) + 1);
+    }
+
+    return {
+      maps: this.mapManager.getMapSummaries(),
+      playlists: this.mapManager.getPlaylists().map(playlist => playlist.name),
+      playlist: this.playlistName,
+      nextMap: this.nextMap,
+      vote: this.candidates?.flatMap(id => {
+        const map = this.mapManager.getMapByName(id);
+        if (!map) return [];
+        return [{ id, ...map.metadata, thumbnail: this.mapManager.getThumbnailPath(id), votes: tally.get(id) ?? 0 }];
+      }) ?? null,
+    };
+  }
+
+  private closeVote(): void {
+    this.candidates = null;
+    this.votes.clear();
+  }
+
+  /**
+   * Most voted candidate, ties broken at random (null if no vote is open).
+   * Without any vote the playlist decides: candidates are in playlist order.
+   */
+  private getVoteWinner(): string | null {
+    if (!this.candidates) return null;
+    if (this.votes.size === 0) return this.candidates[0];
+
+    const tally = new Map<string, number>(this.candidates.map(id => [id, 0]));
+    for (const mapId of this.votes.values()) {
+      tally.set(mapId, (tally.get(mapId) ?? 0) + 1);
+    }
+
+    const best = Math.max(...tally.values());
+    const tied = this.candidates.filter(id => tally.get(id) === best);
+    return tied[randomInt(this.random, tied.length)];
+  }
+
+  /**
+   * Exclusion set with the map just played, if the playlist has enough maps to avoid a repeat
+   */
+  private withoutLastMap(minEntries: number): Set<string> {
+    const exclude = new Set<string>();
+    if (this.lastMap && this.getPlaylistEntries().length >= minEntries) {
+      exclude.add(this.lastMap);
+    }
+    return exclude;
+  }
+
+  /**
+   * Next map of the active playlist that is not excluded (null if none is left).
+   * The playlist stays where it is until advancePlaylist.
+   */
+  private peekPlaylist(exclude: Set<string>): string | null {
+    const entries = this.getPlaylistEntries();
+    const allowed = entries.filter(entry => !exclude.has(entry.map));
+    if (allowed.length === 0) return null;
+
+    const order = this.mapManager.getPlaylist(this.playlistName)?.order ?? 'SHUFFLE';
+    switch (order) {
+      case 'ORDERED': {
+        for (let i = 0; i < entries.length; i++) {
+          const index = (this.position + i) % entries.length;
+          if (!exclude.has(entries[index].map)) {
+            return entries[index].map;
+          }
+        }
+        return null;
+      }
+
+      case 'SHUFFLE': {
+        const available = new Set(entries.map(entry => entry.map));
+        this.bag = this.bag.filter(mapId => available.has(mapId));
+        if (!this.bag.some(mapId => !exclude.has(mapId))) {
+          this.bag.push(...this.shuffle(entries.map(entry => entry.map)));
+        }
+        return this.bag.find(mapId => !exclude.has(mapId))!;
+      }
+
+      case 'WEIGHTED': {
+        const total = allowed.reduce((sum, entry) => sum + entry.weight, 0);
+        let roll = this.random.next() * total;
+        for (const entry of allowed) {
+          roll -= entry.weight;
+          if (roll < 0) return entry.map;
+        }
+        return allowed[allowed.length - 1].map;
+      }
+    }
+  }
+
+  /**
+   * A map of the playlist was chosen: ORDERED continues after it, SHUFFLE takes it out of the pass
+   */
+  private advancePlaylist(mapId: string): void {
+    const order = this.mapManager.getPlaylist(this.playlistName)?.order ?? 'SHUFFLE';
+    if (order === 'ORDERED') {
+      const entries = this.getPlaylistEntries();
+      for (let i = 0; i < entries.length; i++) {
+        const index = (this.position + i) % entries.length;
+        if (entries[index].map === mapId) {
+          this.position = index + 1;
+          return;
+        }
+      }
+    } else if (order === 'SHUFFLE') {
+      const index = this.bag.indexOf(mapId);
+      if (index !== -1) this.bag.splice(index, 1);
+    }
+  }
+
+  /**
+   * Entries of the active playlist whose maps are loaded (every map if none are)
+   */
+  private getPlaylistEntries(): Playlist['maps'] {
+    const playlist = this.mapManager.getPlaylist(this.playlistName);
+    const entries = playlist?.maps.filter(entry => this.mapManager.getMapByName(entry.map)) ?? [];
+    if (entries.length > 0) return entries;
+
+    return this.mapManager.getAllMapNames().map(map => ({ map, weight: 1 }));
+  }
+
+  private shuffle(mapIds: string[]): string[] {
+    for (let i = mapIds.length - 1; i > 0; i--) {
+      const j = randomInt(this.random, i + 1);
+      [mapIds[i], mapIds[j]] = [mapIds[j], mapIds[i]];
+    }
+    return mapIds;
+  }
+}
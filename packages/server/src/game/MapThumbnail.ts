@@ -0,0 +1,77 @@
+import type { GridPosition, MapData, TileKind } from '@astroparty/shared';
+
+// Opaque versions of the display's tile colors, readable at a few pixels per cell
+const TILE_FILLS: Record<TileKind, string> = {
+  SOLID: '#4a5a8a',
+  GLASS: '#3a7190',
+  DESTRUCTIBLE: '#a0703c',
+  BOUNCY: '#2ecc71',
+};
+const BACKGROUND = '#0a0a15';
+
+/**
+ * Standalone SVG preview of a map, one unit per grid cell. Rows of equal tiles are
+ * merged into single rectangles to keep the file small.
+ */
+export function renderMapThumbnail(map: MapData): string {
+  const { width, height } = map.metadata;
+  const { environment } = map;
+  const parts: string[] = [`<rect width="${width}" height="${height}" fill="${BACKGROUND}"/>`];
+
+  for (const cell of environment.nebulaCells) {
+    parts.push(cellRect(cell, '#9b59b6', 0.35));
+  }
+  for (const cell of environment.windCells) {
+    parts.push(cellRect(cell, '#7fd4ff', 0.15));
+  }
+
+  // Merge each row into runs of the same tile
+  const kinds = new Map<string, TileKind>();
+  for (const block of map.blocks) {
+    kinds.set(`${block.gridX},${block.gridY}`, block.kind ?? 'SOLID');
+  }
+  for (let y = 0; y < height; y++) {
+    let x = 0;
+    while (x < width) {
+      const kind = kinds.get(`${x},${y}`);
+      const start = x;
+      while (x < width && kinds.get(`${x},${y}`) === kind) x++;
+      if (kind) {
+        parts.push(`<rect x="${start}" y="${y}" width="${x - start}" height="1" fill="${TILE_FILLS[kind]}"/>`);
+      }
+    }
+  }
+
+  for (const well of environment.gravityWells) {
+    parts.push(cellCircle(well, 0.35, 'fill="#000" stroke="#ff8c3c" stroke-width="0.15"'));
+  }
+  for (const teleporter of map.teleporters) {
+    const color = teleporter.bullets ? '#c77dff' : '#4dd0e1';
+    for (const pad of teleporter.pads) {
+      parts.push(cellCircle(pad, 0.35, `fill="none" stroke="${color}" stroke-width="0.2"`));
+    }
+  }
+  for (const pad of map.powerUpPads) {
+    parts.push(cellCircle(pad, 0.25, 'fill="#f1c40f"'));
+  }
+  for (const spawn of map.spawnPoints) {
+    parts.push(cellCircle(spawn, 0.25, 'fill="#ffffff"'));
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" shape-rendering="crispEdges">` +
+    `<title>${escapeXml(map.metadata.name)}</title>${parts.join('')}</svg>`
+  );
+}
+
+function cellRect({ gridX, gridY }: GridPosition, fill: string, opacity: number): string {
+  return `<rect x="${gridX}" y="${gridY}" width="1" height="1" fill="${fill}" fill-opacity="${opacity}"/>`;
+}
+
+function cellCircle({ gridX, gridY }: GridPosition, radius: number, attributes: string): string {
+  return `<circle cx="${gridX + 0.5}" cy="${gridY + 0.5}" r="${radius}" shape-rendering="auto" ${attributes}/>`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
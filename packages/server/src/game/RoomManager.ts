@@ -0,0 +1,284 @@
+import type { Server as SocketIOServer } from 'socket.io';
+import { randomUUID } from 'crypto';
+import type { ClientToServerEvents, ServerToClientEvents, SnapshotFormat } from '@astroparty/shared';
+import { ROOM_CODE_LENGTH, ROOM_CODE_ALPHABET, MAX_SPECTATORS, MAX_PLAYER_NAME_LENGTH } from '@astroparty/shared';
+import { GameManager } from './GameManager.js';
+import type { MapManager } from './MapManager.js';
+import type { RecordingStore } from '../replay/RecordingStore.js';
+
+const ROOM_IDLE_TIMEOUT = 60_000; // Empty rooms are removed after 1 minute
+const ROOM_SWEEP_INTERVAL = 10_000; // How often to look for empty rooms
+const SESSION_GRACE_PERIOD = 30_000; // How long a disconnected player is kept frozen
+
+export interface Room {
+  code: string;
+  game: GameManager;
+  displays: Set<string>; // Socket ids of displays showing this room
+  spectators: Set<string>; // Socket ids of spectators (not counted as players)
+  emptySince: number | null; // timestamp when the room lost its last client
+}
+
+export interface PlayerSession {
+  token: string;
+  room: Room;
+  playerId: string;
+  socketId: string | null; // null while the controller is disconnected
+  graceTimer: NodeJS.Timeout | null; // Removes the player when the grace period runs out
+}
+
+export class RoomManager {
+  private io: SocketIOServer<ClientToServerEvents, ServerToClientEvents>;
+  private mapManager: MapManager;
+  private roundDuration: number;
+  private recordingStore?: RecordingStore;
+  private rooms: Map<string, Room> = new Map();
+  private sessions: Map<string, PlayerSession> = new Map();
+  private sweepInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    io: SocketIOServer<ClientToServerEvents, ServerToClientEvents>,
+    mapManager: MapManager,
+    roundDuration: number,
+    recordingStore?: RecordingStore
+  ) {
+    this.io = io;
+    this.mapManager = mapManager;
+    this.roundDuration = roundDuration;
+    this.recordingStore = recordingStore;
+  }
+
+  start(): void {
+    this.sweepInterval = setInterval(() => {
+      this.sweepEmptyRooms();
+    }, ROOM_SWEEP_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+    for (const session of this.sessions.values()) {
+      this.clearGraceTimer(session);
+    }
+    this.sessions.clear();
+    for (const room of this.rooms.values()) {
+      room.game.stop();
+    }
+    this.rooms.clear();
+  }
+
+  /**
+   * Create a new room with its own game loop
+   */
+  createRoom(): Room {
+    const code = this.generateRoomCode();
+    const game = new GameManager(this.io, code, this.mapManager, this.roundDuration, this.recordingStore);
+
+    const room: Room = {
+      code,
+      game,
+      displays: new Set(),
+      spectators: new Set(),
+      emptySince: Date.now(),
+    };
+
+    this.rooms.set(code, room);
+    game.start();
+    console.log(`[RoomManager] Created room ${code} (${this.rooms.size} active)`);
+
+    return room;
+  }
+
+  getRoom(code: string): Room | undefined {
+    return this.rooms.get(RoomManager.normalizeCode(code));
+  }
+
+  getRoomCount(): number {
+    return this.rooms.size;
+  }
+
+  addDisplay(room: Room, socketId: string, format: SnapshotFormat): void {
+    room.displays.add(socketId);
+    room.game.addSnapshotClient(socketId, false, format);
+    room.emptySince = null;
+  }
+
+  removeDisplay(room: Room, socketId: string): void {
+    room.displays.delete(socketId);
+    room.game.removeSnapshotClient(socketId);
+    this.updateEmptyState(room);
+  }
+
+  addSpectator(room: Room, socketId: string, reducedRate: boolean, format: SnapshotFormat): boolean {
+    if (room.spectators.size >= MAX_SPECTATORS) {
+      console.warn(`[RoomManager] Room ${room.code} has too many spectators`);
+      return false;
+    }
+
+    room.spectators.add(socketId);
+    room.game.addSnapshotClient(socketId, reducedRate, format);
+    room.emptySince = null;
+    this.io.to(room.game.roomChannel).emit('spectatorCount', room.spectators.size);
+    return true;
+  }
+
+  removeSpectator(room: Room, socketId: string): void {
+    if (!room.spectators.delete(socketId)) return;
+    room.game.removeSnapshotClient(socketId);
+
+    this.io.to(room.game.roomChannel).emit('spectatorCount', room.spectators.size);
+    this.updateEmptyState(room);
+  }
+
+  /**
+   * Turn a spectator into a player. The session is handed over to a
+   * controller, so it starts disconnected and must be resumed within the grace period.
+   */
+  promoteSpectator(room: Room, socketId: string, playerName: string): PlayerSession | null {
+    const session = this.addPlayer(room, socketId, playerName);
+    if (!session) {
+      return null;
+    }
+
+    this.removeSpectator(room, socketId);
+    this.disconnectSession(session, socketId);
+    console.log(`[RoomManager] Spectator ${socketId} promoted to player in room ${room.code}`);
+
+    return session;
+  }
+
+  /**
+   * Add a new player to a room and open a session for it.
+   * The player id is the id of the socket that joined first.
+   */
+  addPlayer(room: Room, socketId: string, playerName: string): PlayerSession | null {
+    if (!room.game.addPlayer(socketId, playerName)) {
+      return null;
+    }
+    room.emptySince = null;
+
+    const session: PlayerSession = {
+      token: randomUUID(),
+      room,
+      playerId: socketId,
+      socketId,
+      graceTimer: null,
+    };
+    this.sessions.set(session.token, session);
+
+    return session;
+  }
+
+  /**
+   * Rebind a session's player to a new socket. Returns null if the session
+   * is unknown or its grace period already ran out.
+   */
+  resumeSession(token: string, socketId: string): PlayerSession | null {
+    const session = this.sessions.get(token);
+    if (!session || !session.room.game.hasPlayer(session.playerId)) {
+      return null;
+    }
+
+    this.clearGraceTimer(session);
+    // The controller being replaced stops getting this player's updates
+    if (session.socketId && session.socketId !== socketId) {
+      this.io.in(session.socketId).socketsLeave(session.room.game.playerChannel(session.playerId));
+    }
+    session.socketId = socketId;
+    session.room.game.setPlayerConnected(session.playerId, true);
+    console.log(`[RoomManager] Player ${session.playerId} resumed in room ${session.room.code}`);
+
+    return session;
+  }
+
+  /**
+   * Freeze the session's player and remove it if it doesn't come back in time
+   */
+  disconnectSession(session: PlayerSession, socketId: string): void {
+    // Ignore stale sockets that were already replaced by a resume
+    if (session.socketId !== socketId) return;
+
+    session.socketId = null;
+    session.room.game.setPlayerConnected(session.playerId, false);
+
+    this.clearGraceTimer(session);
+    session.graceTimer = setTimeout(() => {
+      session.graceTimer = null;
+      this.endSession(session);
+    }, SESSION_GRACE_PERIOD);
+  }
+
+  private endSession(session: PlayerSession): void {
+    this.clearGraceTimer(session);
+    this.sessions.delete(session.token);
+    session.room.game.removePlayer(session.playerId);
+    this.updateEmptyState(session.room);
+    console.log(`[RoomManager] Session for ${session.playerId} in room ${session.room.code} expired`);
+  }
+
+  private clearGraceTimer(session: PlayerSession): void {
+    if (session.graceTimer) {
+      clearTimeout(session.graceTimer);
+      session.graceTimer = null;
+    }
+  }
+
+  /**
+   * Room codes are case-insensitive for players typing them on a phone
+   */
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Player name as shown on every screen of the room, or null if it is not a usable name
+   */
+  static normalizePlayerName(name: unknown): string | null {
+    if (typeof name !== 'string') return null;
+
+    // Control characters (newlines, tabs) would garble the scoreboard
+    const normalized = name.replace(/\p{Cc}/gu, '').trim();
+    return normalized.length > 0 && normalized.length <= MAX_PLAYER_NAME_LENGTH ? normalized : null;
+  }
+
+  private updateEmptyState(room: Room): void {
+    // Bots alone don't keep a room alive
+    const isEmpty = room.displays.size === 0 && room.spectators.size === 0 && room.game.getHumanPlayerCount() === 0;
+    if (isEmpty && room.emptySince === null) {
+      room.emptySince = Date.now();
+    } else if (!isEmpty) {
+      room.emptySince = null;
+    }
+  }
+
+  private sweepEmptyRooms(): void {
+    const now = Date.now();
+
+    for (const room of this.rooms.values()) {
+      if (room.emptySince !== null && now - room.emptySince >= ROOM_IDLE_TIMEOUT) {
+        room.game.stop();
+        this.rooms.delete(room.code);
+        for (const session of this.sessions.values()) {
+          if (session.room === room) {
+            this.clearGraceTimer(session);
+            this.sessions.delete(session.token);
+          }
+        }
+        console.log(`[RoomManager] Removed empty room ${room.code} (${this.rooms.size} active)`);
+      }
+    }
+  }
+
+  private generateRoomCode(): string {
+    let code: string;
+    do {
+      code = '';
+      for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+        code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+      }
+    } while (this.rooms.has(code));
+
+    return code;
+  }
+}
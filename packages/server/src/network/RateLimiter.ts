@@ -0,0 +1,54 @@
+/**
+ * Token bucket limiter for events coming from a single socket.
+ * Also counts rejections in a rolling window so callers can spot abusive clients.
+ */
+export class RateLimiter {
+  private readonly capacity: number;
+  private readonly refillPerSecond: number;
+  private readonly windowMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private rejectedInWindow = 0;
+  private windowStart: number;
+
+  constructor(capacity: number, refillPerSecond: number, windowMs: number = 10_000) {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.windowMs = windowMs;
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+    this.windowStart = Date.now();
+  }
+
+  /**
+   * Take one token. Returns false (and counts a rejection) if the bucket is empty.
+   */
+  tryConsume(): boolean {
+    const now = Date.now();
+
+    // Refill based on elapsed time
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.lastRefill = now;
+
+    if (now - this.windowStart >= this.windowMs) {
+      this.windowStart = now;
+      this.rejectedInWindow = 0;
+    }
+
+    if (this.tokens < 1) {
+      this.rejectedInWindow++;
+      return false;
+    }
+
+    this.tokens--;
+    return true;
+  }
+
+  /**
+   * Number of rejected events in the current window
+   */
+  getRejectedCount(): number {
+    return this.rejectedInWindow;
+  }
+}
@@ -0,0 +1,127 @@
+import type { SerializedGameState, StateSnapshot } from '@astroparty/shared';
+import { SNAPSHOT_HISTORY_TICKS, SNAPSHOT_KEYFRAME_INTERVAL, diffSnapshots } from '@astroparty/shared';
+
+/**
+ * Copy of a snapshot for the history. The simulation mutates entities, their vectors and
+ * power-up effects in place, so those are copied. Everything else is replaced, not mutated.
+ */
+function detachSnapshot(state: SerializedGameState): SerializedGameState {
+  return {
+    ...state,
+    players: state.players.map(player => ({
+      ...player,
+      position: { ...player.position },
+      velocity: { ...player.velocity },
+      activePowerUps: player.activePowerUps.map(effect => ({ ...effect })),
+    })),
+    bullets: state.bullets.map(bullet => ({ ...bullet, position: { ...bullet.position }, velocity: { ...bullet.velocity } })),
+    powerUps: state.powerUps.map(powerUp => ({ ...powerUp, position: { ...powerUp.position } })),
+    mines: state.mines.map(mine => ({ ...mine, position: { ...mine.position } })),
+    asteroids: state.asteroids.map(asteroid => ({ ...asteroid, position: { ...asteroid.position }, velocity: { ...asteroid.velocity } })),
+    recentPickups: state.recentPickups.slice(),
+  };
+}
+
+interface SnapshotClient {
+  interval: number; // Ticks between snapshots (reduced-rate spectators skip some)
+  ackedTick: number | null; // Newest snapshot the client applied: its baseline
+  lastSentTick: number;
+  lastKeyframeTick: number;
+}
+
+/**
+ * Game state stream for displays and spectators. Every snapshot is numbered by tick and
+ * sent as the changes since the last one the client acknowledged. Clients without a usable
+ * baseline (new, lagging past the history, or lost) get a keyframe, and everyone gets one
+ * every SNAPSHOT_KEYFRAME_INTERVAL ticks. Without clients, nothing is kept or diffed.
+ */
+export class SnapshotStream {
+  private history: Map<number, SerializedGameState> = new Map(); // tick -> snapshot, oldest first
+  private clients: Map<string, SnapshotClient> = new Map(); // socket id -> stream state
+  private playerChangeTicks: Map<string, number> = new Map(); // player id -> last tick it was marked dirty
+
+  constructor(private send: (socketIds: string[], snapshot: StateSnapshot) => void) {}
+
+  addClient(socketId: string, interval: number = 1): void {
+    this.clients.set(socketId, { interval, ackedTick: null, lastSentTick: -Infinity, lastKeyframeTick: -Infinity });
+  }
+
+  removeClient(socketId: string): void {
+    this.clients.delete(socketId);
+    if (this.clients.size === 0) {
+      this.history.clear();
+      this.playerChangeTicks.clear();
+    }
+  }
+
+  hasClients(): boolean {
+    return this.clients.size > 0;
+  }
+
+  /**
+   * A client applied a snapshot. Ticks it was never sent, or older than its baseline, are
+   * ignored. null drops the baseline, so the next snapshot is a keyframe.
+   */
+  acknowledge(socketId: string, tick: number | null): void {
+    const client = this.clients.get(socketId);
+    if (!client) return;
+
+    if (tick === null) {
+      client.ackedTick = null;
+      return;
+    }
+    if (!Number.isInteger(tick) || tick > client.lastSentTick) return;
+    if (client.ackedTick !== null && tick <= client.ackedTick) return;
+    client.ackedTick = tick;
+  }
+
+  /**
+   * Send the state of a tick. dirtyPlayers are the players the simulation marked dirty since
+   * the previous call: only their fields other than position, velocity and rotation can differ
+   * from a baseline, the other players are compared on their motion alone.
+   */
+  publish(tick: number, state: SerializedGameState, dirtyPlayers: Iterable<string>): void {
+    if (this.clients.size === 0) return;
+
+    for (const playerId of dirtyPlayers) {
+      this.playerChangeTicks.set(playerId, tick);
+    }
+    // The simulation keeps mutating the objects in the state, baselines need a copy
+    this.history.set(tick, detachSnapshot(state));
+    for (const oldTick of this.history.keys()) {
+      if (oldTick > tick - SNAPSHOT_HISTORY_TICKS) break;
+      this.history.delete(oldTick);
+    }
+    // Changes older than every baseline no longer matter
+    for (const [playerId, changeTick] of this.playerChangeTicks) {
+      if (changeTick <= tick - SNAPSHOT_HISTORY_TICKS) this.playerChangeTicks.delete(playerId);
+    }
+
+    // Clients on the same baseline share one message
+    const groups = new Map<number | null, string[]>();
+    for (const [socketId, client] of this.clients) {
+      if (tick - client.lastSentTick < client.interval) continue;
+
+      const hasBaseline = client.ackedTick !== null && this.history.has(client.ackedTick);
+      const keyframeDue = tick - client.lastKeyframeTick >= SNAPSHOT_KEYFRAME_INTERVAL;
+      const baseTick = hasBaseline && !keyframeDue ? client.ackedTick : null;
+      if (baseTick === null) {
+        client.lastKeyframeTick = tick;
+      }
+      client.lastSentTick = tick;
+
+      const group = groups.get(baseTick);
+      if (group) group.push(socketId);
+      else groups.set(baseTick, [socketId]);
+    }
+
+    for (const [baseTick, socketIds] of groups) {
+      if (baseTick === null) {
+        this.send(socketIds, { tick, baseTick: null, state });
+      } else {
+        const changedSinceBase = (playerId: string) => (this.playerChangeTicks.get(playerId) ?? -Infinity) > baseTick;
+        this.send(socketIds, { tick, baseTick, delta: diffSnapshots(this.history.get(baseTick)!, state, changedSinceBase) });
+      }
+    }
+  }
+}
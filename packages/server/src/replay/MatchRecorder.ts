@@ -0,0 +1,120 @@
+import type {
+  BlockUpdate,
+  MapSyncData,
+  MatchRecording,
+  SerializedGameState,
+} from '@astroparty/shared';
+import {
+  MATCH_RECORDING_VERSION,
+  RECORDING_FRAME_INTERVAL,
+  RECORDING_KEYFRAME_INTERVAL,
+  diffSnapshots,
+} from '@astroparty/shared';
+
+/**
+ * Round floats to 2 decimals while copying a snapshot.
+ * Keeps recordings small and detaches them from the live game state.
+ */
+function compactReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === 'number' && !Number.isInteger(value)) {
+    return Math.round(value * 100) / 100;
+  }
+  return value;
+}
+
+/**
+ * Collects the snapshots of one room's current round. Rounds can run for minutes,
+ * so only every RECORDING_KEYFRAME_INTERVAL-th frame is kept whole, the others
+ * as the changes since the frame before.
+ */
+export class MatchRecorder {
+  private roomCode: string;
+  private recording: MatchRecording | null = null;
+  private lastFrameTick = -Infinity;
+  private lastState: SerializedGameState | null = null; // Baseline of the next delta
+  private framesSinceKeyframe = 0;
+
+  constructor(roomCode: string) {
+    this.roomCode = roomCode;
+  }
+
+  begin(startedAt: number, map: MapSyncData): void {
+    const date = new Date(startedAt).toISOString().replace(/[:.]/g, '-');
+    this.recording = {
+      version: MATCH_RECORDING_VERSION,
+      id: `${date}-${this.roomCode}`,
+      roomCode: this.roomCode,
+      startedAt,
+      endedAt: startedAt,
+      // Copied: destructible blocks are damaged in place during the round
+      map: { ...map, blocks: map.blocks.map(block => ({ ...block })) },
+      frames: [],
+      winner: null,
+    };
+    this.lastFrameTick = -Infinity;
+    this.lastState = null;
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Keep a snapshot if enough ticks passed since the previous one
+   */
+  capture(tick: number, time: number, state: SerializedGameState): void {
+    if (!this.recording || tick - this.lastFrameTick < RECORDING_FRAME_INTERVAL) return;
+
+    this.addFrame(time, state);
+    this.lastFrameTick = tick;
+  }
+
+  /**
+   * Keep the blocks damaged this tick, so replays can break them at the same time
+   */
+  recordBlockUpdates(time: number, updates: BlockUpdate[]): void {
+    if (!this.recording) return;
+
+    this.recording.blockUpdates ??= [];
+    this.recording.blockUpdates.push({ time, updates });
+  }
+
+  /**
+   * Close the recording with the final state and hand it over
+   */
+  finish(
+    time: number,
+    state: SerializedGameState,
+    winner: { id: string; name: string; score: number } | null
+  ): MatchRecording | null {
+    const recording = this.recording;
+    if (!recording) return null;
+
+    // The final standings are read from the last frame, keep it whole
+    this.addFrame(time, state, true);
+    recording.endedAt = time;
+    recording.winner = winner;
+    this.recording = null;
+    this.lastState = null;
+
+    return recording;
+  }
+
+  discard(): void {
+    this.recording = null;
+    this.lastState = null;
+  }
+
+  private addFrame(time: number, state: SerializedGameState, keyframe = false): void {
+    const compact: SerializedGameState = JSON.parse(JSON.stringify(state, compactReplacer));
+
+    if (keyframe || !this.lastState || this.framesSinceKeyframe >= RECORDING_KEYFRAME_INTERVAL) {
+      this.recording!.frames.push({ time, state: compact });
+      this.framesSinceKeyframe = 1;
+    } else {
+      this.recording!.frames.push({ time, delta: diffSnapshots(this.lastState, compact) });
+      this.framesSinceKeyframe++;
+    }
+    this.lastState = compact;
+  }
+}
@@ -0,0 +1,109 @@
+import type { MatchRecording, MatchSummary } from '@astroparty/shared';
+import { MAX_STORED_RECORDINGS } from '@astroparty/shared';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+
+const gzipAsync = promisify(gzip);
+
+const RECORDING_SUFFIX = '.json.gz';
+const SUMMARY_SUFFIX = '.summary.json';
+
+/**
+ * Stores finished rounds on disk as gzipped JSON, with a small summary
+ * file next to each one so listing doesn't have to unpack recordings.
+ */
+export class RecordingStore {
+  private dir: string;
+
+  constructor(dir: string = path.resolve(process.cwd(), 'packages/server/recordings')) {
+    this.dir = dir;
+
+    if (!fs.existsSync(this.dir)) {
+      console.log(`[RecordingStore] Creating recordings directory: ${this.dir}`);
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+  }
+
+  /**
+   * Recording ids end up in file names, so only allow a safe charset
+   */
+  static isValidId(id: string): boolean {
+    return /^[A-Za-z0-9-]+$/.test(id);
+  }
+
+  async save(recording: MatchRecording): Promise<void> {
+    const data = await gzipAsync(JSON.stringify(recording));
+    await fs.promises.writeFile(path.join(this.dir, recording.id + RECORDING_SUFFIX), data);
+    await fs.promises.writeFile(
+      path.join(this.dir, recording.id + SUMMARY_SUFFIX),
+      JSON.stringify(RecordingStore.summarize(recording))
+    );
+    console.log(`[RecordingStore] Saved ${recording.id} (${recording.frames.length} frames, ${Math.round(data.length / 1024)} KB)`);
+
+    await this.prune();
+  }
+
+  /**
+   * Summaries of all stored recordings, newest first
+   */
+  async list(): Promise<MatchSummary[]> {
+    const files = await fs.promises.readdir(this.dir);
+    const summaries: MatchSummary[] = [];
+
+    for (const file of files.filter(f => f.endsWith(SUMMARY_SUFFIX))) {
+      try {
+        const content = await fs.promises.readFile(path.join(this.dir, file), 'utf-8');
+        summaries.push(JSON.parse(content));
+      } catch (error) {
+        console.error(`[RecordingStore] Failed to read summary ${file}:`, error);
+      }
+    }
+
+    return summaries.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * Raw gzipped recording, served as-is with Content-Encoding: gzip
+   */
+  async readCompressed(id: string): Promise<Buffer | null> {
+    if (!RecordingStore.isValidId(id)) return null;
+
+    try {
+      return await fs.promises.readFile(path.join(this.dir, id + RECORDING_SUFFIX));
+    } catch {
+      return null;
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const summaries = await this.list();
+
+    for (const summary of summaries.slice(MAX_STORED_RECORDINGS)) {
+      await fs.promises.rm(path.join(this.dir, summary.id + RECORDING_SUFFIX), { force: true });
+      await fs.promises.rm(path.join(this.dir, summary.id + SUMMARY_SUFFIX), { force: true });
+      console.log(`[RecordingStore] Deleted old recording ${summary.id}`);
+    }
+  }
+
+  static summarize(recording: MatchRecording): MatchSummary {
+    // Recordings end with a keyframe
+    const lastFrame = recording.frames[recording.frames.length - 1];
+    const players = lastFrame && 'state' in lastFrame
+      ? lastFrame.state.players
+          .map(p => ({ name: p.name, color: p.color, score: p.score, isBot: p.isBot }))
+          .sort((a, b) => b.score - a.score)
+      : [];
+
+    return {
+      id: recording.id,
+      roomCode: recording.roomCode,
+      mapName: recording.map.metadata?.name ?? 'Unknown',
+      startedAt: recording.startedAt,
+      duration: recording.endedAt - recording.startedAt,
+      players,
+      winner: recording.winner,
+    };
+  }
+}
@@ -1,11 +1,19 @@
 import Fastify from 'fastify';
+import type { FastifyReply, FastifyRequest } from 'fastify';
 import FastifyStatic from '@fastify/static';
 import { Server as SocketIOServer } from 'socket.io';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import dotenv from 'dotenv';
-import { GameManager } from './game/GameManager.js';
-import type { ClientToServerEvents, ServerToClientEvents } from '@astroparty/shared';
+import { createHash, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { MapManager } from './game/MapManager.js';
+import { RoomManager } from './game/RoomManager.js';
+import type { Room, PlayerSession } from './game/RoomManager.js';
+import { RateLimiter } from './network/RateLimiter.js';
+import { RecordingStore } from './replay/RecordingStore.js';
+import type { ClientToServerEvents, ServerToClientEvents, SnapshotFormat } from '@astroparty/shared';
+import { BINARY_SNAPSHOT_PROTOCOL, MAX_PLAYER_NAME_LENGTH } from '@astroparty/shared';
 
 // Load environment variables
 dotenv.config();
@@ -16,6 +24,15 @@ const __dirname = dirname(__filename);
 const PORT = parseInt(process.env.PORT || '3000', 10);
 const ROUND_DURATION = parseInt(process.env.ROUND_DURATION || '150000', 10);
 const IS_PRODUCTION = process.env.NODE_ENV === 'production';
+const RECORDINGS_DIR = process.env.RECORDINGS_DIR || undefined; // Defaults to packages/server/recordings
+const MAP_API_TOKEN = process.env.MAP_API_TOKEN || undefined; // The map API is off without one
+const MAP_UPLOAD_LIMIT = 64 * 1024; // Bytes, the largest valid map is ~6 KB
+
+// Per-socket input limits: a human tapping buttons stays far below these
+const INPUT_RATE_BURST = 30; // Events allowed in a burst
+const INPUT_RATE_PER_SECOND = 20; // Sustained events per second
+const INPUT_ABUSE_THRESHOLD = 200; // Rejected events per 10s window before the socket is dropped
+const INPUT_INVALID_THRESHOLD = 20; // Malformed events before the socket is dropped
 
 // Initialize Fastify
 const fastify = Fastify({
@@ -58,7 +75,151 @@ if (IS_PRODUCTION) {
 
 // Health check endpoint
 fastify.get('/health', async () => {
-  return { status: 'ok', timestamp: Date.now() };
+  return { status: 'ok', timestamp: Date.now(), rooms: roomManager.getRoomCount() };
+});
+
+// API is also used by the Vite dev servers, which run on other ports
+fastify.addHook('onSend', async (request, reply) => {
+  if (request.url.startsWith('/api/')) {
+    reply.header('Access-Control-Allow-Origin', '*');
+  }
+});
+
+// Recorded rounds, newest first
+fastify.get('/api/recordings', async () => {
+  return recordingStore.list();
+});
+
+// Single recording, stored gzipped and sent as-is
+fastify.get<{ Params: { id: string } }>('/api/recordings/:id', async (request, reply) => {
+  const data = await recordingStore.readCompressed(request.params.id);
+  if (!data) {
+    return reply.code(404).send({ error: 'Recording not found' });
+  }
+
+  return reply
+    .header('Content-Type', 'application/json')
+    .header('Content-Encoding', 'gzip')
+    .header('Cache-Control', 'public, max-age=86400') // Recordings never change
+    .send(data);
+});
+
+// Map catalog API, used by the map editor to publish maps
+const MapUploadSchema = z.string().min(1).max(MAP_UPLOAD_LIMIT);
+
+/**
+ * Reject map API requests without the bearer token from MAP_API_TOKEN
+ */
+async function requireMapToken(request: FastifyRequest, reply: FastifyReply) {
+  if (!MAP_API_TOKEN) {
+    return reply.code(503).send({ error: 'Map publishing is disabled on this server (MAP_API_TOKEN is not set)' });
+  }
+
+  const token = request.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '';
+  // Compare digests so neither the length nor the contents leak through timing
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (!timingSafeEqual(digest(token), digest(MAP_API_TOKEN))) {
+    fastify.log.warn(`Rejected map API request from ${request.ip}: bad token`);
+    return reply.code(401).send({ error: 'Invalid map API token' });
+  }
+}
+
+// Browsers ask before sending the Authorization header across origins
+fastify.options('/api/maps', async (request, reply) => {
+  return reply
+    .header('Access-Control-Allow-Methods', 'GET')
+    .header('Access-Control-Allow-Headers', 'Authorization')
+    .code(204)
+    .send();
+});
+
+fastify.options('/api/maps/:id', async (request, reply) => {
+  return reply
+    .header('Access-Control-Allow-Methods', 'GET, PUT, DELETE')
+    .header('Access-Control-Allow-Headers', 'Authorization, Content-Type')
+    .code(204)
+    .send();
+});
+
+// Maps in the catalog, sorted by name
+fastify.get('/api/maps', { preHandler: requireMapToken }, async () => {
+  return mapManager.getMapSummaries();
+});
+
+// Names and thumbnails for the landing page, which has no token. Lobbies get the catalog over the socket
+fastify.get('/api/map-previews', async () => {
+  return mapManager.getMapPreviews();
+});
+
+// Map preview for lobbies and the landing page. Links from the catalog name the version
+// (?v=), those responses never change; the bare URL is revalidated with the ETag.
+fastify.get<{ Params: { id: string }; Querystring: { v?: string } }>('/api/maps/:id/thumbnail.svg', async (request, reply) => {
+  const thumbnail = mapManager.getThumbnail(request.params.id);
+  if (!thumbnail) {
+    return reply.code(404).send({ error: 'Map not found' });
+  }
+
+  const etag = `"${thumbnail.version}"`;
+  reply
+    .header('Content-Type', 'image/svg+xml')
+    .header('ETag', etag)
+    .header('Cache-Control', request.query.v === thumbnail.version
+      ? 'public, max-age=31536000, immutable'
+      : 'public, max-age=0, must-revalidate');
+  if (request.headers['if-none-match'] === etag) {
+    return reply.code(304).send();
+  }
+  return reply.send(thumbnail.svg);
+});
+
+// Map file, as the editor imports it
+fastify.get<{ Params: { id: string } }>('/api/maps/:id', { preHandler: requireMapToken }, async (request, reply) => {
+  const text = await mapManager.readMapText(request.params.id);
+  if (text === null) {
+    return reply.code(404).send({ error: 'Map not found' });
+  }
+
+  return reply.header('Content-Type', 'text/plain; charset=utf-8').send(text);
+});
+
+// Add or replace a map (text/plain body in the .map.txt format)
+fastify.put<{ Params: { id: string }; Body: unknown }>(
+  '/api/maps/:id',
+  { preHandler: requireMapToken, bodyLimit: MAP_UPLOAD_LIMIT },
+  async (request, reply) => {
+    const { id } = request.params;
+    if (!MapManager.isValidId(id)) {
+      return reply.code(400).send({ error: 'Map ids may only contain letters, digits, - and _ (64 at most)' });
+    }
+
+    const content = MapUploadSchema.safeParse(request.body);
+    if (!content.success) {
+      return reply.code(400).send({ error: 'Send the map file as a text/plain body' });
+    }
+
+    const { saved, created, issues } = await mapManager.saveMap(id, content.data);
+    if (!saved) {
+      return reply.code(422).send({ error: 'The map has errors', issues });
+    }
+
+    fastify.log.info(`Map ${id} ${created ? 'published' : 'replaced'} by ${request.ip}`);
+    return reply.code(created ? 201 : 200).send({ id, issues });
+  }
+);
+
+fastify.delete<{ Params: { id: string } }>('/api/maps/:id', { preHandler: requireMapToken }, async (request, reply) => {
+  const { id } = request.params;
+  if (!mapManager.getMapByName(id)) {
+    return reply.code(404).send({ error: 'Map not found' });
+  }
+  // Rooms need at least one map to play
+  if (mapManager.getAllMapNames().length <= 1) {
+    return reply.code(409).send({ error: 'Cannot delete the last map' });
+  }
+
+  await mapManager.deleteMap(id);
+  fastify.log.info(`Map ${id} deleted by ${request.ip}`);
+  return reply.code(204).send();
 });
 
 // Initialize Socket.IO
@@ -72,45 +233,297 @@ const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(fastif
   },
 });
 
-// Initialize Game Manager
-const gameManager = new GameManager(io, ROUND_DURATION);
+// Maps and recordings are shared by all rooms, each room runs its own game
+const mapManager = new MapManager();
+mapManager.watch();
+const recordingStore = new RecordingStore(RECORDINGS_DIR);
+const roomManager = new RoomManager(io, mapManager, ROUND_DURATION, recordingStore);
 
 // Socket.IO connection handler
 io.on('connection', (socket) => {
   const clientType = socket.handshake.query.type as string;
+  // Displays ask for the binary snapshot version they speak, anything else (or no answer) gets JSON
+  const snapshotFormat: SnapshotFormat = socket.handshake.query.protocol === BINARY_SNAPSHOT_PROTOCOL ? 'binary' : 'json';
   fastify.log.info(`Client connected: ${socket.id} (Type: ${clientType || 'unknown'})`);
 
-  if (clientType === 'display') {
-    socket.join('displays');
+  // Room this socket belongs to (set by createRoom, joinGame or resumeSession)
+  let room: Room | undefined;
+  // Player session controlled by this socket (controllers only)
+  let session: PlayerSession | undefined;
+  const inputLimiter = new RateLimiter(INPUT_RATE_BURST, INPUT_RATE_PER_SECOND);
+  let invalidInputCount = 0;
+  let sessionlessInputCount = 0; // Inputs from a socket without a player (display, spectator, replaced socket)
+
+  const bindSession = (newSession: PlayerSession) => {
+    session = newSession;
+    room = newSession.room;
+    socket.join([room.game.roomChannel, room.game.playerChannel(session.playerId)]);
+  };
+
+  // A resume on another socket takes the player over: this socket lets go of its room
+  const activeSession = (): PlayerSession | undefined => {
+    if (session && session.socketId !== socket.id) {
+      fastify.log.info(`Socket ${socket.id} replaced by a resumed session for player ${session.playerId}`);
+      socket.leave(session.room.game.roomChannel);
+      session = undefined;
+      room = undefined;
+    }
+    return session;
+  };
+
+  socket.on('createRoom', (requestedCode, callback) => {
+    if (typeof callback !== 'function' || clientType !== 'display' || room) return;
+
+    // Re-attach to an existing room (display reload, second screen) or open a new one
+    const existingRoom = typeof requestedCode === 'string' ? roomManager.getRoom(requestedCode) : undefined;
+    room = existingRoom || roomManager.createRoom();
+    roomManager.addDisplay(room, socket.id, snapshotFormat);
+    socket.join([room.game.roomChannel, room.game.displayChannel]);
+    fastify.log.info(`Display ${socket.id} attached to room ${room.code}`);
+
+    callback(room.code);
     // Send map data immediately to new display
-    gameManager.syncMapToDisplay(socket.id);
-  } else {
-    socket.join('controllers');
-  }
+    room.game.syncMapToDisplay(socket.id);
+    room.game.syncMapLobby(socket.id);
+  });
+
+  socket.on('joinGame', (roomCode, playerName, callback) => {
+    if (typeof callback !== 'function') return;
+    if (room) {
+      callback({ success: false, error: 'Already in a room' });
+      return;
+    }
 
-  socket.on('joinGame', (playerName, callback) => {
-    fastify.log.info(`Player joining: ${playerName} (${socket.id})`);
-    gameManager.addPlayer(socket.id, playerName);
-    callback(socket.id);
+    const targetRoom = typeof roomCode === 'string' ? roomManager.getRoom(roomCode) : undefined;
+    if (!targetRoom) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+
+    const name = RoomManager.normalizePlayerName(playerName);
+    if (!name) {
+      callback({ success: false, error: `Names are 1 to ${MAX_PLAYER_NAME_LENGTH} characters` });
+      return;
+    }
+
+    fastify.log.info(`Player joining room ${targetRoom.code}: ${name} (${socket.id})`);
+    const newSession = roomManager.addPlayer(targetRoom, socket.id, name);
+    if (!newSession) {
+      callback({ success: false, error: 'Room is full' });
+      return;
+    }
+
+    bindSession(newSession);
+    callback({
+      success: true,
+      playerId: newSession.playerId,
+      roomCode: newSession.room.code,
+      sessionToken: newSession.token,
+    });
+    newSession.room.game.syncMapLobby(socket.id);
+  });
+
+  socket.on('joinSpectator', (roomCode, reducedRate, callback) => {
+    if (typeof callback !== 'function') return;
+    if (clientType !== 'spectator' || room) {
+      callback({ success: false, error: 'Cannot spectate from this client' });
+      return;
+    }
+
+    const targetRoom = typeof roomCode === 'string' ? roomManager.getRoom(roomCode) : undefined;
+    if (!targetRoom) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+
+    if (!roomManager.addSpectator(targetRoom, socket.id, reducedRate === true, snapshotFormat)) {
+      callback({ success: false, error: 'Too many spectators' });
+      return;
+    }
+
+    room = targetRoom;
+    socket.join([room.game.roomChannel, room.game.displayChannel]);
+    fastify.log.info(`Spectator ${socket.id} watching room ${room.code}${reducedRate === true ? ' (reduced rate)' : ''}`);
+
+    callback({ success: true, roomCode: room.code });
+    room.game.syncMapToDisplay(socket.id);
+    room.game.syncMapLobby(socket.id);
+  });
+
+  // Displays and spectators confirm the snapshots they applied, the baselines of the next deltas
+  socket.on('ackSnapshot', (tick) => {
+    if (!room || session) return;
+    room.game.acknowledgeSnapshot(socket.id, tick);
+  });
+
+  socket.on('promoteSpectator', (playerName, callback) => {
+    if (typeof callback !== 'function') return;
+    if (clientType !== 'spectator' || !room || !room.spectators.has(socket.id)) {
+      callback({ success: false, error: 'Not spectating' });
+      return;
+    }
+
+    if (room.game.isRoundActive()) {
+      callback({ success: false, error: 'Wait for the round to end' });
+      return;
+    }
+
+    const name = RoomManager.normalizePlayerName(playerName);
+    if (!name) {
+      callback({ success: false, error: `Names are 1 to ${MAX_PLAYER_NAME_LENGTH} characters` });
+      return;
+    }
+
+    fastify.log.info(`Spectator ${socket.id} joining room ${room.code} as ${name}`);
+    const newSession = roomManager.promoteSpectator(room, socket.id, name);
+    if (!newSession) {
+      callback({ success: false, error: 'Room is full' });
+      return;
+    }
+
+    // The spectator page hands the session over to a controller
+    socket.leave(room.game.roomChannel);
+    callback({
+      success: true,
+      playerId: newSession.playerId,
+      roomCode: room.code,
+      sessionToken: newSession.token,
+    });
+  });
+
+  socket.on('resumeSession', (sessionToken, callback) => {
+    if (typeof callback !== 'function') return;
+    if (room || typeof sessionToken !== 'string') {
+      callback({ success: false, error: 'Cannot resume session' });
+      return;
+    }
+
+    const resumed = roomManager.resumeSession(sessionToken, socket.id);
+    if (!resumed) {
+      callback({ success: false, error: 'Session expired' });
+      return;
+    }
+
+    fastify.log.info(`Player ${resumed.playerId} resumed session on ${socket.id}`);
+    bindSession(resumed);
+    callback({
+      success: true,
+      playerId: resumed.playerId,
+      roomCode: resumed.room.code,
+      sessionToken: resumed.token,
+    });
+    resumed.room.game.syncMapLobby(socket.id);
   });
 
   socket.on('input', (event) => {
-    gameManager.handleInput(event);
+    // Inputs always act on the player bound to this socket, and only while it is the player's socket
+    const session = activeSession();
+    // Limit every socket, so one without a player cannot flood the log either
+    if (!inputLimiter.tryConsume()) {
+      const rejected = inputLimiter.getRejectedCount();
+      const who = session ? `${socket.id} (player ${session.playerId})` : socket.id;
+      if (rejected === 1 || rejected % 50 === 0) {
+        fastify.log.warn(`Rate limited input from ${who}: ${rejected} rejected`);
+      }
+      if (rejected >= INPUT_ABUSE_THRESHOLD) {
+        fastify.log.warn(`Disconnecting ${who}: input flood`);
+        socket.disconnect(true);
+      }
+      return;
+    }
+
+    if (!session) {
+      sessionlessInputCount++;
+      if (sessionlessInputCount === 1 || sessionlessInputCount % 50 === 0) {
+        fastify.log.warn(`Rejected input from ${socket.id}: no player session (${sessionlessInputCount} rejected)`);
+      }
+      return;
+    }
+
+    if (!session.room.game.handleInput(session.playerId, event)) {
+      invalidInputCount++;
+      if (invalidInputCount >= INPUT_INVALID_THRESHOLD) {
+        fastify.log.warn(`Disconnecting ${socket.id} (player ${session.playerId}): too many malformed inputs`);
+        socket.disconnect(true);
+      }
+    }
   });
 
   socket.on('startGame', () => {
-    fastify.log.info(`Player ${socket.id} requesting game start`);
-    gameManager.startGame(socket.id);
+    const session = activeSession();
+    if (!session) return;
+    fastify.log.info(`Player ${session.playerId} requesting game start in room ${session.room.code}`);
+    session.room.game.startGame(session.playerId);
+  });
+
+  socket.on('addBot', (difficulty) => {
+    const session = activeSession();
+    if (!session) return;
+    fastify.log.info(`Player ${session.playerId} adding ${difficulty} bot in room ${session.room.code}`);
+    session.room.game.addBot(session.playerId, difficulty);
+  });
+
+  socket.on('removeBot', () => {
+    const session = activeSession();
+    if (!session) return;
+    fastify.log.info(`Player ${session.playerId} removing bot in room ${session.room.code}`);
+    session.room.game.removeBot(session.playerId);
+  });
+
+  socket.on('setGameMode', (config) => {
+    const session = activeSession();
+    if (!session) return;
+    fastify.log.info(`Player ${session.playerId} changing game mode in room ${session.room.code}`);
+    session.room.game.setGameMode(session.playerId, config);
+  });
+
+  socket.on('setGameSettings', (settings) => {
+    const session = activeSession();
+    if (!session) return;
+    fastify.log.info(`Player ${session.playerId} changing game settings in room ${session.room.code}`);
+    session.room.game.setGameSettings(session.playerId, settings);
+  });
+
+  socket.on('setPlaylist', (name) => {
+    const session = activeSession();
+    if (!session) return;
+    fastify.log.info(`Player ${session.playerId} changing playlist in room ${session.room.code}`);
+    session.room.game.setPlaylist(session.playerId, name);
+  });
+
+  socket.on('setNextMap', (mapId) => {
+    const session = activeSession();
+    if (!session) return;
+    fastify.log.info(`Player ${session.playerId} picking next map in room ${session.room.code}`);
+    session.room.game.setNextMap(session.playerId, mapId);
+  });
+
+  socket.on('voteMap', (mapId) => {
+    const session = activeSession();
+    if (!session) return;
+    session.room.game.voteMap(session.playerId, mapId);
   });
 
   socket.on('playAgain', () => {
-    fastify.log.info(`Player ${socket.id} requesting play again`);
-    gameManager.resetGame();
+    const session = activeSession();
+    if (!session) return;
+    fastify.log.info(`Player ${session.playerId} requesting play again in room ${session.room.code}`);
+    session.room.game.resetGame();
   });
 
   socket.on('disconnect', () => {
     fastify.log.info(`Client disconnected: ${socket.id}`);
-    gameManager.removePlayer(socket.id);
+    const session = activeSession();
+    if (!room) return;
+
+    if (session) {
+      // Keep the player frozen for a while so the controller can resume
+      roomManager.disconnectSession(session, socket.id);
+    } else if (clientType === 'spectator') {
+      roomManager.removeSpectator(room, socket.id);
+    } else {
+      roomManager.removeDisplay(room, socket.id);
+    }
   });
 });
 
@@ -129,10 +542,10 @@ const start = async () => {
       fastify.log.info(`🎮 Controller client (Vite dev): http://localhost:5174`);
     }
     
-    fastify.log.info(`⏱️  Round duration: ${ROUND_DURATION}ms`);
+    fastify.log.info(`⏱️  Default round duration: ${ROUND_DURATION}ms`);
     
-    // Start game loop
-    gameManager.start();
+    // Start empty room cleanup (each room starts its own game loop)
+    roomManager.start();
   } catch (err) {
     fastify.log.error(err);
     process.exit(1);
@@ -1,8 +1,11 @@
+import type { AsteroidSize } from './types.js';
+
 // ========================================
 // Game Constants
 // ========================================
 
 export const MAX_PLAYERS = 15;
+export const MAX_PLAYER_NAME_LENGTH = 20; // Characters, same as the controller's name field
 export const GAME_WIDTH = 1920;
 export const GAME_HEIGHT = 1080;
 
@@ -14,6 +17,53 @@ export const BLOCK_SIZE = 60; // 60x60 pixels per block
 export const GRID_WIDTH = 32; // 32 blocks wide (1920 / 60)
 export const GRID_HEIGHT = 18; // 18 blocks tall (1080 / 60)
 
+// Grid size limits for map files
+export const MAP_MIN_WIDTH = 10;
+export const MAP_MAX_WIDTH = 100;
+export const MAP_MIN_HEIGHT = 10;
+export const MAP_MAX_HEIGHT = 60;
+
+// Destructible tiles
+export const DESTRUCTIBLE_BLOCK_HEALTH = 3; // Bullet hits to break one
+export const MEGA_BULLET_BLOCK_DAMAGE = 3; // A mega bullet breaks one in a single hit
+export const MINE_BLOCK_DAMAGE = 2; // Per tile caught in a mine blast
+
+// Teleporters
+export const TELEPORTER_RADIUS = 24; // Ship or bullet center this close to a pad center is pulled in
+export const TELEPORTER_COOLDOWN = 1000; // ms before the same ship or bullet can teleport again
+
+// Map forces
+export const GRAVITY_WELL_RADIUS = 240; // Reach of a gravity well's pull (px)
+export const GRAVITY_WELL_STRENGTH = 0.3; // Pull at the center of a well (px/tick², fades to 0 at the edge)
+export const WIND_FORCE = 0.12; // Push of a wind cell (px/tick²)
+export const NEBULA_FRICTION = 0.94; // Friction inside a nebula (FRICTION elsewhere)
+
+// ========================================
+// Room Constants
+// ========================================
+
+export const ROOM_CODE_LENGTH = 4; // Characters in a room join code
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I/O to avoid confusion with 1/0
+export const MAX_SPECTATORS = 50; // Per room, separate from MAX_PLAYERS
+export const SPECTATOR_REDUCED_RATE_INTERVAL = 3; // Ticks between updates for reduced-rate spectators (20 per second)
+
+// ========================================
+// Snapshot Constants
+// ========================================
+
+export const SNAPSHOT_KEYFRAME_INTERVAL = 120; // Ticks between full snapshots for each display (2 seconds)
+export const SNAPSHOT_HISTORY_TICKS = 120; // Snapshots kept as baselines. Older acks get a keyframe
+export const BINARY_SNAPSHOT_VERSION = 2; // Bump whenever the binary snapshot layout changes
+
+// ========================================
+// Replay Constants
+// ========================================
+
+export const MATCH_RECORDING_VERSION = 2; // Bump when the recording format changes
+export const RECORDING_FRAME_INTERVAL = 3; // Ticks between recorded snapshots (20 per second)
+export const RECORDING_KEYFRAME_INTERVAL = 100; // Recorded frames between full snapshots (5 seconds), the rest are deltas
+export const MAX_STORED_RECORDINGS = 50; // Oldest recordings are deleted beyond this
+
 // Physics constants
 export const ACCELERATION = 0.15; // Ship acceleration
 export const MAX_SPEED = 5; // Maximum speed
@@ -37,6 +87,8 @@ export const COLLISION_DISTANCE = SHIP_MAX_RADIUS * 2; // Minimum distance betwe
 export const COLLISION_FORCE = 0.8; // Repulsion force on collision
 export const RESTITUTION = 0.6; // Coefficient of restitution (elasticity, 0-1)
 export const SHIP_MASS = 1.0; // Ship mass (same for all)
+export const WALL_BOUNCE_DAMPING = 0.7; // Speed kept when a ship bounces off a wall
+export const BOUNCY_TILE_RESTITUTION = 1.3; // Speed multiplier when a ship bounces off a bouncy tile
 
 // Function to convert HSL to RGB
 function hslToRgb(h: number, s: number, l: number): string {
@@ -76,16 +128,33 @@ function hslToRgb(h: number, s: number, l: number): string {
 // Generate 15 colors evenly distributed around the color wheel
 // Using larger steps for better distinction between adjacent colors
 export const PLAYER_COLORS: string[] = [];
+export const PLAYER_COLOR_HUES: number[] = []; // Hue of each PLAYER_COLORS entry (for team tints)
 for (let i = 0; i < 15; i++) {
   const hue = (10 + i * 34) % 360; // Start at 10°, 34 degrees between colors for better separation
   const saturation = 100; // Full saturation for bright colors
   const lightness = 50; // Medium brightness for good visibility
   PLAYER_COLORS.push(hslToRgb(hue, saturation, lightness));
+  PLAYER_COLOR_HUES.push(hue);
 }
 
+// Team mode constants
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 4;
+export const TEAM_NAMES = ['Alpha', 'Bravo', 'Charlie', 'Delta'];
+
+// Elimination mode constants
+export const MIN_LIVES = 1;
+export const MAX_LIVES = 5;
+export const DEFAULT_LIVES = 3;
+
+// Map rotation constants
+export const DEFAULT_PLAYLIST_NAME = 'All maps'; // Built-in playlist: every map, shuffled
+export const MAP_VOTE_CANDIDATES = 3; // Maps offered in the end-of-round vote
+
 // Game timing
 export const GAME_FPS = 60;
 export const ROUND_END_DELAY = 10000; // 10 seconds
+export const RESPAWN_DELAY = 2000; // Time before a destroyed ship respawns
 
 // Bullet constants
 export const BULLET_RADIUS = 3;
@@ -118,3 +187,34 @@ export const TELEPORT_DASH_CHARGES = 3; // Number of dashes
 export const SHIELD_MAX_HITS = 3; // Maximum hits shield can absorb
 export const MINE_TRAP_COUNT = 3; // Number of mines given
 
+// Asteroid constants
+export const ASTEROID_SPAWN_INTERVAL = 8000; // A new large asteroid every 8 seconds
+export const MAX_ASTEROIDS_ON_MAP = 3; // Maximum asteroids drifting at once (pieces don't count against it)
+export const ASTEROID_SCORE = 1; // Points for breaking an asteroid
+export const ASTEROID_SPAWN_CLEARANCE = 200; // Minimum distance between a new asteroid and any ship
+export const ASTEROID_SPLIT_ANGLE = 35; // Degrees between a broken asteroid's path and each piece's
+export const ASTEROID_CONFIGS: Record<AsteroidSize, {
+  radius: number;
+  health: number; // Bullet hits (a mega bullet breaks any asteroid at once)
+  speed: number; // px per tick
+  mass: number; // Relative to a ship
+  splitInto: AsteroidSize | null; // Breaks into 2 of these
+  powerUpDropChance: number; // 0-1
+}> = {
+  LARGE: { radius: 45, health: 3, speed: 1, mass: 4, splitInto: 'MEDIUM', powerUpDropChance: 0 },
+  MEDIUM: { radius: 28, health: 2, speed: 1.6, mass: 2, splitInto: 'SMALL', powerUpDropChance: 0.1 },
+  SMALL: { radius: 16, health: 1, speed: 2.2, mass: 1, splitInto: null, powerUpDropChance: 0.2 },
+};
+
+// Match settings the host can change in the lobby (defaults are the constants above)
+export const GAME_SETTINGS_LIMITS = {
+  roundDuration: { min: 30000, max: 600000 }, // ms
+  clipSize: { min: 1, max: AMMO_BOOST_SIZE },
+  reloadTime: { min: 250, max: 10000 }, // ms per charge
+  maxSpeed: { min: 2, max: 12 },
+  powerUpSpawnInterval: { min: 2000, max: 60000 }, // ms
+  respawnDelay: { min: 500, max: 10000 }, // ms
+  asteroidSpawnInterval: { min: 2000, max: 60000 }, // ms
+  maxAsteroids: { min: 0, max: 10 },
+  asteroidScore: { min: 0, max: 5 },
+};
@@ -1,3 +1,6 @@
 export * from './types.js';
 export * from './constants.js';
 export * from './PowerUpTypes.js';
+export * from './mapValidation.js';
+export * from './snapshotDelta.js';
+export * from './snapshotCodec.js';
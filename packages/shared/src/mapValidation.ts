@@ -0,0 +1,443 @@
+import type { Block, GridPosition, MapData, MapMetadata, TeleporterPair, TileKind, WindCell, WindDirection } from './types.js';
+import {
+  BLOCK_SIZE,
+  GRID_WIDTH,
+  GRID_HEIGHT,
+  MAX_PLAYERS,
+  SHIP_MAX_RADIUS,
+  MAP_MIN_WIDTH,
+  MAP_MAX_WIDTH,
+  MAP_MIN_HEIGHT,
+  MAP_MAX_HEIGHT,
+  DESTRUCTIBLE_BLOCK_HEALTH,
+  GAME_SETTINGS_LIMITS,
+} from './constants.js';
+
+// ========================================
+// Map file format (.map.txt)
+// ========================================
+//
+//   - Name | Author | 32x18 | asteroids=2   <- optional header, options after the size
+//   ################################
+//   #..S....==....P.....%%.....S...#  <- one character per cell, see MAP_TILES
+//
+// Ships wrap around the edges of the map, so pockets are checked with wrap-around.
+
+export const MAP_TILES: Record<string, TileKind> = {
+  '#': 'SOLID',
+  '=': 'GLASS',
+  '%': 'DESTRUCTIBLE',
+  '*': 'BOUNCY',
+};
+export const MAP_SPAWN_POINT = 'S'; // Free cell where ships spawn
+export const MAP_POWERUP_PAD = 'P'; // Free cell where power-ups spawn
+export const MAP_TELEPORTER_CHANNELS = '123456789'; // Each digit marks the 2 pads of a teleporter (ships only)
+export const MAP_WORMHOLE_CHANNELS = 'abcdefghi'; // Each letter marks the 2 pads of a wormhole (ships and bullets)
+export const MAP_GRAVITY_WELL = 'O'; // Free cell that pulls ships and bullets in
+export const MAP_NEBULA = '~'; // Free cell that slows ships down
+export const MAP_WIND: Record<string, WindDirection> = { // Free cells that push ships
+  '^': 'UP',
+  'v': 'DOWN',
+  '<': 'LEFT',
+  '>': 'RIGHT',
+};
+export const MAP_FREE_CELLS = [
+  '.', ' ', MAP_SPAWN_POINT, MAP_POWERUP_PAD, MAP_GRAVITY_WELL, MAP_NEBULA,
+  ...Object.keys(MAP_WIND), ...MAP_TELEPORTER_CHANNELS, ...MAP_WORMHOLE_CHANNELS,
+];
+
+type TileGrid = Array<Array<TileKind | null>>; // null = free cell
+
+const LEGACY_ROW = /^[#.\s]*$/; // Row of the original format, before tile kinds
+
+export type MapIssueSeverity = 'error' | 'warning';
+
+export interface MapIssue {
+  severity: MapIssueSeverity;
+  message: string;
+  line?: number; // 1-based line in the file
+}
+
+export interface ParsedMap {
+  map: MapData; // Best-effort result, even when there are errors
+  issues: MapIssue[];
+}
+
+export function hasMapErrors(issues: MapIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
+
+export function formatMapIssue(issue: MapIssue): string {
+  return issue.line !== undefined ? `line ${issue.line}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Parse the text of a .map.txt file and report everything that is wrong with it.
+ * Maps with errors should not be played.
+ */
+export function parseMapText(text: string, fallbackName: string): ParsedMap {
+  const issues: MapIssue[] = [];
+  const { lines, lineNumbers } = splitMapLines(text);
+
+  if (lines.length === 0) {
+    issues.push({ severity: 'error', message: 'Map file is empty' });
+  }
+
+  const hasHeader = lines.length > 0 && lines[0].startsWith('-');
+  const metadata = hasHeader
+    ? parseHeader(lines[0], fallbackName, issues)
+    : { name: fallbackName, author: 'Unknown', width: GRID_WIDTH, height: GRID_HEIGHT };
+  if (!hasHeader && lines.length > 0) {
+    issues.push({ severity: 'warning', message: `No header line, assuming ${GRID_WIDTH}x${GRID_HEIGHT}`, line: 1 });
+  }
+
+  const rowOffset = hasHeader ? 1 : 0;
+  const rows = lines.slice(rowOffset);
+  const tiles = parseGrid(rows, metadata, rowOffset, issues);
+
+  const blocks: Block[] = [];
+  const spawnPoints: GridPosition[] = [];
+  const powerUpPads: GridPosition[] = [];
+  const teleporterPads = new Map<string, GridPosition[]>();
+  const gravityWells: GridPosition[] = [];
+  const windCells: WindCell[] = [];
+  const nebulaCells: GridPosition[] = [];
+  for (let y = 0; y < metadata.height; y++) {
+    for (let x = 0; x < metadata.width; x++) {
+      const kind = tiles[y][x];
+      const cell = rows[y]?.[x];
+      if (kind) {
+        // Plain walls stay { gridX, gridY } as in the two-character format
+        if (kind === 'SOLID') {
+          blocks.push({ gridX: x, gridY: y });
+        } else if (kind === 'DESTRUCTIBLE') {
+          blocks.push({ gridX: x, gridY: y, kind, health: DESTRUCTIBLE_BLOCK_HEALTH });
+        } else {
+          blocks.push({ gridX: x, gridY: y, kind });
+        }
+      } else if (cell === MAP_SPAWN_POINT) {
+        spawnPoints.push({ gridX: x, gridY: y });
+      } else if (cell === MAP_POWERUP_PAD) {
+        powerUpPads.push({ gridX: x, gridY: y });
+      } else if (cell === MAP_GRAVITY_WELL) {
+        gravityWells.push({ gridX: x, gridY: y });
+      } else if (cell === MAP_NEBULA) {
+        nebulaCells.push({ gridX: x, gridY: y });
+      } else if (MAP_WIND[cell]) {
+        windCells.push({ gridX: x, gridY: y, direction: MAP_WIND[cell] });
+      } else if (MAP_TELEPORTER_CHANNELS.includes(cell) || MAP_WORMHOLE_CHANNELS.includes(cell)) {
+        teleporterPads.set(cell, [...(teleporterPads.get(cell) ?? []), { gridX: x, gridY: y }]);
+      }
+    }
+  }
+
+  const teleporters = pairTeleporters(teleporterPads, tiles, metadata, issues);
+
+  if (lines.length > 0) {
+    checkPlayableSpace(tiles, metadata, teleporters, issues);
+    checkSpawnPoints(tiles, metadata, spawnPoints, issues);
+  }
+
+  // Issues point at the lines that were parsed, report them at their place in the file
+  for (const issue of issues) {
+    if (issue.line !== undefined) {
+      issue.line = lineNumbers[issue.line - 1] ?? issue.line;
+    }
+  }
+
+  const environment = { gravityWells, windCells, nebulaCells };
+  return { map: { metadata, blocks, spawnPoints, powerUpPads, teleporters, environment }, issues };
+}
+
+/**
+ * Lines of the file to parse, with their 1-based line numbers in the file.
+ * Maps in the original two-character format (only "#", "." and whitespace)
+ * load like they always did: rows are trimmed and blank lines are skipped.
+ * Other maps are read as written, where a leading space is a free cell.
+ */
+function splitMapLines(text: string): { lines: string[]; lineNumbers: number[] } {
+  const fileLines = text.split('\n').map(line => line.replace(/\r$/, ''));
+  const firstLine = fileLines.findIndex(line => line.trim() !== '');
+  const isLegacy = fileLines.every((line, index) =>
+    LEGACY_ROW.test(line) || (index === firstLine && line.trim().startsWith('-')));
+
+  if (isLegacy) {
+    const lines: string[] = [];
+    const lineNumbers: number[] = [];
+    fileLines.forEach((line, index) => {
+      const trimmed = line.trim();
+      if (trimmed.length === 0) return;
+      lines.push(trimmed);
+      lineNumbers.push(index + 1);
+    });
+    return { lines, lineNumbers };
+  }
+
+  // Trailing blank lines are not rows (a header alone is an empty arena)
+  while (fileLines.length > 0 && fileLines[fileLines.length - 1].trim() === '') {
+    fileLines.pop();
+  }
+  return { lines: fileLines, lineNumbers: fileLines.map((_, index) => index + 1) };
+}
+
+/**
+ * Every teleporter character must appear exactly twice, on cells a ship fits in
+ */
+function pairTeleporters(
+  padsByChannel: Map<string, GridPosition[]>,
+  tiles: TileGrid,
+  metadata: MapMetadata,
+  issues: MapIssue[]
+): TeleporterPair[] {
+  const teleporters: TeleporterPair[] = [];
+
+  for (const [channel, pads] of padsByChannel) {
+    const name = `${MAP_WORMHOLE_CHANNELS.includes(channel) ? 'Wormhole' : 'Teleporter'} "${channel}"`;
+    if (pads.length !== 2) {
+      issues.push({ severity: 'error', message: `${name} has ${pads.length} pads, it needs exactly 2` });
+      continue;
+    }
+
+    for (const pad of pads) {
+      if (!isSpawnable(tiles, metadata, pad.gridX, pad.gridY)) {
+        issues.push({
+          severity: 'error',
+          message: `${name} pad at column ${pad.gridX + 1}, row ${pad.gridY + 1} is too close to a wall for a ship to come out`,
+        });
+      }
+    }
+
+    teleporters.push({ channel, pads: [pads[0], pads[1]], bullets: MAP_WORMHOLE_CHANNELS.includes(channel) });
+  }
+
+  return teleporters;
+}
+
+function parseHeader(line: string, fallbackName: string, issues: MapIssue[]): MapMetadata {
+  const parts = line.substring(1).split('|').map(part => part.trim());
+
+  const name = parts[0] || fallbackName;
+  if (!parts[0]) {
+    issues.push({ severity: 'warning', message: `Header has no map name, using "${fallbackName}"`, line: 1 });
+  }
+
+  let width = GRID_WIDTH;
+  let height = GRID_HEIGHT;
+  if (parts[2]) {
+    const size = /^(\d+)\s*x\s*(\d+)$/i.exec(parts[2]);
+    if (!size) {
+      issues.push({ severity: 'error', message: `Invalid grid size "${parts[2]}", expected WIDTHxHEIGHT`, line: 1 });
+    } else {
+      width = parseInt(size[1], 10);
+      height = parseInt(size[2], 10);
+      if (width < MAP_MIN_WIDTH || width > MAP_MAX_WIDTH || height < MAP_MIN_HEIGHT || height > MAP_MAX_HEIGHT) {
+        issues.push({
+          severity: 'error',
+          message: `Grid size ${width}x${height} is outside ${MAP_MIN_WIDTH}x${MAP_MIN_HEIGHT} to ${MAP_MAX_WIDTH}x${MAP_MAX_HEIGHT}`,
+          line: 1,
+        });
+        width = Math.min(Math.max(width, MAP_MIN_WIDTH), MAP_MAX_WIDTH);
+        height = Math.min(Math.max(height, MAP_MIN_HEIGHT), MAP_MAX_HEIGHT);
+      }
+    }
+  } else {
+    issues.push({ severity: 'warning', message: `Header has no grid size, assuming ${GRID_WIDTH}x${GRID_HEIGHT}`, line: 1 });
+  }
+
+  const metadata: MapMetadata = { name, author: parts[1] || 'Unknown', width, height };
+  for (const option of parts.slice(3)) {
+    parseHeaderOption(option, metadata, issues);
+  }
+  return metadata;
+}
+
+/**
+ * key=value option after the grid size
+ */
+function parseHeaderOption(option: string, metadata: MapMetadata, issues: MapIssue[]): void {
+  const [key, value] = option.split('=').map(part => part.trim());
+  switch (key) {
+    case 'asteroids': {
+      const { min, max } = GAME_SETTINGS_LIMITS.maxAsteroids;
+      const count = Number(value);
+      if (!/^\d+$/.test(value ?? '') || count < min || count > max) {
+        issues.push({ severity: 'error', message: `Invalid asteroids=${value ?? ''}, expected ${min} to ${max}`, line: 1 });
+      } else {
+        metadata.maxAsteroids = count;
+      }
+      break;
+    }
+    default:
+      issues.push({ severity: 'warning', message: `Unknown header option "${option}" (expected asteroids=N)`, line: 1 });
+  }
+}
+
+/**
+ * Tile grid of the declared size. Short rows and missing rows are free space.
+ */
+function parseGrid(rows: string[], metadata: MapMetadata, rowOffset: number, issues: MapIssue[]): TileGrid {
+  const tiles: TileGrid = [];
+
+  for (let y = 0; y < metadata.height; y++) {
+    const row = rows[y] ?? '';
+    const lineNumber = y + rowOffset + 1;
+    tiles.push(Array.from({ length: metadata.width }, (_, x) => MAP_TILES[row[x]] ?? null));
+
+    const unknown = new Set([...row].filter(char => !MAP_TILES[char] && !MAP_FREE_CELLS.includes(char)));
+    if (unknown.size > 0) {
+      issues.push({ severity: 'error', message: `Unknown characters ${[...unknown].map(c => `"${c}"`).join(', ')}`, line: lineNumber });
+    }
+    if (row.length > metadata.width) {
+      issues.push({ severity: 'error', message: `Row is ${row.length} cells wide, the header says ${metadata.width}`, line: lineNumber });
+    } else if (y < rows.length && row.length < metadata.width && row.trimEnd().length > 0) {
+      issues.push({ severity: 'warning', message: `Row is ${row.length} cells wide, the rest is free space`, line: lineNumber });
+    }
+  }
+
+  if (rows.length > metadata.height) {
+    issues.push({
+      severity: 'error',
+      message: `${rows.length} rows, the header says ${metadata.height}`,
+      line: metadata.height + rowOffset + 1,
+    });
+  } else if (rows.length > 0 && rows.length < metadata.height) {
+    issues.push({
+      severity: 'warning',
+      message: `Only ${rows.length} of ${metadata.height} rows, the missing ones are free space`,
+    });
+  }
+
+  return tiles;
+}
+
+/**
+ * Free space must be one connected area with room to spawn every player
+ */
+function checkPlayableSpace(tiles: TileGrid, metadata: MapMetadata, teleporters: TeleporterPair[], issues: MapIssue[]): void {
+  const regions = linkTeleportedRegions(findFreeRegions(tiles, metadata), teleporters);
+  if (regions.length === 0) {
+    issues.push({ severity: 'error', message: 'Map has no free space' });
+    return;
+  }
+
+  const [main, ...pockets] = regions.sort((a, b) => b.length - a.length);
+  if (pockets.length > 0) {
+    const cells = pockets.reduce((sum, pocket) => sum + pocket.length, 0);
+    const first = pockets[0][0];
+    issues.push({
+      severity: 'warning',
+      message: `${pockets.length} closed-off pocket${pockets.length > 1 ? 's' : ''} (${cells} cells) can't be reached from the main area, first at column ${first.x + 1}, row ${first.y + 1}`,
+    });
+  }
+
+  const spawnable = main.filter(cell => !tiles[cell.y][cell.x] && isSpawnable(tiles, metadata, cell.x, cell.y)).length;
+  if (spawnable < MAX_PLAYERS) {
+    issues.push({
+      severity: 'error',
+      message: `Only ${spawnable} cells to spawn in, ${MAX_PLAYERS} players need at least ${MAX_PLAYERS}`,
+    });
+  }
+}
+
+/**
+ * Spawn points must fit a ship. Having fewer than MAX_PLAYERS is allowed:
+ * when they are all taken, ships spawn anywhere clear of walls.
+ */
+function checkSpawnPoints(tiles: TileGrid, metadata: MapMetadata, spawnPoints: GridPosition[], issues: MapIssue[]): void {
+  for (const point of spawnPoints) {
+    if (!isSpawnable(tiles, metadata, point.gridX, point.gridY)) {
+      issues.push({
+        severity: 'error',
+        message: `Spawn point at column ${point.gridX + 1}, row ${point.gridY + 1} is too close to a wall for a ship`,
+      });
+    }
+  }
+
+  if (spawnPoints.length > 0 && spawnPoints.length < MAX_PLAYERS) {
+    issues.push({
+      severity: 'warning',
+      message: `${spawnPoints.length} spawn points for up to ${MAX_PLAYERS} players, the others spawn at random`,
+    });
+  }
+}
+
+/**
+ * Merge the areas joined by a teleporter, they are reachable from each other
+ */
+function linkTeleportedRegions(
+  regions: Array<Array<{ x: number; y: number }>>,
+  teleporters: TeleporterPair[]
+): Array<Array<{ x: number; y: number }>> {
+  const regionOf = (pad: GridPosition) =>
+    regions.findIndex(region => region.some(cell => cell.x === pad.gridX && cell.y === pad.gridY));
+
+  for (const teleporter of teleporters) {
+    const a = regionOf(teleporter.pads[0]);
+    const b = regionOf(teleporter.pads[1]);
+    if (a < 0 || b < 0 || a === b) continue;
+
+    regions[a].push(...regions[b]);
+    regions.splice(b, 1);
+  }
+
+  return regions;
+}
+
+/**
+ * Connected areas of free cells (4-neighbours, wrapping around the edges).
+ * Destructible tiles can be shot open, so they do not close off a pocket.
+ */
+function findFreeRegions(tiles: TileGrid, metadata: MapMetadata): Array<Array<{ x: number; y: number }>> {
+  const { width, height } = metadata;
+  const seen = tiles.map(row => row.map(kind => kind !== null && kind !== 'DESTRUCTIBLE'));
+  const regions: Array<Array<{ x: number; y: number }>> = [];
+
+  for (let startY = 0; startY < height; startY++) {
+    for (let startX = 0; startX < width; startX++) {
+      if (seen[startY][startX]) continue;
+
+      const region: Array<{ x: number; y: number }> = [];
+      const stack = [{ x: startX, y: startY }];
+      seen[startY][startX] = true;
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        region.push(cell);
+        for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+          const x = (cell.x + dx + width) % width;
+          const y = (cell.y + dy + height) % height;
+          if (!seen[y][x]) {
+            seen[y][x] = true;
+            stack.push({ x, y });
+          }
+        }
+      }
+      regions.push(region);
+    }
+  }
+
+  return regions;
+}
+
+/**
+ * A ship fits at the center of this cell without touching a wall
+ */
+function isSpawnable(tiles: TileGrid, metadata: MapMetadata, cellX: number, cellY: number): boolean {
+  const centerX = cellX * BLOCK_SIZE + BLOCK_SIZE / 2;
+  const centerY = cellY * BLOCK_SIZE + BLOCK_SIZE / 2;
+  const reach = Math.ceil(SHIP_MAX_RADIUS / BLOCK_SIZE);
+
+  for (let y = cellY - reach; y <= cellY + reach; y++) {
+    for (let x = cellX - reach; x <= cellX + reach; x++) {
+      if (x < 0 || y < 0 || x >= metadata.width || y >= metadata.height || !tiles[y][x]) continue;
+
+      // Closest point of the wall block to the cell center
+      const closestX = Math.max(x * BLOCK_SIZE, Math.min(centerX, (x + 1) * BLOCK_SIZE));
+      const closestY = Math.max(y * BLOCK_SIZE, Math.min(centerY, (y + 1) * BLOCK_SIZE));
+      if ((centerX - closestX) ** 2 + (centerY - closestY) ** 2 < SHIP_MAX_RADIUS ** 2) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
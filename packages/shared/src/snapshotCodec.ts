@@ -0,0 +1,601 @@
+import { BINARY_SNAPSHOT_VERSION, SNAPSHOT_HISTORY_TICKS, SNAPSHOT_KEYFRAME_INTERVAL } from './constants.js';
+import { PowerUpType } from './PowerUpTypes.js';
+import type { ActivePowerUpEffect } from './PowerUpTypes.js';
+import type { AsteroidSize, EntityDelta, SerializedGameState, SnapshotDelta, StateSnapshot, Vector2D } from './types.js';
+
+// Binary encoding of the snapshot stream. Every message is
+//   u8 version, u8 kind, varint tick
+//   keyframe: each entity list (count, full records), then the other fields as JSON
+//   delta:    varint tick - baseTick, u8 sections present, then for each entity list
+//             (added records, changed records, removed ids) and the other fields as JSON
+// A record is the entity's id handle (players add their real id in full records), a
+// varint bitmask of the fields present, the boolean fields packed into one varint,
+// and the remaining fields in schema order. References to players (the owner of a
+// bullet or mine) are the player id in full: the player may have left, and a display
+// that joined since never got a record naming it.
+
+/** Handshake `protocol` query value asking for this version of the binary stream */
+export const BINARY_SNAPSHOT_PROTOCOL = `binary-v${BINARY_SNAPSHOT_VERSION}`;
+
+const KEYFRAME = 0;
+const DELTA = 1;
+const FIELDS_SECTION = 1 << 5; // After one bit per entity list
+
+const POSITION_SCALE = 4; // 1/4 px, int16 covers the largest map (6000px)
+const VELOCITY_SCALE = 256; // 1/256 px per tick
+const SPIN_SCALE = 100000; // 1/100000 rad per tick
+const ANGLE_STEPS = 65536;
+
+// Handles unused for this long are forgotten. Live entities are in every keyframe
+// and removed ones are only referenced while a baseline still has them.
+const ID_RETENTION_TICKS = 4 * Math.max(SNAPSHOT_HISTORY_TICKS, SNAPSHOT_KEYFRAME_INTERVAL);
+
+const POWER_UP_TYPES = Object.values(PowerUpType);
+const ASTEROID_SIZES: AsteroidSize[] = ['LARGE', 'MEDIUM', 'SMALL'];
+
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.bytes[this.length++] = value;
+  }
+
+  i16(value: number): void {
+    this.reserve(2);
+    this.view.setInt16(this.length, Math.max(-32768, Math.min(32767, value)));
+    this.length += 2;
+  }
+
+  u16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  /** Non-negative integer, 7 bits per byte (arithmetic, so it works past 32 bits) */
+  varint(value: number): void {
+    while (value >= 0x80) {
+      this.u8((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.u8(value);
+  }
+
+  /** Signed integer, zigzag encoded */
+  svarint(value: number): void {
+    this.varint(zigzag(value));
+  }
+
+  string(value: string): void {
+    const bytes = encodeUtf8(value);
+    this.varint(bytes.length);
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  finish(): ArrayBuffer {
+    return this.bytes.buffer.slice(0, this.length);
+  }
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + count));
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number {
+    this.need(1);
+    return this.bytes[this.offset++];
+  }
+
+  i16(): number {
+    this.need(2);
+    const value = this.view.getInt16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u16(): number {
+    this.need(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  varint(): number {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return value;
+      multiplier *= 0x80;
+    }
+  }
+
+  svarint(): number {
+    return unzigzag(this.varint());
+  }
+
+  string(): string {
+    const length = this.varint();
+    this.need(length);
+    const value = decodeUtf8(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  private need(count: number): void {
+    if (this.offset + count > this.bytes.length) {
+      throw new Error('Binary snapshot is truncated');
+    }
+  }
+}
+
+// Entity ids travel as small integers: the encoder hands them out, the decoder
+// turns them back into ids (the real one for players, the handle for the rest)
+interface IdEncoder {
+  handle(id: string): number;
+}
+
+interface IdDecoder {
+  id(handle: number): string;
+  name(handle: number, id: string): void;
+}
+
+interface FieldCodec<T> {
+  write(writer: ByteWriter, value: T, ids: IdEncoder): void;
+  read(reader: ByteReader, ids: IdDecoder): T;
+}
+
+// Booleans aren't written in place, they share one bitfield per record
+const FLAG = 'flag';
+type FieldSpec<T> = [T] extends [boolean] ? typeof FLAG : FieldCodec<T>;
+
+// How each field of T (but the id) goes on the wire. Key order is wire order.
+type Schema<T> = { [K in keyof Omit<T, 'id'>]-?: FieldSpec<Exclude<T[K], undefined>> };
+
+const integer: FieldCodec<number> = {
+  write: (writer, value) => writer.svarint(Math.round(value)),
+  read: (reader) => reader.svarint(),
+};
+
+const nullableInteger: FieldCodec<number | null> = {
+  write: (writer, value) => writer.varint(value === null ? 0 : zigzag(Math.round(value)) + 1),
+  read: (reader) => {
+    const value = reader.varint();
+    return value === 0 ? null : unzigzag(value - 1);
+  },
+};
+
+// Simulation time in ms. Ticks are a fractional number of ms, the wire rounds them.
+const time: FieldCodec<number> = integer;
+
+const text: FieldCodec<string> = {
+  write: (writer, value) => writer.string(value),
+  read: (reader) => reader.string(),
+};
+
+const position: FieldCodec<Vector2D> = {
+  write: (writer, value) => {
+    writer.i16(Math.round(value.x * POSITION_SCALE));
+    writer.i16(Math.round(value.y * POSITION_SCALE));
+  },
+  read: (reader) => ({ x: reader.i16() / POSITION_SCALE, y: reader.i16() / POSITION_SCALE }),
+};
+
+const velocity: FieldCodec<Vector2D> = {
+  write: (writer, value) => {
+    writer.i16(Math.round(value.x * VELOCITY_SCALE));
+    writer.i16(Math.round(value.y * VELOCITY_SCALE));
+  },
+  read: (reader) => ({ x: reader.i16() / VELOCITY_SCALE, y: reader.i16() / VELOCITY_SCALE }),
+};
+
+const angle: FieldCodec<number> = {
+  write: (writer, value) => {
+    const turns = value / (2 * Math.PI);
+    writer.u16(Math.round((turns - Math.floor(turns)) * ANGLE_STEPS) % ANGLE_STEPS);
+  },
+  read: (reader) => (reader.u16() / ANGLE_STEPS) * 2 * Math.PI,
+};
+
+const spin: FieldCodec<number> = {
+  write: (writer, value) => writer.i16(Math.round(value * SPIN_SCALE)),
+  read: (reader) => reader.i16() / SPIN_SCALE,
+};
+
+// Only sent when a bullet or mine appears, so the full id costs little
+const playerRef: FieldCodec<string> = text;
+
+function oneOf<T extends string>(values: readonly T[]): FieldCodec<T> {
+  return {
+    write: (writer, value) => {
+      const index = values.indexOf(value);
+      if (index === -1) throw new Error(`Can't encode "${value}" in a binary snapshot`);
+      writer.u8(index);
+    },
+    read: (reader) => {
+      const index = reader.u8();
+      if (index >= values.length) throw new Error(`Unknown value ${index} in a binary snapshot`);
+      return values[index];
+    },
+  };
+}
+
+function listOf<T>(schema: Schema<T>): FieldCodec<T[]> {
+  return {
+    write: (writer, value, ids) => {
+      writer.varint(value.length);
+      for (const item of value) writeFields(writer, schema, item, ids);
+    },
+    read: (reader, ids) => {
+      const count = reader.varint();
+      const items: T[] = [];
+      for (let i = 0; i < count; i++) items.push(readFields(reader, schema, {}, ids));
+      return items;
+    },
+  };
+}
+
+const EFFECT_SCHEMA: Schema<ActivePowerUpEffect> = {
+  type: oneOf(POWER_UP_TYPES),
+  expiresAt: time,
+  splitShotActive: FLAG,
+  ammoBoostActive: FLAG,
+  speedBoostActive: FLAG,
+  rapidFireActive: FLAG,
+  ghostModeActive: FLAG,
+  megaBulletsRemaining: integer,
+  reverseControlsActive: FLAG,
+};
+
+type EntityKey = 'players' | 'bullets' | 'powerUps' | 'mines' | 'asteroids';
+type EntityOf<K extends EntityKey> = NonNullable<SerializedGameState[K]>[number];
+type EntityLists = { [K in EntityKey]: Array<EntityOf<K>> };
+
+const ENTITY_SCHEMAS: { [K in EntityKey]: Schema<EntityOf<K>> } = {
+  players: {
+    name: text,
+    position,
+    velocity,
+    rotation: angle,
+    color: text,
+    score: integer,
+    ammo: integer,
+    isAlive: FLAG,
+    isConnected: FLAG,
+    isBot: FLAG,
+    team: nullableInteger,
+    lives: nullableInteger,
+    activePowerUps: listOf(EFFECT_SCHEMA),
+    shieldHits: integer,
+    dashCharges: integer,
+    minesAvailable: integer,
+  },
+  bullets: {
+    playerId: playerRef,
+    position,
+    velocity,
+    spawnTime: time,
+    isMega: FLAG,
+  },
+  powerUps: {
+    type: oneOf(POWER_UP_TYPES),
+    position,
+    spawnTime: time,
+  },
+  mines: {
+    playerId: playerRef,
+    position,
+    spawnTime: time,
+  },
+  asteroids: {
+    size: oneOf(ASTEROID_SIZES),
+    position,
+    velocity,
+    rotation: angle,
+    spin,
+    health: integer,
+  },
+};
+
+// Order of the lists on the wire. Players carry their real id, the rest only a handle.
+const ENTITY_KEYS: EntityKey[] = ['players', 'bullets', 'powerUps', 'mines', 'asteroids'];
+const NAMED_ENTITIES: EntityKey = 'players';
+
+/**
+ * Numbers the entity ids of one room's stream and encodes its snapshots. One encoder
+ * serves every binary client of the room, so a handle means the same entity for all.
+ */
+export class SnapshotEncoder {
+  private handles: Map<string, { handle: number; usedAt: number }> = new Map();
+  private nextHandle = 1;
+  private tick = 0;
+  private lastPruneTick = 0;
+
+  private ids: IdEncoder = {
+    handle: (id) => {
+      let entry = this.handles.get(id);
+      if (!entry) {
+        entry = { handle: this.nextHandle++, usedAt: this.tick };
+        this.handles.set(id, entry);
+      }
+      entry.usedAt = this.tick;
+      return entry.handle;
+    },
+  };
+
+  encode(snapshot: StateSnapshot): ArrayBuffer {
+    this.tick = snapshot.tick;
+    const writer = new ByteWriter();
+    writer.u8(BINARY_SNAPSHOT_VERSION);
+
+    if (snapshot.baseTick === null) {
+      writer.u8(KEYFRAME);
+      writer.varint(snapshot.tick);
+      const { players, bullets, powerUps, mines, asteroids, ...fields } = snapshot.state;
+      const lists: EntityLists = { players, bullets, powerUps, mines, asteroids };
+      for (const key of ENTITY_KEYS) {
+        writeRecords(writer, key, lists[key], key === NAMED_ENTITIES, this.ids);
+      }
+      writer.string(JSON.stringify(fields));
+    } else {
+      writer.u8(DELTA);
+      writer.varint(snapshot.tick);
+      writer.varint(snapshot.tick - snapshot.baseTick);
+      this.writeDelta(writer, snapshot.delta);
+    }
+
+    this.prune();
+    return writer.finish();
+  }
+
+  private writeDelta(writer: ByteWriter, delta: SnapshotDelta): void {
+    let sections = delta.fields ? FIELDS_SECTION : 0;
+    ENTITY_KEYS.forEach((key, index) => {
+      if (delta[key]) sections |= 1 << index;
+    });
+    writer.u8(sections);
+
+    for (const key of ENTITY_KEYS) {
+      const entities = delta[key];
+      if (!entities) continue;
+      writeRecords(writer, key, entities.added ?? [], key === NAMED_ENTITIES, this.ids);
+      writeRecords(writer, key, entities.changed ?? [], false, this.ids);
+      const removed = entities.removed ?? [];
+      writer.varint(removed.length);
+      for (const id of removed) writer.varint(this.ids.handle(id));
+    }
+    if (delta.fields) {
+      writer.string(JSON.stringify(delta.fields));
+    }
+  }
+
+  private prune(): void {
+    if (this.tick - this.lastPruneTick < ID_RETENTION_TICKS) return;
+    this.lastPruneTick = this.tick;
+    for (const [id, entry] of this.handles) {
+      if (this.tick - entry.usedAt > ID_RETENTION_TICKS) this.handles.delete(id);
+    }
+  }
+}
+
+/**
+ * Turns binary snapshots back into StateSnapshots. Remembers the players' ids between
+ * messages, so use one decoder per connection and reset it when reconnecting.
+ */
+export class SnapshotDecoder {
+  private names: Map<number, string> = new Map(); // handle -> player id
+
+  private ids: IdDecoder = {
+    id: (handle) => this.names.get(handle) ?? String(handle),
+    name: (handle, id) => {
+      this.names.set(handle, id);
+    },
+  };
+
+  reset(): void {
+    this.names.clear();
+  }
+
+  decode(data: ArrayBuffer | Uint8Array): StateSnapshot {
+    const reader = new ByteReader(data instanceof Uint8Array ? data : new Uint8Array(data));
+    const version = reader.u8();
+    if (version !== BINARY_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported binary snapshot version ${version}`);
+    }
+
+    const kind = reader.u8();
+    const tick = reader.varint();
+    if (kind === KEYFRAME) {
+      const lists: EntityLists = {
+        players: readRecords(reader, 'players', true, this.ids),
+        bullets: readRecords(reader, 'bullets', false, this.ids),
+        powerUps: readRecords(reader, 'powerUps', false, this.ids),
+        mines: readRecords(reader, 'mines', false, this.ids),
+        asteroids: readRecords(reader, 'asteroids', false, this.ids),
+      };
+      const fields: Omit<SerializedGameState, EntityKey> = JSON.parse(reader.string());
+      return { tick, baseTick: null, state: { ...fields, ...lists } };
+    }
+    if (kind !== DELTA) {
+      throw new Error(`Unknown binary snapshot kind ${kind}`);
+    }
+
+    const baseTick = tick - reader.varint();
+    const sections = reader.u8();
+    const readSection = <K extends EntityKey>(key: K): EntityDelta<EntityOf<K>> | undefined => {
+      if (!(sections & (1 << ENTITY_KEYS.indexOf(key)))) return undefined;
+      return this.readEntityDelta(reader, key);
+    };
+    const delta: SnapshotDelta = {
+      players: readSection('players'),
+      bullets: readSection('bullets'),
+      powerUps: readSection('powerUps'),
+      mines: readSection('mines'),
+      asteroids: readSection('asteroids'),
+    };
+    if (sections & FIELDS_SECTION) {
+      delta.fields = JSON.parse(reader.string());
+    }
+
+    return { tick, baseTick, delta };
+  }
+
+  private readEntityDelta<K extends EntityKey>(reader: ByteReader, key: K): EntityDelta<EntityOf<K>> {
+    const entities: EntityDelta<EntityOf<K>> = {};
+    const added = readRecords(reader, key, key === NAMED_ENTITIES, this.ids);
+    const changed = readRecords(reader, key, false, this.ids);
+    const removed: string[] = [];
+    const removedCount = reader.varint();
+    for (let i = 0; i < removedCount; i++) removed.push(this.ids.id(reader.varint()));
+
+    if (added.length > 0) entities.added = added;
+    if (changed.length > 0) entities.changed = changed;
+    if (removed.length > 0) entities.removed = removed;
+    return entities;
+  }
+}
+
+function writeRecords<K extends EntityKey>(
+  writer: ByteWriter,
+  key: K,
+  entities: Array<Partial<EntityOf<K>> & { id: string }>,
+  named: boolean,
+  ids: IdEncoder
+): void {
+  writer.varint(entities.length);
+  for (const entity of entities) {
+    writer.varint(ids.handle(entity.id));
+    if (named) writer.string(entity.id);
+    writeFields(writer, ENTITY_SCHEMAS[key], entity, ids);
+  }
+}
+
+/**
+ * Records in full or as patches: the mask tells which fields came, the caller knows which it expects
+ */
+function readRecords<K extends EntityKey>(reader: ByteReader, key: K, named: boolean, ids: IdDecoder): Array<EntityOf<K>> {
+  const count = reader.varint();
+  const entities: Array<EntityOf<K>> = [];
+  for (let i = 0; i < count; i++) {
+    const handle = reader.varint();
+    if (named) ids.name(handle, reader.string());
+    entities.push(readFields(reader, ENTITY_SCHEMAS[key], { id: ids.id(handle) }, ids));
+  }
+  return entities;
+}
+
+/**
+ * Bitmask of the fields present, the boolean ones packed, then the others in order.
+ * Keys outside the schema don't make it: add them here and bump the version.
+ */
+function writeFields<T>(writer: ByteWriter, schema: Schema<T>, object: Partial<T>, ids: IdEncoder): void {
+  const fields = schemaFields(schema);
+  const values: Partial<Record<string, unknown>> = object;
+  let mask = 0;
+  let flags = 0;
+  let flagCount = 0;
+  fields.forEach(([key, codec], index) => {
+    const value = values[key];
+    if (value === undefined) return;
+    mask |= 1 << index;
+    if (codec === FLAG) {
+      if (value) flags |= 1 << flagCount;
+      flagCount++;
+    }
+  });
+
+  writer.varint(mask);
+  if (flagCount > 0) writer.varint(flags);
+  fields.forEach(([key, codec], index) => {
+    if (codec !== FLAG && mask & (1 << index)) codec.write(writer, values[key], ids);
+  });
+}
+
+function readFields<T>(reader: ByteReader, schema: Schema<T>, object: Record<string, unknown>, ids: IdDecoder): T {
+  const fields = schemaFields(schema);
+  const mask = reader.varint();
+  const hasFlags = fields.some(([, codec], index) => codec === FLAG && mask & (1 << index));
+  const flags = hasFlags ? reader.varint() : 0;
+
+  let flagIndex = 0;
+  fields.forEach(([key, codec], index) => {
+    if (!(mask & (1 << index))) return;
+    if (codec === FLAG) {
+      object[key] = (flags & (1 << flagIndex++)) !== 0;
+    } else {
+      object[key] = codec.read(reader, ids);
+    }
+  });
+  // The schema covers every field of T, and the mask says which ones this record has
+  return object as T;
+}
+
+/**
+ * The fields of a schema in wire order, their value types erased for the generic record code
+ */
+function schemaFields<T>(schema: Schema<T>): Array<[string, FieldCodec<unknown> | typeof FLAG]> {
+  return Object.entries<FieldCodec<unknown> | typeof FLAG>(schema);
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function unzigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
+
+// Shared has no DOM typings (TextEncoder), names and the JSON fields are short anyway
+function encodeUtf8(value: string): number[] {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return bytes;
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i++];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte < 0xf0) {
+      code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    }
+    result += String.fromCodePoint(code);
+  }
+  return result;
+}
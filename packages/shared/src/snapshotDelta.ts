@@ -0,0 +1,154 @@
+import type { EntityDelta, SerializedGameState, SnapshotDelta } from './types.js';
+
+const ENTITY_KEYS = new Set<string>(['players', 'bullets', 'powerUps', 'mines', 'asteroids']);
+// The player fields that change every tick, without the simulation marking the player dirty
+const PLAYER_MOTION_FIELDS = ['position', 'velocity', 'rotation'];
+
+/**
+ * Changes that turn the base snapshot into the next one: entities by id, field by field,
+ * and the other top-level fields whole. Players for which isPlayerDirty is false only had
+ * their motion change since the base, their other fields are not compared.
+ */
+export function diffSnapshots(
+  base: SerializedGameState,
+  next: SerializedGameState,
+  isPlayerDirty: (playerId: string) => boolean = () => true
+): SnapshotDelta {
+  const delta: SnapshotDelta = {};
+
+  const players = diffEntities(base.players, next.players, id => isPlayerDirty(id) ? null : PLAYER_MOTION_FIELDS);
+  if (players) delta.players = players;
+  const bullets = diffEntities(base.bullets, next.bullets);
+  if (bullets) delta.bullets = bullets;
+  const powerUps = diffEntities(base.powerUps, next.powerUps);
+  if (powerUps) delta.powerUps = powerUps;
+  const mines = diffEntities(base.mines, next.mines);
+  if (mines) delta.mines = mines;
+  const asteroids = diffEntities(base.asteroids, next.asteroids);
+  if (asteroids) delta.asteroids = asteroids;
+
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(next)) {
+    if (!ENTITY_KEYS.has(key) && !sameValue(base[key as keyof SerializedGameState], value)) {
+      fields[key] = value;
+    }
+  }
+  if (Object.keys(fields).length > 0) {
+    delta.fields = fields as SnapshotDelta['fields'];
+  }
+
+  return delta;
+}
+
+/**
+ * The snapshot a delta was made for. The base is left untouched, unchanged entities are shared with it.
+ */
+export function applySnapshotDelta(base: SerializedGameState, delta: SnapshotDelta): SerializedGameState {
+  return {
+    ...base,
+    ...delta.fields,
+    players: applyEntityDelta(base.players, delta.players),
+    bullets: applyEntityDelta(base.bullets, delta.bullets),
+    powerUps: applyEntityDelta(base.powerUps, delta.powerUps),
+    mines: applyEntityDelta(base.mines, delta.mines),
+    asteroids: applyEntityDelta(base.asteroids, delta.asteroids),
+  };
+}
+
+function diffEntities<T extends { id: string }>(
+  base: T[],
+  next: T[],
+  fieldsToCompare: (id: string) => string[] | null = () => null // null: all of them
+): EntityDelta<T> | undefined {
+  const previous = new Map(base.map(entity => [entity.id, entity]));
+  const added: T[] = [];
+  const changed: Array<Partial<T> & { id: string }> = [];
+
+  for (const entity of next) {
+    const old = previous.get(entity.id);
+    previous.delete(entity.id);
+    if (!old) {
+      added.push(entity);
+      continue;
+    }
+
+    const patch: Record<string, unknown> = {};
+    let lostField = false;
+    const keys = fieldsToCompare(entity.id) ?? new Set([...Object.keys(old), ...Object.keys(entity)]);
+    for (const key of keys) {
+      const value = entity[key as keyof T];
+      if (sameValue(old[key as keyof T], value)) continue;
+      // A patch can't clear a field (undefined is dropped on the wire), resend the entity
+      if (value === undefined) {
+        lostField = true;
+        break;
+      }
+      patch[key] = value;
+    }
+
+    if (lostField) {
+      added.push(entity);
+    } else if (Object.keys(patch).length > 0) {
+      changed.push({ ...(patch as Partial<T>), id: entity.id });
+    }
+  }
+
+  const removed = Array.from(previous.keys());
+  if (added.length === 0 && changed.length === 0 && removed.length === 0) return undefined;
+
+  const delta: EntityDelta<T> = {};
+  if (added.length > 0) delta.added = added;
+  if (changed.length > 0) delta.changed = changed;
+  if (removed.length > 0) delta.removed = removed;
+  return delta;
+}
+
+function applyEntityDelta<T extends { id: string }>(entities: T[], delta: EntityDelta<T> | undefined): T[] {
+  if (!delta) return entities;
+
+  const removed = new Set(delta.removed);
+  const changed = new Map(delta.changed?.map(patch => [patch.id, patch]));
+  const added = new Map(delta.added?.map(entity => [entity.id, entity]));
+  const result: T[] = [];
+
+  // Keep the order: replaced entities stay in place, new ones go last
+  for (const entity of entities) {
+    if (removed.has(entity.id)) continue;
+
+    const replacement = added.get(entity.id);
+    if (replacement) {
+      added.delete(entity.id);
+      result.push(replacement);
+      continue;
+    }
+    const patch = changed.get(entity.id);
+    result.push(patch ? { ...entity, ...patch } : entity);
+  }
+  result.push(...added.values());
+
+  return result;
+}
+
+/**
+ * Equal as they would arrive on the wire (plain data: numbers, strings, arrays, objects,
+ * where an undefined field is the same as a missing one)
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, i) => sameValue(item, b[i]));
+  }
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  for (const key of Object.keys(left)) {
+    if (!sameValue(left[key], right[key])) return false;
+  }
+  for (const key of Object.keys(right)) {
+    if (!(key in left) && right[key] !== undefined) return false;
+  }
+  return true;
+}
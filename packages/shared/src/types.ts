@@ -13,21 +13,100 @@ export interface Vector2D {
 // Map Types
 // ========================================
 
-export interface Block {
+export interface GridPosition {
   gridX: number; // X position in grid
   gridY: number; // Y position in grid
 }
 
+// SOLID: stops ships and bullets. GLASS: stops ships, bullets fly through.
+// DESTRUCTIBLE: breaks when shot. BOUNCY: throws ships back faster and ricochets bullets.
+export type TileKind = 'SOLID' | 'GLASS' | 'DESTRUCTIBLE' | 'BOUNCY';
+
+export interface Block extends GridPosition {
+  kind?: TileKind; // SOLID when missing
+  health?: number; // DESTRUCTIBLE only: hits left
+}
+
+// Two linked pads: a ship entering one comes out of the other at the same velocity
+export interface TeleporterPair {
+  channel: string; // Map character shared by both pads
+  pads: [GridPosition, GridPosition];
+  bullets: boolean; // Wormholes carry bullets too
+}
+
+// A destructible block was damaged (health 0: destroyed)
+export interface BlockUpdate extends GridPosition {
+  health: number;
+}
+
+export type WindDirection = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
+
+export interface WindCell extends GridPosition {
+  direction: WindDirection;
+}
+
+// Forces a map applies to whatever flies through it
+export interface MapEnvironment {
+  gravityWells: GridPosition[]; // Pull ships and bullets toward the cell center
+  windCells: WindCell[]; // Push ships in a direction
+  nebulaCells: GridPosition[]; // Slow ships down (more friction)
+}
+
 export interface MapMetadata {
   name: string;
   author: string;
   width: number;  // Grid width in blocks
   height: number; // Grid height in blocks
+  maxAsteroids?: number; // Overrides the match setting on this map (header option asteroids=N)
 }
 
 export interface MapData {
   metadata: MapMetadata;
   blocks: Block[];
+  spawnPoints: GridPosition[]; // Empty: ships spawn anywhere clear of walls
+  powerUpPads: GridPosition[]; // Empty: power-ups spawn anywhere clear of walls
+  teleporters: TeleporterPair[];
+  environment: MapEnvironment;
+}
+
+// Static map data for displays (mapSync, recordings)
+export interface MapSyncData {
+  blocks: Block[];
+  metadata?: MapMetadata;
+  powerUpPads?: GridPosition[];
+  teleporters?: TeleporterPair[];
+  environment?: MapEnvironment;
+}
+
+// ORDERED: in the listed order. SHUFFLE: every map once per pass in random order. WEIGHTED: random, by weight.
+export type PlaylistOrder = 'ORDERED' | 'SHUFFLE' | 'WEIGHTED';
+
+export interface Playlist {
+  name: string;
+  order: PlaylistOrder;
+  maps: Array<{ map: string; weight: number }>; // map = file name without .map.txt
+}
+
+// Catalog entry shown in the lobby
+export interface MapSummary extends MapMetadata {
+  id: string; // File name without .map.txt
+  thumbnail: string; // URL path of the SVG preview, changes with the map
+}
+
+// Public listing for the landing page: the full catalog stays behind the map API token
+export type MapPreview = Pick<MapSummary, 'id' | 'name' | 'thumbnail'>;
+
+export interface MapVoteCandidate extends MapSummary {
+  votes: number;
+}
+
+// Map choice for the next round, sent to the whole room when it changes
+export interface MapLobbyState {
+  maps: MapSummary[];
+  playlists: string[];
+  playlist: string; // Active playlist
+  nextMap: string | null; // Picked by the host, overrides the vote and the playlist
+  vote: MapVoteCandidate[] | null; // Open between rounds
 }
 
 export interface Player {
@@ -40,6 +119,10 @@ export interface Player {
   score: number;
   ammo: number;
   isAlive: boolean;
+  isConnected: boolean; // false while the controller is away (ship is frozen until it resumes)
+  isBot: boolean; // Server-controlled AI player
+  team: number | null; // Team index in team modes, null in free-for-all
+  lives: number | null; // Lives left in elimination rounds, null in frag races
   isThrustActive: boolean; // whether player is currently thrusting
   turnStartTime: number; // timestamp when rotation started (for acceleration)
   lastReloadTime: number; // timestamp of last ammo reload
@@ -60,21 +143,81 @@ export interface Bullet {
   isMega: boolean; // Is this a mega bullet?
 }
 
+// LARGE asteroids split into MEDIUM ones, MEDIUM into SMALL, SMALL ones just break
+export type AsteroidSize = 'LARGE' | 'MEDIUM' | 'SMALL';
+
+export interface Asteroid {
+  id: string;
+  size: AsteroidSize;
+  position: Vector2D;
+  velocity: Vector2D;
+  rotation: number; // radians
+  spin: number; // radians per tick
+  health: number; // Bullet hits left before it breaks
+}
+
 export type GamePhase = 'WAITING' | 'PLAYING' | 'ENDED';
 
+export type BotDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
 export interface GameState {
   players: Map<string, Player>;
   bullets: Bullet[];
   powerUps: PowerUp[];
   mines: Mine[];
+  asteroids: Asteroid[];
   blocks: Block[]; // Current map blocks
+  spawnPoints: GridPosition[]; // From the current map
+  powerUpPads: GridPosition[]; // From the current map
+  teleporters: TeleporterPair[]; // From the current map
+  environment: MapEnvironment; // From the current map
   mapWidth: number; // Map grid width (for dynamic block sizing)
   mapHeight: number; // Map grid height (for dynamic block sizing)
+  mapMaxAsteroids: number | null; // From the current map header, null: the match setting applies
   recentPickups: PowerUpPickup[]; // Recent power-up pickups for notifications
   roundEndTime: number | null; // timestamp when round ends
   isRoundActive: boolean;
   phase: GamePhase; // Current game phase
   hostPlayerId: string | null; // First player who can start the game
+  modeConfig: GameModeConfig; // Chosen by the host in the lobby
+  settings: GameSettings; // Match rules, tuned by the host in the lobby
+  isSuddenDeath: boolean; // Elimination round outlasted its timer: everyone is on their last life
+}
+
+export type GameMode = 'FREE_FOR_ALL' | 'TEAM_DEATHMATCH';
+
+// Per-match rules. Defaults come from the constants, limits from GAME_SETTINGS_LIMITS.
+export interface GameSettings {
+  roundDuration: number; // ms
+  clipSize: number; // Ammo charges
+  reloadTime: number; // ms per charge
+  maxSpeed: number;
+  powerUpSpawnInterval: number; // ms
+  respawnDelay: number; // ms
+  asteroidSpawnInterval: number; // ms
+  maxAsteroids: number; // 0 turns asteroids off (maps can override it)
+  asteroidScore: number; // Points for breaking an asteroid
+}
+
+// FRAGS: most kills when the timer runs out. ELIMINATION: last ship (or team) with lives left.
+export type WinCondition = 'FRAGS' | 'ELIMINATION';
+
+// What happens when a bullet or mine hits a teammate
+export type FriendlyFireMode = 'OFF' | 'ON' | 'PENALTY'; // PENALTY: teamkills cost the shooter a point
+
+export interface GameModeConfig {
+  mode: GameMode;
+  teamCount: number; // Used in team modes only
+  friendlyFire: FriendlyFireMode;
+  winCondition: WinCondition;
+  lives: number; // Lives per player, used in elimination only
+}
+
+export interface TeamScore {
+  team: number;
+  name: string;
+  color: string;
+  score: number; // Sum of the members' scores
 }
 
 // Import Mine and PowerUp from PowerUpTypes
@@ -99,30 +242,56 @@ export enum InputAction {
   DASH = "DASH",
 }
 
+// The sender is identified by its socket on the server, never by the payload
 export interface InputEvent {
-  playerId: string;
   action: InputAction;
   timestamp: number;
 }
 
+// Result of a controller trying to join a room
+export type JoinGameResponse =
+  | { success: true; playerId: string; roomCode: string; sessionToken: string }
+  | { success: false; error: string };
+
+// Result of a spectator trying to watch a room
+export type SpectateResponse =
+  | { success: true; roomCode: string }
+  | { success: false; error: string };
+
 // Client -> Server events
 export interface ClientToServerEvents {
-  joinGame: (playerName: string, callback: (playerId: string) => void) => void;
+  createRoom: (roomCode: string | null, callback: (roomCode: string) => void) => void; // Display opens a room (or re-attaches to an existing one)
+  joinGame: (roomCode: string, playerName: string, callback: (response: JoinGameResponse) => void) => void;
+  resumeSession: (sessionToken: string, callback: (response: JoinGameResponse) => void) => void; // Rebind an existing player to a new socket
+  joinSpectator: (roomCode: string, reducedRate: boolean, callback: (response: SpectateResponse) => void) => void; // Watch a room without taking a player slot
+  promoteSpectator: (playerName: string, callback: (response: JoinGameResponse) => void) => void; // Spectator becomes a player (between rounds), resumed from a controller
   input: (event: InputEvent) => void;
+  ackSnapshot: (tick: number | null) => void; // Display or spectator applied this snapshot (null: it lost its baseline and needs a keyframe)
   startGame: () => void; // Host starts the game
+  addBot: (difficulty: BotDifficulty) => void; // Host adds an AI player (lobby only)
+  removeBot: () => void; // Host removes the most recently added AI player (lobby only)
+  setGameMode: (config: GameModeConfig) => void; // Host picks mode, teams and friendly fire (lobby only)
+  setGameSettings: (settings: GameSettings) => void; // Host tunes the match rules between rounds
+  setPlaylist: (name: string) => void; // Host picks the map rotation (lobby only)
+  setNextMap: (mapId: string | null) => void; // Host picks the next map, null goes back to the rotation (lobby only)
+  voteMap: (mapId: string) => void; // Any player votes for one of the candidates between rounds
   playAgain: () => void; // Any player requests new round
   disconnect: () => void;
 }
 
 // Server -> Client events
 export interface ServerToClientEvents {
-  gameState: (state: SerializedGameState) => void;
+  snapshot: (snapshot: StateSnapshot) => void; // Game state for displays and spectators, answered with ackSnapshot
+  snapshotBinary: (data: ArrayBuffer) => void; // The same snapshots in the binary encoding, for clients that asked for it
   playerState: (state: PlayerSpecificState) => void; // Optimized single player update
-  mapSync: (data: { blocks: Block[], metadata?: MapMetadata }) => void; // Static map data for displays
+  mapSync: (data: MapSyncData) => void; // Static map data for displays
+  blockUpdates: (updates: BlockUpdate[]) => void; // Blocks damaged or destroyed since the last tick, to displays
   playerJoined: (playerId: string, playerName: string) => void;
   playerLeft: (playerId: string) => void;
   roundStart: (endTime: number) => void;
-  roundEnd: (winner: { id: string; name: string; score: number } | null) => void;
+  roundEnd: (winner: { id: string; name: string; score: number } | null, teams: TeamScore[]) => void; // teams is empty in free-for-all
+  spectatorCount: (count: number) => void; // Sent to the room when spectators come and go
+  mapLobby: (state: MapLobbyState) => void; // Map catalog, rotation and vote
 }
 
 // Serialized version of GameState for network transmission
@@ -137,6 +306,10 @@ export interface SerializedGameState {
     score: number;
     ammo: number;
     isAlive: boolean;
+    isConnected: boolean;
+    isBot: boolean;
+    team: number | null;
+    lives: number | null;
     activePowerUps: ActivePowerUpEffect[];
     shieldHits?: number;
     dashCharges?: number;
@@ -145,12 +318,73 @@ export interface SerializedGameState {
   bullets: Bullet[];
   powerUps: PowerUp[];
   mines: Mine[];
+  asteroids: Asteroid[];
   blocks?: Block[]; // Optional - sent separately via mapSync for displays
   recentPickups: PowerUpPickup[];
   roundEndTime: number | null;
   isRoundActive: boolean;
   phase: GamePhase;
   hostPlayerId: string | null;
+  modeConfig: GameModeConfig;
+  settings: GameSettings;
+  teams: TeamScore[]; // Empty in free-for-all
+  isSuddenDeath: boolean;
+}
+
+export type SerializedPlayer = SerializedGameState['players'][number];
+
+// Changes to one entity list since the baseline
+export interface EntityDelta<T extends { id: string }> {
+  added?: T[]; // New entities, and ones that lost a field, in full
+  changed?: Array<Partial<T> & { id: string }>; // Only the fields that changed
+  removed?: string[];
+}
+
+export interface SnapshotDelta {
+  players?: EntityDelta<SerializedPlayer>;
+  bullets?: EntityDelta<Bullet>;
+  powerUps?: EntityDelta<PowerUp>;
+  mines?: EntityDelta<Mine>;
+  asteroids?: EntityDelta<Asteroid>;
+  fields?: Partial<Omit<SerializedGameState, 'players' | 'bullets' | 'powerUps' | 'mines' | 'asteroids'>>; // Other fields that changed, whole
+}
+
+// Numbered state update: a keyframe, or the changes since a tick the display acknowledged
+export type StateSnapshot =
+  | { tick: number; baseTick: null; state: SerializedGameState }
+  | { tick: number; baseTick: number; delta: SnapshotDelta };
+
+// Encoding of the snapshot stream, picked by the client's `protocol` handshake query
+export type SnapshotFormat = 'json' | 'binary';
+
+// Round recorded on the server for replays
+// A full snapshot (keyframe), or the changes since the previous frame.
+// Time is simulation time, the same clock as roundEndTime.
+export type MatchRecordingFrame =
+  | { time: number; state: SerializedGameState }
+  | { time: number; delta: SnapshotDelta };
+
+export interface MatchRecording {
+  version: number;
+  id: string;
+  roomCode: string;
+  startedAt: number; // Simulation time when the round started
+  endedAt: number;
+  map: MapSyncData;
+  frames: MatchRecordingFrame[];
+  blockUpdates?: Array<{ time: number; updates: BlockUpdate[] }>; // Missing in recordings without destructible blocks
+  winner: { id: string; name: string; score: number } | null;
+}
+
+// Entry of the recorded match list (GET /api/recordings)
+export interface MatchSummary {
+  id: string;
+  roomCode: string;
+  mapName: string;
+  startedAt: number;
+  duration: number; // ms
+  players: Array<{ name: string; color: string; score: number; isBot: boolean }>;
+  winner: { id: string; name: string; score: number } | null;
 }
 
 // Optimized state for individual controllers
@@ -168,4 +402,9 @@ export interface PlayerSpecificState {
   phase: GamePhase;
   roundEndTime: number | null;
   hostPlayerId: string | null;
+  botCount: number;
+  team: number | null;
+  lives: number | null; // 0 = out of the round, spectating
+  modeConfig: GameModeConfig;
+  settings: GameSettings;
 }
@@ -0,0 +1,224 @@
+import type { Asteroid, AsteroidSize, Bullet, GameState, Player } from '@astroparty/shared';
+import {
+  ASTEROID_CONFIGS,
+  ASTEROID_SPAWN_CLEARANCE,
+  ASTEROID_SPLIT_ANGLE,
+  BLOCK_SIZE,
+  BULLET_RADIUS,
+  GRID_WIDTH,
+  GRID_HEIGHT,
+  RESTITUTION,
+  SHIP_MAX_RADIUS,
+  SHIP_MASS,
+  PowerUpType,
+} from '@astroparty/shared';
+import type { PhysicsEngine } from './PhysicsEngine.js';
+import type { PowerUpManager } from './PowerUpManager.js';
+import type { Clock } from './Clock.js';
+import type { Random } from './Random.js';
+import { randomAngle } from './Random.js';
+
+const MAX_SPIN = 0.02; // radians per tick
+
+/**
+ * Neutral asteroids: they drift and wrap like ships, bounce ships and walls,
+ * and break into smaller pieces when shot, scoring the shooter
+ */
+export class AsteroidManager {
+  private gameState: GameState;
+  private physicsEngine: PhysicsEngine;
+  private powerUpManager: PowerUpManager;
+  private clock: Clock;
+  private random: Random;
+  private lastSpawnTime = 0;
+  private nextAsteroidId = 1;
+
+  constructor(
+    gameState: GameState,
+    physicsEngine: PhysicsEngine,
+    powerUpManager: PowerUpManager,
+    clock: Clock,
+    random: Random,
+    private onPlayerDirty?: (playerId: string) => void
+  ) {
+    this.gameState = gameState;
+    this.physicsEngine = physicsEngine;
+    this.powerUpManager = powerUpManager;
+    this.clock = clock;
+    this.random = random;
+  }
+
+  update(): void {
+    this.updateSpawning();
+    this.moveAsteroids();
+    this.checkBulletCollisions();
+    this.checkShipCollisions();
+  }
+
+  clearAllAsteroids(): void {
+    this.gameState.asteroids = [];
+    this.lastSpawnTime = this.clock.now(); // Reset spawn timer
+  }
+
+  /**
+   * Asteroids allowed at once on the current map (its header option wins over the match setting)
+   */
+  private getMaxAsteroids(): number {
+    return this.gameState.mapMaxAsteroids ?? this.gameState.settings.maxAsteroids;
+  }
+
+  private updateSpawning(): void {
+    const now = this.clock.now();
+
+    if (
+      this.gameState.isRoundActive &&
+      this.gameState.asteroids.length < this.getMaxAsteroids() &&
+      now - this.lastSpawnTime >= this.gameState.settings.asteroidSpawnInterval
+    ) {
+      const position = this.findSpawnPosition(ASTEROID_CONFIGS.LARGE.radius);
+      if (position) {
+        this.createAsteroid('LARGE', position, randomAngle(this.random));
+      }
+      this.lastSpawnTime = now;
+    }
+  }
+
+  private createAsteroid(size: AsteroidSize, position: { x: number; y: number }, heading: number): void {
+    const config = ASTEROID_CONFIGS[size];
+    this.gameState.asteroids.push({
+      id: `asteroid-${this.nextAsteroidId++}`,
+      size,
+      position: { x: position.x, y: position.y },
+      velocity: { x: Math.cos(heading) * config.speed, y: Math.sin(heading) * config.speed },
+      rotation: randomAngle(this.random),
+      spin: (this.random.next() * 2 - 1) * MAX_SPIN,
+      health: config.health,
+    });
+  }
+
+  private moveAsteroids(): void {
+    const worldWidth = (this.gameState.mapWidth || GRID_WIDTH) * BLOCK_SIZE;
+    const worldHeight = (this.gameState.mapHeight || GRID_HEIGHT) * BLOCK_SIZE;
+
+    for (const asteroid of this.gameState.asteroids) {
+      const { radius } = ASTEROID_CONFIGS[asteroid.size];
+      // Walls turn asteroids around instead of stopping them
+      if (!this.physicsEngine.reflectOffWalls(asteroid.position, asteroid.velocity, radius)) {
+        asteroid.position.x += asteroid.velocity.x;
+        asteroid.position.y += asteroid.velocity.y;
+      }
+      asteroid.rotation += asteroid.spin;
+
+      // Screen wrapping
+      if (asteroid.position.x < 0) asteroid.position.x += worldWidth;
+      if (asteroid.position.x > worldWidth) asteroid.position.x -= worldWidth;
+      if (asteroid.position.y < 0) asteroid.position.y += worldHeight;
+      if (asteroid.position.y > worldHeight) asteroid.position.y -= worldHeight;
+    }
+  }
+
+  private checkBulletCollisions(): void {
+    for (let i = this.gameState.bullets.length - 1; i >= 0; i--) {
+      const bullet = this.gameState.bullets[i];
+
+      const asteroid = this.gameState.asteroids.find(asteroid => {
+        const dx = bullet.position.x - asteroid.position.x;
+        const dy = bullet.position.y - asteroid.position.y;
+        const reach = ASTEROID_CONFIGS[asteroid.size].radius + BULLET_RADIUS;
+        return dx * dx + dy * dy < reach * reach;
+      });
+      if (!asteroid) continue;
+
+      // Big asteroids absorb a few hits before they break
+      this.gameState.bullets.splice(i, 1);
+      asteroid.health = bullet.isMega ? 0 : asteroid.health - 1;
+      if (asteroid.health <= 0) {
+        this.breakAsteroid(asteroid, bullet);
+      }
+    }
+  }
+
+  private breakAsteroid(asteroid: Asteroid, bullet: Bullet): void {
+    const config = ASTEROID_CONFIGS[asteroid.size];
+    this.gameState.asteroids = this.gameState.asteroids.filter(a => a !== asteroid);
+
+    const shooter = this.gameState.players.get(bullet.playerId);
+    if (shooter && this.gameState.settings.asteroidScore > 0) {
+      shooter.score += this.gameState.settings.asteroidScore;
+      this.onPlayerDirty?.(shooter.id);
+    }
+
+    // Pieces fly apart on both sides of the asteroid's path
+    if (config.splitInto) {
+      const heading = Math.atan2(asteroid.velocity.y, asteroid.velocity.x);
+      const spread = (ASTEROID_SPLIT_ANGLE * Math.PI) / 180;
+      this.createAsteroid(config.splitInto, asteroid.position, heading - spread);
+      this.createAsteroid(config.splitInto, asteroid.position, heading + spread);
+    }
+
+    if (this.random.next() < config.powerUpDropChance) {
+      this.powerUpManager.dropPowerUp(asteroid.position);
+    }
+  }
+
+  /**
+   * Ships bounce off asteroids, which get a (smaller) push back
+   */
+  private checkShipCollisions(): void {
+    for (const player of this.gameState.players.values()) {
+      if (!player.isAlive || !player.isConnected) continue;
+      // Ghost ships fly through asteroids as through other ships
+      if (player.activePowerUps.some(e => e.type === PowerUpType.GHOST_MODE)) continue;
+
+      for (const asteroid of this.gameState.asteroids) {
+        const dx = asteroid.position.x - player.position.x;
+        const dy = asteroid.position.y - player.position.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const minDistance = ASTEROID_CONFIGS[asteroid.size].radius + SHIP_MAX_RADIUS;
+        if (distance >= minDistance || distance === 0) continue;
+
+        this.resolveCollision(player, asteroid, dx / distance, dy / distance, minDistance - distance);
+      }
+    }
+  }
+
+  private resolveCollision(player: Player, asteroid: Asteroid, nx: number, ny: number, overlap: number): void {
+    // Push the ship out, the asteroid keeps its course
+    player.position.x -= nx * overlap;
+    player.position.y -= ny * overlap;
+
+    // Relative velocity in collision normal direction
+    const dvn = (asteroid.velocity.x - player.velocity.x) * nx + (asteroid.velocity.y - player.velocity.y) * ny;
+    // Do not resolve if already separating
+    if (dvn > 0) return;
+
+    const asteroidMass = ASTEROID_CONFIGS[asteroid.size].mass;
+    const impulse = (-(1 + RESTITUTION) * dvn) / (1 / SHIP_MASS + 1 / asteroidMass);
+    player.velocity.x -= (impulse / SHIP_MASS) * nx;
+    player.velocity.y -= (impulse / SHIP_MASS) * ny;
+    asteroid.velocity.x += (impulse / asteroidMass) * nx;
+    asteroid.velocity.y += (impulse / asteroidMass) * ny;
+  }
+
+  /**
+   * Random position clear of walls and away from every ship (null if none was found)
+   */
+  private findSpawnPosition(radius: number): { x: number; y: number } | null {
+    const worldWidth = (this.gameState.mapWidth || GRID_WIDTH) * BLOCK_SIZE;
+    const worldHeight = (this.gameState.mapHeight || GRID_HEIGHT) * BLOCK_SIZE;
+    const maxAttempts = 50;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const x = this.random.next() * worldWidth;
+      const y = this.random.next() * worldHeight;
+      if (this.physicsEngine.isPositionInsideWall(x, y, radius)) continue;
+
+      const nearShip = Array.from(this.gameState.players.values()).some(player =>
+        player.isAlive &&
+        Math.hypot(player.position.x - x, player.position.y - y) < ASTEROID_SPAWN_CLEARANCE
+      );
+      if (!nearShip) return { x, y };
+    }
+    return null;
+  }
+}
@@ -0,0 +1,297 @@
+import type { GameState, Player, BotDifficulty, Vector2D } from '@astroparty/shared';
+import {
+  InputAction,
+  BULLET_SPEED,
+  SHIP_MAX_RADIUS,
+  GAME_FPS,
+} from '@astroparty/shared';
+import type { PhysicsEngine } from './PhysicsEngine.js';
+import type { Random } from './Random.js';
+import type { TeamManager } from './TeamManager.js';
+
+interface BotDifficultyConfig {
+  decisionInterval: number; // Ticks between re-picking targets and re-rolling aim error
+  aimError: number; // Max random aim offset in radians
+  aimTolerance: number; // How close to the target angle counts as "aimed"
+  fireRate: number; // Average shots per second while aimed at an enemy
+  fireRange: number; // Pixels
+  wallLookahead: number; // Pixels checked ahead of the ship before thrusting
+  chasePowerUps: boolean;
+  leadsTarget: boolean; // Aim where the enemy will be, not where it is
+  usesSpecials: boolean; // Places mines and dashes
+}
+
+const BOT_DIFFICULTY_CONFIGS: Record<BotDifficulty, BotDifficultyConfig> = {
+  EASY: {
+    decisionInterval: 30,
+    aimError: 0.35,
+    aimTolerance: 0.25,
+    fireRate: 0.75,
+    fireRange: 450,
+    wallLookahead: 60,
+    chasePowerUps: false,
+    leadsTarget: false,
+    usesSpecials: false,
+  },
+  MEDIUM: {
+    decisionInterval: 15,
+    aimError: 0.15,
+    aimTolerance: 0.15,
+    fireRate: 1.5,
+    fireRange: 650,
+    wallLookahead: 90,
+    chasePowerUps: true,
+    leadsTarget: false,
+    usesSpecials: true,
+  },
+  HARD: {
+    decisionInterval: 6,
+    aimError: 0.04,
+    aimTolerance: 0.08,
+    fireRate: 4,
+    fireRange: 900,
+    wallLookahead: 120,
+    chasePowerUps: true,
+    leadsTarget: true,
+    usesSpecials: true,
+  },
+};
+
+const BOT_NAMES = ['Orbit', 'Nova', 'Quasar', 'Pulsar', 'Comet', 'Nebula', 'Meteor', 'Zenith', 'Vega', 'Sirius'];
+
+const MINE_DROP_DISTANCE = 120; // Drop a mine when an enemy is this close behind
+const DASH_MIN_DISTANCE = 400; // Dash towards targets further than this
+
+interface BotBrain {
+  difficulty: BotDifficulty;
+  isThrusting: boolean; // Last thrust state sent through the input pipeline
+  target: Vector2D | null;
+  targetIsEnemy: boolean;
+  aimOffset: number;
+  ticksUntilDecision: number;
+}
+
+/**
+ * Drives AI players. Bots only act through InputAction events,
+ * exactly like a controller would.
+ */
+export class BotController {
+  private gameState: GameState;
+  private physicsEngine: PhysicsEngine;
+  private teams: TeamManager;
+  private random: Random;
+  private sendInput: (playerId: string, action: InputAction) => void;
+  private brains: Map<string, BotBrain> = new Map();
+
+  constructor(
+    gameState: GameState,
+    physicsEngine: PhysicsEngine,
+    teams: TeamManager,
+    random: Random,
+    sendInput: (playerId: string, action: InputAction) => void
+  ) {
+    this.gameState = gameState;
+    this.physicsEngine = physicsEngine;
+    this.teams = teams;
+    this.random = random;
+    this.sendInput = sendInput;
+  }
+
+  static isValidDifficulty(difficulty: unknown): difficulty is BotDifficulty {
+    return typeof difficulty === 'string' && difficulty in BOT_DIFFICULTY_CONFIGS;
+  }
+
+  static getBotName(index: number, difficulty: BotDifficulty): string {
+    const name = BOT_NAMES[index % BOT_NAMES.length];
+    return `${name} (${difficulty.toLowerCase()})`;
+  }
+
+  addBot(playerId: string, difficulty: BotDifficulty): void {
+    this.brains.set(playerId, {
+      difficulty,
+      isThrusting: false,
+      target: null,
+      targetIsEnemy: false,
+      aimOffset: 0,
+      ticksUntilDecision: 0,
+    });
+  }
+
+  removeBot(playerId: string): void {
+    this.brains.delete(playerId);
+  }
+
+  getBotIds(): string[] {
+    return Array.from(this.brains.keys());
+  }
+
+  update(): void {
+    if (this.gameState.phase !== 'PLAYING') return;
+
+    for (const [playerId, brain] of this.brains) {
+      const player = this.gameState.players.get(playerId);
+      if (!player) continue;
+
+      if (!player.isAlive) {
+        // Respawned ships start without thrust
+        brain.isThrusting = false;
+        continue;
+      }
+
+      this.think(player, brain);
+    }
+  }
+
+  private think(player: Player, brain: BotBrain): void {
+    const config = BOT_DIFFICULTY_CONFIGS[brain.difficulty];
+
+    brain.ticksUntilDecision--;
+    if (brain.ticksUntilDecision <= 0) {
+      brain.ticksUntilDecision = config.decisionInterval;
+      brain.aimOffset = (this.random.next() * 2 - 1) * config.aimError;
+      this.pickTarget(player, brain, config);
+
+      if (config.usesSpecials) {
+        this.useSpecials(player, brain);
+      }
+    }
+
+    const facing = { x: Math.cos(player.rotation), y: Math.sin(player.rotation) };
+    const pathBlocked = this.isBlockedAhead(player, facing, config.wallLookahead);
+
+    // No target: cruise around and keep away from walls
+    if (!brain.target) {
+      this.setThrust(player.id, brain, !pathBlocked);
+      return;
+    }
+
+    const dx = brain.target.x - player.position.x;
+    const dy = brain.target.y - player.position.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    const desiredAngle = Math.atan2(dy, dx) + brain.aimOffset;
+
+    // Ships only turn clockwise (rotation grows) while not thrusting,
+    // so measure how far clockwise the target angle is
+    const clockwiseDiff = this.normalizeAngle(desiredAngle - player.rotation);
+    const isAimed = clockwiseDiff < config.aimTolerance || clockwiseDiff > Math.PI * 2 - config.aimTolerance;
+
+    if (!isAimed) {
+      // Release thrust to rotate towards the target
+      this.setThrust(player.id, brain, false);
+      return;
+    }
+
+    // Aimed: thrusting holds the heading, so keep thrusting while shooting
+    if (brain.targetIsEnemy && distance < config.fireRange && player.ammo > 0) {
+      if (this.random.next() < config.fireRate / GAME_FPS && this.hasLineOfSight(player.position, brain.target)) {
+        this.sendInput(player.id, InputAction.FIRE);
+      }
+    }
+
+    this.setThrust(player.id, brain, !pathBlocked);
+  }
+
+  private pickTarget(player: Player, brain: BotBrain, config: BotDifficultyConfig): void {
+    let bestTarget: Vector2D | null = null;
+    let bestDistance = Infinity;
+    let isEnemy = false;
+
+    for (const other of this.gameState.players.values()) {
+      if (other.id === player.id || !other.isAlive || !other.isConnected) continue;
+      if (this.teams.areTeammates(player, other)) continue;
+
+      const distance = this.distance(player.position, other.position);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        isEnemy = true;
+        bestTarget = config.leadsTarget
+          ? {
+              x: other.position.x + other.velocity.x * (distance / BULLET_SPEED),
+              y: other.position.y + other.velocity.y * (distance / BULLET_SPEED),
+            }
+          : { x: other.position.x, y: other.position.y };
+      }
+    }
+
+    if (config.chasePowerUps) {
+      for (const powerUp of this.gameState.powerUps) {
+        // Power-ups are worth a detour: prefer them over enemies up to twice as close
+        const distance = this.distance(player.position, powerUp.position) * 0.5;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          isEnemy = false;
+          bestTarget = { x: powerUp.position.x, y: powerUp.position.y };
+        }
+      }
+    }
+
+    brain.target = bestTarget;
+    brain.targetIsEnemy = isEnemy;
+  }
+
+  private useSpecials(player: Player, brain: BotBrain): void {
+    // Drop a mine when an enemy is right behind
+    if (player.minesAvailable && player.minesAvailable > 0) {
+      for (const other of this.gameState.players.values()) {
+        if (other.id === player.id || !other.isAlive || this.teams.areTeammates(player, other)) continue;
+        if (this.distance(player.position, other.position) < MINE_DROP_DISTANCE) {
+          this.sendInput(player.id, InputAction.PLACE_MINE);
+          break;
+        }
+      }
+    }
+
+    // Dash towards far away targets when the landing spot is clear
+    if (player.dashCharges && player.dashCharges > 0 && brain.target && brain.isThrusting) {
+      const distance = this.distance(player.position, brain.target);
+      if (distance > DASH_MIN_DISTANCE) {
+        this.sendInput(player.id, InputAction.DASH);
+      }
+    }
+  }
+
+  private setThrust(playerId: string, brain: BotBrain, thrust: boolean): void {
+    if (brain.isThrusting === thrust) return;
+
+    brain.isThrusting = thrust;
+    this.sendInput(playerId, thrust ? InputAction.THRUST_START : InputAction.THRUST_STOP);
+  }
+
+  private isBlockedAhead(player: Player, facing: Vector2D, lookahead: number): boolean {
+    // Check both where the nose points and where momentum carries the ship
+    const momentumTicks = GAME_FPS / 3;
+    const points = [
+      { x: player.position.x + facing.x * lookahead, y: player.position.y + facing.y * lookahead },
+      { x: player.position.x + player.velocity.x * momentumTicks, y: player.position.y + player.velocity.y * momentumTicks },
+    ];
+
+    return points.some(p => this.physicsEngine.isPositionInsideWall(p.x, p.y, SHIP_MAX_RADIUS));
+  }
+
+  private hasLineOfSight(from: Vector2D, to: Vector2D): boolean {
+    const steps = Math.ceil(this.distance(from, to) / (SHIP_MAX_RADIUS * 2));
+    for (let i = 1; i < steps; i++) {
+      const t = i / steps;
+      const x = from.x + (to.x - from.x) * t;
+      const y = from.y + (to.y - from.y) * t;
+      if (this.physicsEngine.isBulletBlocked(x, y)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private distance(a: Vector2D, b: Vector2D): number {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+
+  /**
+   * Normalize angle to [0, 2π)
+   */
+  private normalizeAngle(angle: number): number {
+    const fullTurn = Math.PI * 2;
+    return ((angle % fullTurn) + fullTurn) % fullTurn;
+  }
+}
@@ -0,0 +1,43 @@
+import { GAME_FPS } from '@astroparty/shared';
+
+/**
+ * Source of simulation time (milliseconds)
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Clock driven by simulation ticks instead of wall time.
+ * Time only moves when the simulation steps, so runs are reproducible.
+ */
+export class TickClock implements Clock {
+  private startTime: number;
+  private readonly tickDuration: number;
+  private tick = 0;
+
+  constructor(startTime: number = 0, tickDuration: number = 1000 / GAME_FPS) {
+    this.startTime = startTime;
+    this.tickDuration = tickDuration;
+  }
+
+  now(): number {
+    return this.startTime + this.tick * this.tickDuration;
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  advance(): void {
+    this.tick++;
+  }
+
+  /**
+   * Jump to the given time without stepping (the tick count is unchanged).
+   * Used by real-time runners that drop ticks they cannot catch up on.
+   */
+  skipTo(time: number): void {
+    this.startTime = Math.max(this.startTime, time - this.tick * this.tickDuration);
+  }
+}
@@ -0,0 +1,69 @@
+import type { GameState, Player } from '@astroparty/shared';
+
+/**
+ * Lives and the last-ship-standing win condition of elimination rounds
+ */
+export class EliminationManager {
+  private gameState: GameState;
+
+  constructor(gameState: GameState) {
+    this.gameState = gameState;
+  }
+
+  isElimination(): boolean {
+    return this.gameState.modeConfig.winCondition === 'ELIMINATION';
+  }
+
+  /**
+   * Give a player the configured lives (none to track in frag races)
+   */
+  resetLives(player: Player): void {
+    player.lives = this.isElimination() ? this.gameState.modeConfig.lives : null;
+  }
+
+  /**
+   * Take a life after a death. Returns false if the player is out of the round.
+   */
+  loseLife(player: Player): boolean {
+    if (player.lives === null) return true;
+
+    player.lives = Math.max(0, player.lives - 1);
+    return player.lives > 0;
+  }
+
+  /**
+   * Keep a player out until the next round (joined an elimination round late)
+   */
+  sitOut(player: Player): void {
+    player.lives = 0;
+    player.isAlive = false;
+  }
+
+  /**
+   * Players with lives left, including ships waiting to respawn
+   */
+  getSurvivors(): Player[] {
+    return Array.from(this.gameState.players.values()).filter(p => p.lives === null || p.lives > 0);
+  }
+
+  /**
+   * Ships still in the round in free-for-all, teams in team modes
+   */
+  countSidesStanding(): number {
+    const sides = new Set<string>();
+    for (const player of this.getSurvivors()) {
+      sides.add(player.team !== null ? `team:${player.team}` : player.id);
+    }
+    return sides.size;
+  }
+
+  /**
+   * The timer ran out: everyone still standing is down to their last life
+   */
+  startSuddenDeath(): void {
+    this.gameState.isSuddenDeath = true;
+    for (const player of this.getSurvivors()) {
+      player.lives = 1;
+    }
+  }
+}
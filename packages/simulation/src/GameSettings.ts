@@ -0,0 +1,53 @@
+import type { GameSettings } from '@astroparty/shared';
+import {
+  AMMO_CLIP_SIZE,
+  AMMO_RELOAD_TIME,
+  MAX_SPEED,
+  POWERUP_SPAWN_INTERVAL,
+  RESPAWN_DELAY,
+  ASTEROID_SPAWN_INTERVAL,
+  MAX_ASTEROIDS_ON_MAP,
+  ASTEROID_SCORE,
+  GAME_SETTINGS_LIMITS,
+} from '@astroparty/shared';
+import { z } from 'zod';
+
+const limit = (key: keyof typeof GAME_SETTINGS_LIMITS) =>
+  z.number().min(GAME_SETTINGS_LIMITS[key].min).max(GAME_SETTINGS_LIMITS[key].max);
+
+const GameSettingsSchema = z.object({
+  roundDuration: limit('roundDuration').int(),
+  clipSize: limit('clipSize').int(),
+  reloadTime: limit('reloadTime').int(),
+  maxSpeed: limit('maxSpeed'),
+  powerUpSpawnInterval: limit('powerUpSpawnInterval').int(),
+  respawnDelay: limit('respawnDelay').int(),
+  asteroidSpawnInterval: limit('asteroidSpawnInterval').int(),
+  maxAsteroids: limit('maxAsteroids').int(),
+  asteroidScore: limit('asteroidScore').int(),
+});
+
+/**
+ * Settings of a new match: the game constants, with the server's round duration
+ */
+export function createDefaultSettings(roundDuration: number): GameSettings {
+  return {
+    roundDuration,
+    clipSize: AMMO_CLIP_SIZE,
+    reloadTime: AMMO_RELOAD_TIME,
+    maxSpeed: MAX_SPEED,
+    powerUpSpawnInterval: POWERUP_SPAWN_INTERVAL,
+    respawnDelay: RESPAWN_DELAY,
+    asteroidSpawnInterval: ASTEROID_SPAWN_INTERVAL,
+    maxAsteroids: MAX_ASTEROIDS_ON_MAP,
+    asteroidScore: ASTEROID_SCORE,
+  };
+}
+
+/**
+ * Validate untrusted settings from a controller. Returns null if they are malformed or out of range.
+ */
+export function parseGameSettings(settings: unknown): GameSettings | null {
+  const result = GameSettingsSchema.safeParse(settings);
+  return result.success ? result.data : null;
+}
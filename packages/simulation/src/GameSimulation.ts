@@ -0,0 +1,668 @@
+import type {
+  Player,
+  GameState,
+  InputEvent,
+  MapData,
+  MapMetadata,
+  BotDifficulty,
+  TeamScore,
+  BlockUpdate,
+} from '@astroparty/shared';
+import {
+  MAX_PLAYERS,
+  PLAYER_COLORS,
+  GRID_WIDTH,
+  GRID_HEIGHT,
+} from '@astroparty/shared';
+import { PhysicsEngine } from './PhysicsEngine.js';
+import { InputHandler } from './InputHandler.js';
+import { PowerUpManager } from './PowerUpManager.js';
+import { AsteroidManager } from './AsteroidManager.js';
+import { BotController } from './BotController.js';
+import { TickScheduler } from './TickScheduler.js';
+import { TeamManager, DEFAULT_GAME_MODE_CONFIG } from './TeamManager.js';
+import { EliminationManager } from './EliminationManager.js';
+import { createDefaultSettings, parseGameSettings } from './GameSettings.js';
+import type { TickClock } from './Clock.js';
+import type { Random } from './Random.js';
+import { randomAngle } from './Random.js';
+
+export type RoundWinner = { id: string; name: string; score: number } | null;
+
+/**
+ * Notifications from the simulation to whoever runs it (network layer, recorder, tests)
+ */
+export interface SimulationListener {
+  onPlayerDirty?(playerId: string): void;
+  onAllPlayersDirty?(): void;
+  onPlayerJoined?(playerId: string, playerName: string): void;
+  onPlayerLeft?(playerId: string): void;
+  onRoundStart?(endTime: number): void;
+  onRoundEnd?(winner: RoundWinner, teams: TeamScore[]): void;
+  onMapChanged?(): void;
+  onBlockUpdate?(update: BlockUpdate): void;
+}
+
+export interface SimulationOptions {
+  clock: TickClock; // Advanced once per step
+  random: Random; // Seeded RNG for spawns, power-ups and bots
+  roundDuration: number; // Default round duration of new matches
+  selectMap: () => MapData | null; // Called when a round starts, null keeps the round from starting
+  listener?: SimulationListener;
+  label?: string; // Prefix for log lines
+}
+
+interface QueuedInput {
+  playerId: string;
+  event: InputEvent;
+}
+
+/**
+ * Tick-driven game core. Owns the game state and all game systems and
+ * never touches the network or wall time, so it can be stepped headlessly
+ * and reproduces the same run for the same seed and inputs.
+ */
+export class GameSimulation {
+  private gameState: GameState;
+  private clock: TickClock;
+  private random: Random;
+  private scheduler: TickScheduler;
+  private physicsEngine: PhysicsEngine;
+  private inputHandler: InputHandler;
+  private powerUpManager: PowerUpManager;
+  private asteroidManager: AsteroidManager;
+  private botController: BotController;
+  private teams: TeamManager;
+  private elimination: EliminationManager;
+  private sidesAtRoundStart = 0; // Ships (or teams) that entered the current elimination round
+  private botCounter = 0;
+  private selectMap: () => MapData | null;
+  private listener: SimulationListener;
+  private label: string;
+  private pendingInputs: QueuedInput[] = [];
+  private currentMapMetadata?: MapMetadata;
+
+  constructor(options: SimulationOptions) {
+    this.clock = options.clock;
+    this.random = options.random;
+    this.selectMap = options.selectMap;
+    this.listener = options.listener ?? {};
+    this.label = options.label ?? 'GameSimulation';
+
+    this.gameState = {
+      players: new Map(),
+      bullets: [],
+      powerUps: [],
+      mines: [],
+      asteroids: [],
+      blocks: [], // Will be loaded from map
+      spawnPoints: [],
+      powerUpPads: [],
+      teleporters: [],
+      environment: { gravityWells: [], windCells: [], nebulaCells: [] },
+      mapWidth: GRID_WIDTH,
+      mapHeight: GRID_HEIGHT,
+      mapMaxAsteroids: null,
+      recentPickups: [],
+      roundEndTime: null,
+      isRoundActive: false,
+      phase: 'WAITING',
+      hostPlayerId: null,
+      modeConfig: { ...DEFAULT_GAME_MODE_CONFIG },
+      isSuddenDeath: false,
+      settings: createDefaultSettings(options.roundDuration),
+    };
+
+    const markDirty = (id: string) => this.listener.onPlayerDirty?.(id);
+    this.scheduler = new TickScheduler();
+    this.teams = new TeamManager(this.gameState);
+    this.elimination = new EliminationManager(this.gameState);
+    this.physicsEngine = new PhysicsEngine(
+      this.gameState,
+      this.clock,
+      this.random,
+      this.scheduler,
+      this.teams,
+      this.elimination,
+      markDirty,
+      (update) => this.listener.onBlockUpdate?.(update)
+    );
+    this.powerUpManager = new PowerUpManager(
+      this.gameState,
+      this.physicsEngine,
+      this.clock,
+      this.random,
+      this.teams,
+      markDirty
+    );
+    this.asteroidManager = new AsteroidManager(
+      this.gameState,
+      this.physicsEngine,
+      this.powerUpManager,
+      this.clock,
+      this.random,
+      markDirty
+    );
+    this.inputHandler = new InputHandler(this.gameState, this.powerUpManager, this.clock, markDirty);
+    // Bots go through the same input pipeline as controllers
+    this.botController = new BotController(this.gameState, this.physicsEngine, this.teams, this.random, (id, action) => {
+      this.inputHandler.handleInput(id, { action, timestamp: this.clock.now() });
+    });
+  }
+
+  getState(): GameState {
+    return this.gameState;
+  }
+
+  getTeamScores(): TeamScore[] {
+    return this.teams.getTeamScores();
+  }
+
+  getMapMetadata(): MapMetadata | undefined {
+    return this.currentMapMetadata;
+  }
+
+  getTick(): number {
+    return this.clock.getTick();
+  }
+
+  /**
+   * Current simulation time (ms)
+   */
+  now(): number {
+    return this.clock.now();
+  }
+
+  /**
+   * Advance the simulation by one tick
+   */
+  step(): void {
+    this.clock.advance();
+
+    // Apply inputs received since the last tick, in arrival order
+    const inputs = this.pendingInputs;
+    this.pendingInputs = [];
+    for (const { playerId, event } of inputs) {
+      this.inputHandler.handleInput(playerId, event);
+    }
+
+    // Let bots send their inputs for this tick
+    this.botController.update();
+
+    // Update physics
+    this.physicsEngine.update();
+
+    // Update power-ups
+    this.powerUpManager.update();
+
+    // Move asteroids, break the ones that were shot
+    this.asteroidManager.update();
+
+    // Run due timers (respawns)
+    this.scheduler.update();
+
+    // Handle ammo reload
+    this.updateAmmo();
+
+    // Clean up old pickup notifications (keep for 3 seconds)
+    const now = this.clock.now();
+    this.gameState.recentPickups = this.gameState.recentPickups.filter(
+      pickup => now - pickup.timestamp < 3000
+    );
+
+    // Check if round should end
+    if (this.gameState.isRoundActive) {
+      if (this.elimination.isElimination()) {
+        this.updateElimination(now);
+      } else if (this.gameState.roundEndTime && now >= this.gameState.roundEndTime) {
+        this.endRound();
+      }
+    }
+  }
+
+  /**
+   * Validate an untrusted input and queue it for the next tick.
+   * Returns false if the event was malformed.
+   */
+  queueInput(playerId: string, event: unknown): boolean {
+    const input = InputHandler.parseInput(event);
+    if (!input) {
+      console.warn(`[${this.label}] Invalid input event from ${playerId}`);
+      return false;
+    }
+
+    this.pendingInputs.push({ playerId, event: input });
+    return true;
+  }
+
+  addPlayer(playerId: string, playerName: string, isBot: boolean = false): boolean {
+    // Bots only fill empty slots: a human joining a full room replaces one
+    if (this.gameState.players.size >= MAX_PLAYERS && !isBot) {
+      const botIds = this.botController.getBotIds();
+      if (botIds.length > 0) {
+        this.removePlayer(botIds[botIds.length - 1]);
+      }
+    }
+
+    if (this.gameState.players.size >= MAX_PLAYERS) {
+      console.warn(`[${this.label}] Cannot add player ${playerId}: max players reached`);
+      return false;
+    }
+
+    const colorIndex = this.gameState.players.size % PLAYER_COLORS.length;
+    const spawnPosition = this.physicsEngine.getSpawnPosition();
+    const now = this.clock.now();
+
+    const player: Player = {
+      id: playerId,
+      name: playerName,
+      position: spawnPosition,
+      velocity: { x: 0, y: 0 },
+      rotation: randomAngle(this.random), // Random initial direction
+      color: PLAYER_COLORS[colorIndex],
+      score: 0,
+      ammo: this.gameState.settings.clipSize,
+      isAlive: true,
+      isConnected: true,
+      isBot,
+      team: null,
+      lives: null,
+      isThrustActive: false,
+      turnStartTime: now,
+      lastReloadTime: now,
+      activePowerUps: [],
+    };
+
+    this.gameState.players.set(playerId, player);
+    this.teams.assignTeam(player);
+    this.elimination.resetLives(player);
+    // Joining an elimination round in progress: wait for the next one
+    if (this.gameState.isRoundActive && this.elimination.isElimination()) {
+      this.elimination.sitOut(player);
+    }
+
+    // Set first human player as host
+    if (this.gameState.hostPlayerId === null && !isBot) {
+      this.gameState.hostPlayerId = playerId;
+      console.log(`[${this.label}] First player joined. Host set to: ${playerId}`);
+    } else {
+      console.log(`[${this.label}] Player joined. Current host: ${this.gameState.hostPlayerId}, new player: ${playerId}`);
+    }
+
+    this.listener.onPlayerJoined?.(playerId, playerName);
+
+    // Initial state sync for the new player
+    this.listener.onPlayerDirty?.(playerId);
+
+    // Don't auto-start anymore - wait for host to click start
+    return true;
+  }
+
+  removePlayer(playerId: string): void {
+    // Check if host left
+    const wasHost = this.gameState.hostPlayerId === playerId;
+
+    this.gameState.players.delete(playerId);
+    this.botController.removeBot(playerId);
+    this.pendingInputs = this.pendingInputs.filter(input => input.playerId !== playerId);
+
+    // Clear any pending respawn timers
+    this.physicsEngine.clearRespawnTimer(playerId);
+
+    // Remove bullets from this player
+    this.gameState.bullets = this.gameState.bullets.filter(b => b.playerId !== playerId);
+
+    // Remove mines from this player
+    this.gameState.mines = this.gameState.mines.filter(m => m.playerId !== playerId);
+
+    // Reassign host if needed
+    if (wasHost) {
+      const remainingPlayers = Array.from(this.gameState.players.values()).filter(p => !p.isBot);
+      if (remainingPlayers.length > 0) {
+        this.gameState.hostPlayerId = remainingPlayers[0].id;
+        console.log(`[${this.label}] Host left. New host assigned: ${this.gameState.hostPlayerId}`);
+      } else {
+        this.gameState.hostPlayerId = null;
+      }
+      // Notify everyone about new host
+      this.listener.onAllPlayersDirty?.();
+    }
+
+    this.listener.onPlayerLeft?.(playerId);
+
+    // End round if no players left
+    if (this.gameState.players.size === 0 && this.gameState.isRoundActive) {
+      this.endRound();
+    }
+  }
+
+  /**
+   * Freeze a player while their controller is away, or unfreeze on resume.
+   * Score, color and host status are kept either way.
+   */
+  setPlayerConnected(playerId: string, connected: boolean): void {
+    const player = this.gameState.players.get(playerId);
+    if (!player) return;
+
+    player.isConnected = connected;
+    player.isThrustActive = false;
+    player.velocity = { x: 0, y: 0 };
+    player.turnStartTime = this.clock.now();
+    this.listener.onPlayerDirty?.(playerId);
+  }
+
+  hasPlayer(playerId: string): boolean {
+    return this.gameState.players.has(playerId);
+  }
+
+  /**
+   * Players with a real controller behind them (bots excluded)
+   */
+  getHumanPlayerCount(): number {
+    let count = 0;
+    for (const player of this.gameState.players.values()) {
+      if (!player.isBot) count++;
+    }
+    return count;
+  }
+
+  getBotCount(): number {
+    return this.botController.getBotIds().length;
+  }
+
+  /**
+   * Add an AI player (host only, outside of a running round)
+   */
+  addBot(requesterId: string, difficulty: BotDifficulty): boolean {
+    if (!this.canManageBots(requesterId)) return false;
+    if (!BotController.isValidDifficulty(difficulty)) {
+      console.warn(`[${this.label}] Invalid bot difficulty from ${requesterId}: ${difficulty}`);
+      return false;
+    }
+    if (this.gameState.players.size >= MAX_PLAYERS) {
+      console.warn(`[${this.label}] Cannot add bot: max players reached`);
+      return false;
+    }
+
+    const botId = `bot-${++this.botCounter}`;
+    if (!this.addPlayer(botId, BotController.getBotName(this.botCounter - 1, difficulty), true)) {
+      return false;
+    }
+    this.botController.addBot(botId, difficulty);
+    this.listener.onAllPlayersDirty?.();
+    return true;
+  }
+
+  /**
+   * Remove the most recently added AI player (host only, outside of a running round)
+   */
+  removeBot(requesterId: string): boolean {
+    if (!this.canManageBots(requesterId)) return false;
+
+    const botIds = this.botController.getBotIds();
+    if (botIds.length === 0) return false;
+
+    this.removePlayer(botIds[botIds.length - 1]);
+    this.listener.onAllPlayersDirty?.();
+    return true;
+  }
+
+  private canManageBots(requesterId: string): boolean {
+    if (this.gameState.hostPlayerId !== requesterId) {
+      console.warn(`[${this.label}] Only host can manage bots: ${requesterId} is not host`);
+      return false;
+    }
+    if (this.gameState.phase === 'PLAYING') {
+      console.warn(`[${this.label}] Cannot manage bots during a round`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Switch between free-for-all and team modes and pick the win condition
+   * (host only, outside of a running round). Changing the mode or team count
+   * deals everyone into teams again.
+   */
+  setGameMode(requesterId: string, config: unknown): boolean {
+    if (this.gameState.hostPlayerId !== requesterId) {
+      console.warn(`[${this.label}] Only host can change the game mode: ${requesterId} is not host`);
+      return false;
+    }
+    if (this.gameState.phase === 'PLAYING') {
+      console.warn(`[${this.label}] Cannot change the game mode during a round`);
+      return false;
+    }
+
+    const modeConfig = TeamManager.parseConfig(config);
+    if (!modeConfig) {
+      console.warn(`[${this.label}] Invalid game mode from ${requesterId}`);
+      return false;
+    }
+
+    const previous = this.gameState.modeConfig;
+    this.gameState.modeConfig = modeConfig;
+    if (previous.mode !== modeConfig.mode || previous.teamCount !== modeConfig.teamCount) {
+      this.teams.reassignAll();
+    }
+    for (const player of this.gameState.players.values()) {
+      this.elimination.resetLives(player);
+    }
+    console.log(`[${this.label}] Game mode set to ${modeConfig.mode} (${modeConfig.teamCount} teams, friendly fire ${modeConfig.friendlyFire}, ${modeConfig.winCondition}, ${modeConfig.lives} lives)`);
+
+    this.listener.onAllPlayersDirty?.();
+    return true;
+  }
+
+  /**
+   * Change the match rules (host only, between rounds). They apply from the next round
+   */
+  setGameSettings(requesterId: string, settings: unknown): boolean {
+    if (this.gameState.hostPlayerId !== requesterId) {
+      console.warn(`[${this.label}] Only host can change the settings: ${requesterId} is not host`);
+      return false;
+    }
+    if (this.gameState.phase === 'PLAYING') {
+      console.warn(`[${this.label}] Cannot change the settings during a round`);
+      return false;
+    }
+
+    const parsed = parseGameSettings(settings);
+    if (!parsed) {
+      console.warn(`[${this.label}] Invalid game settings from ${requesterId}`);
+      return false;
+    }
+
+    this.gameState.settings = parsed;
+    console.log(`[${this.label}] Game settings changed: ${JSON.stringify(parsed)}`);
+
+    this.listener.onAllPlayersDirty?.();
+    return true;
+  }
+
+  // Manual game start (called by host)
+  startGame(playerId: string): boolean {
+    console.log(`[${this.label}] startGame called by ${playerId}, host is ${this.gameState.hostPlayerId}, phase is ${this.gameState.phase}`);
+
+    if (this.gameState.phase !== 'WAITING') {
+      console.warn(`[${this.label}] Cannot start game: phase is ${this.gameState.phase}`);
+      return false;
+    }
+
+    if (this.gameState.hostPlayerId !== playerId) {
+      console.warn(`[${this.label}] Only host can start the game: ${playerId} is not host`);
+      return false;
+    }
+
+    if (this.gameState.players.size < 1) {
+      console.warn(`[${this.label}] Cannot start game: need at least 1 player`);
+      return false;
+    }
+
+    const map = this.selectMap();
+    if (!map) {
+      console.warn(`[${this.label}] Cannot start game: no map to play`);
+      return false;
+    }
+
+    this.startRound(map);
+    return true;
+  }
+
+  // Reset game after round ends (called by any player)
+  resetGame(): boolean {
+    if (this.gameState.phase !== 'ENDED') {
+      console.warn(`[${this.label}] Cannot reset game: phase is ${this.gameState.phase}`);
+      return false;
+    }
+
+    // Load the map first: without one the round does not start and the scores stay up
+    const map = this.selectMap();
+    if (!map) {
+      console.warn(`[${this.label}] Cannot reset game: no map to play`);
+      return false;
+    }
+
+    // Reset scores
+    for (const player of this.gameState.players.values()) {
+      player.score = 0;
+    }
+
+    this.startRound(map);
+    return true;
+  }
+
+  private updateAmmo(): void {
+    const now = this.clock.now();
+    for (const player of this.gameState.players.values()) {
+      const maxAmmo = this.powerUpManager.getMaxAmmo(player);
+
+      if (player.ammo < maxAmmo) {
+        // Check if we can reload another charge
+        const timeSinceLastReload = now - player.lastReloadTime;
+        const reloadMultiplier = this.powerUpManager.getReloadMultiplier(player);
+        const reloadTime = this.gameState.settings.reloadTime * reloadMultiplier;
+        if (timeSinceLastReload >= reloadTime) {
+          player.ammo = Math.min(player.ammo + 1, maxAmmo);
+          player.lastReloadTime = now;
+          this.listener.onPlayerDirty?.(player.id);
+        }
+      }
+    }
+  }
+
+  private startRound(map: MapData): void {
+    this.gameState.isRoundActive = true;
+    this.gameState.phase = 'PLAYING';
+    this.gameState.roundEndTime = this.clock.now() + this.gameState.settings.roundDuration;
+    this.gameState.isSuddenDeath = false;
+
+    // Load the map (blocks are copied, destructible ones get damaged)
+    this.gameState.blocks = map.blocks.map(block => ({ ...block }));
+    this.gameState.spawnPoints = map.spawnPoints;
+    this.gameState.powerUpPads = map.powerUpPads;
+    this.gameState.teleporters = map.teleporters;
+    this.gameState.environment = map.environment;
+    this.gameState.mapWidth = map.metadata.width;
+    this.gameState.mapHeight = map.metadata.height;
+    this.gameState.mapMaxAsteroids = map.metadata.maxAsteroids ?? null;
+    this.currentMapMetadata = map.metadata;
+    console.log(`[${this.label}] Starting round with map: ${map.metadata.name} by ${map.metadata.author} (${map.metadata.width}x${map.metadata.height})`);
+
+    // Rebuild spatial grid for optimized collisions
+    this.physicsEngine.rebuildSpatialGrid();
+
+    // Drop respawns left over from the previous round
+    this.scheduler.clear();
+
+    // Ships from the last round must not hold on to spawn points
+    for (const player of this.gameState.players.values()) {
+      player.isAlive = false;
+    }
+
+    // Reset all players
+    for (const player of this.gameState.players.values()) {
+      this.elimination.resetLives(player);
+      player.position = this.physicsEngine.getSpawnPosition();
+      player.isAlive = true;
+      player.velocity = { x: 0, y: 0 };
+      player.rotation = randomAngle(this.random);
+      player.ammo = this.gameState.settings.clipSize;
+      player.isThrustActive = false;
+      player.activePowerUps = [];
+      player.shieldHits = undefined;
+      player.dashCharges = undefined;
+      player.minesAvailable = undefined;
+    }
+
+    this.gameState.bullets = [];
+    this.sidesAtRoundStart = this.elimination.countSidesStanding();
+
+    // Clear all power-ups, mines, and pickups
+    this.powerUpManager.clearAllPowerUps();
+    this.asteroidManager.clearAllAsteroids();
+    this.gameState.recentPickups = [];
+
+    this.listener.onRoundStart?.(this.gameState.roundEndTime);
+
+    // Sync new map to all displays
+    this.listener.onMapChanged?.();
+
+    // Force update for everyone
+    this.listener.onAllPlayersDirty?.();
+  }
+
+  private endRound(): void {
+    this.gameState.isRoundActive = false;
+    this.gameState.phase = 'ENDED';
+    this.gameState.roundEndTime = null;
+    this.gameState.isSuddenDeath = false;
+
+    // Find winner (highest score, among the survivors in elimination)
+    const survivors = this.elimination.isElimination() ? this.elimination.getSurvivors() : [];
+    const candidates = survivors.length > 0 ? survivors : Array.from(this.gameState.players.values());
+    let winner: RoundWinner = null;
+    for (const player of candidates) {
+      if (!winner || player.score > winner.score) {
+        winner = {
+          id: player.id,
+          name: player.name,
+          score: player.score,
+        };
+      }
+    }
+
+    this.listener.onRoundEnd?.(winner, this.teams.getTeamScores());
+
+    // Update all clients with new phase
+    this.listener.onAllPlayersDirty?.();
+
+    // Don't auto-restart - wait for playAgain
+  }
+
+  /**
+   * End an elimination round once a single ship (or team) is left. The timer
+   * only starts sudden death. A round started without opponents falls back
+   * to ending on the timer.
+   */
+  private updateElimination(now: number): void {
+    if (this.sidesAtRoundStart < 2) {
+      if (this.gameState.roundEndTime && now >= this.gameState.roundEndTime) {
+        this.endRound();
+      }
+      return;
+    }
+
+    if (this.elimination.countSidesStanding() <= 1) {
+      this.endRound();
+      return;
+    }
+
+    if (this.gameState.roundEndTime && now >= this.gameState.roundEndTime) {
+      this.gameState.roundEndTime = null;
+      this.elimination.startSuddenDeath();
+      console.log(`[${this.label}] Time is up: sudden death`);
+      this.listener.onAllPlayersDirty?.();
+    }
+  }
+}
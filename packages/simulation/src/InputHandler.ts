@@ -1,42 +1,53 @@
-import type { GameState, InputEvent, InputAction } from '@astroparty/shared';
+import type { GameState, InputEvent, Player } from '@astroparty/shared';
 import { 
   InputAction as InputActionEnum, 
-  AMMO_CLIP_SIZE, 
   BULLET_SPEED, 
   SHIP_SIZE,
   PowerUpType,
   SPLIT_SHOT_ANGLE,
-  SPLIT_SHOT_COUNT,
   MEGA_BULLET_SPEED_MULTIPLIER,
 } from '@astroparty/shared';
 import { z } from 'zod';
-import type { GameManager } from './GameManager.js';
+import type { PowerUpManager } from './PowerUpManager.js';
+import type { Clock } from './Clock.js';
 
 const InputEventSchema = z.object({
-  playerId: z.string(),
   action: z.nativeEnum(InputActionEnum),
   timestamp: z.number(),
 });
 
 export class InputHandler {
   private gameState: GameState;
-  private gameManager: GameManager;
-
-  constructor(gameState: GameState, gameManager: GameManager) {
+  private powerUpManager: PowerUpManager;
+  private clock: Clock;
+  private nextBulletId = 1;
+
+  constructor(
+    gameState: GameState,
+    powerUpManager: PowerUpManager,
+    clock: Clock,
+    private onPlayerDirty?: (playerId: string) => void
+  ) {
     this.gameState = gameState;
-    this.gameManager = gameManager;
+    this.powerUpManager = powerUpManager;
+    this.clock = clock;
   }
 
-  handleInput(event: InputEvent): void {
-    // Validate input
+  /**
+   * Validate an untrusted input payload. Returns null if it is malformed.
+   */
+  static parseInput(event: unknown): InputEvent | null {
     const result = InputEventSchema.safeParse(event);
-    if (!result.success) {
-      console.warn('Invalid input event:', result.error);
-      return;
-    }
+    return result.success ? result.data : null;
+  }
 
-    const player = this.gameState.players.get(event.playerId);
-    if (!player || !player.isAlive) {
+  /**
+   * Apply a validated input event for a player. The player id comes from
+   * the sending socket's session, not from the event payload.
+   */
+  handleInput(playerId: string, event: InputEvent): void {
+    const player = this.gameState.players.get(playerId);
+    if (!player || !player.isAlive || !player.isConnected) {
       return;
     }
 
@@ -47,19 +58,19 @@ export class InputHandler {
 
     switch (event.action) {
       case InputActionEnum.THRUST_START:
-        this.handleThrustStart(event.playerId);
+        this.handleThrustStart(playerId);
         break;
       case InputActionEnum.THRUST_STOP:
-        this.handleThrustStop(event.playerId);
+        this.handleThrustStop(playerId);
         break;
       case InputActionEnum.FIRE:
-        this.handleFire(event.playerId);
+        this.handleFire(playerId);
         break;
       case InputActionEnum.PLACE_MINE:
-        this.handlePlaceMine(event.playerId);
+        this.handlePlaceMine(playerId);
         break;
       case InputActionEnum.DASH:
-        this.handleDash(event.playerId);
+        this.handleDash(playerId);
         break;
     }
   }
@@ -76,10 +87,10 @@ export class InputHandler {
     if (hasReverseControls) {
       // Reverse: thrust command becomes stop
       player.isThrustActive = false;
-      player.turnStartTime = Date.now();
+      player.turnStartTime = this.clock.now();
     } else {
       player.isThrustActive = true;
-      player.turnStartTime = Date.now();
+      player.turnStartTime = this.clock.now();
     }
   }
 
@@ -95,10 +106,10 @@ export class InputHandler {
     if (hasReverseControls) {
       // Reverse: stop command becomes thrust
       player.isThrustActive = true;
-      player.turnStartTime = Date.now();
+      player.turnStartTime = this.clock.now();
     } else {
       player.isThrustActive = false;
-      player.turnStartTime = Date.now();
+      player.turnStartTime = this.clock.now();
     }
   }
 
@@ -126,17 +137,17 @@ export class InputHandler {
 
     // Consume ammo (only 1 even with split shot)
     player.ammo--;
-    this.gameManager.markPlayerDirty(playerId);
+    this.onPlayerDirty?.(playerId);
     
     // If this was the last bullet, start reload timer
-    if (player.ammo < AMMO_CLIP_SIZE) {
-      player.lastReloadTime = Date.now();
+    if (player.ammo < this.gameState.settings.clipSize) {
+      player.lastReloadTime = this.clock.now();
     }
 
     // Decrement mega bullets if active
     if (isMegaBullet && megaBulletEffect.megaBulletsRemaining) {
       megaBulletEffect.megaBulletsRemaining--;
-      this.gameManager.markPlayerDirty(playerId);
+      this.onPlayerDirty?.(playerId);
     }
 
     if (hasSplitShot) {
@@ -159,7 +170,7 @@ export class InputHandler {
 
   private createBullet(
     playerId: string, 
-    player: any, 
+    player: Player, 
     angle: number, 
     isMega: boolean
   ): void {
@@ -167,7 +178,7 @@ export class InputHandler {
     const speed = isMega ? BULLET_SPEED * MEGA_BULLET_SPEED_MULTIPLIER : BULLET_SPEED;
     
     const bullet = {
-      id: `${playerId}-${Date.now()}-${Math.random()}`,
+      id: `${playerId}-${this.nextBulletId++}`,
       playerId,
       position: {
         x: player.position.x + Math.cos(angle) * bulletOffset,
@@ -177,7 +188,7 @@ export class InputHandler {
         x: player.velocity.x + Math.cos(angle) * speed,
         y: player.velocity.y + Math.sin(angle) * speed,
       },
-      spawnTime: Date.now(),
+      spawnTime: this.clock.now(),
       isMega,
     };
 
@@ -189,7 +200,7 @@ export class InputHandler {
     if (!player) return;
 
     // Attempt to place mine via PowerUpManager
-    this.gameManager.getPowerUpManager().spawnMine(playerId);
+    this.powerUpManager.spawnMine(playerId);
   }
 
   private handleDash(playerId: string): void {
@@ -197,6 +208,6 @@ export class InputHandler {
     if (!player) return;
 
     // Attempt to execute dash via PowerUpManager
-    this.gameManager.getPowerUpManager().executeDash(playerId);
+    this.powerUpManager.executeDash(playerId);
   }
 }
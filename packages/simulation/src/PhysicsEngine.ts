@@ -0,0 +1,764 @@
+import type { GameState, Player, Block, BlockUpdate, GridPosition, Vector2D, WindDirection } from '@astroparty/shared';
+import {
+  ACCELERATION,
+  FRICTION,
+  TURN_SPEED,
+  TURN_SPEED_MAX,
+  TURN_ACCELERATION_TIME,
+  SHIP_MAX_RADIUS,
+  COLLISION_DISTANCE,
+  RESTITUTION,
+  BULLET_LIFETIME,
+  BULLET_RADIUS,
+  PowerUpType,
+  SPEED_BOOST_MULTIPLIER,
+  SPEED_BOOST_ACCELERATION_MULTIPLIER,
+  BLOCK_SIZE,
+  GRID_WIDTH,
+  GRID_HEIGHT,
+  WALL_BOUNCE_DAMPING,
+  BOUNCY_TILE_RESTITUTION,
+  DESTRUCTIBLE_BLOCK_HEALTH,
+  MEGA_BULLET_BLOCK_DAMAGE,
+  TELEPORTER_RADIUS,
+  TELEPORTER_COOLDOWN,
+  GRAVITY_WELL_RADIUS,
+  GRAVITY_WELL_STRENGTH,
+  WIND_FORCE,
+  NEBULA_FRICTION,
+} from '@astroparty/shared';
+import type { Clock } from './Clock.js';
+import type { Random } from './Random.js';
+import { randomAngle, randomInt } from './Random.js';
+import type { TickScheduler } from './TickScheduler.js';
+import { msToTicks } from './TickScheduler.js';
+import type { TeamManager } from './TeamManager.js';
+import type { EliminationManager } from './EliminationManager.js';
+
+// Bullets fly through glass
+const stopsBullets = (block: Block) => block.kind !== 'GLASS';
+
+const WIND_VECTORS: Record<WindDirection, Vector2D> = {
+  UP: { x: 0, y: -1 },
+  DOWN: { x: 0, y: 1 },
+  LEFT: { x: -1, y: 0 },
+  RIGHT: { x: 1, y: 0 },
+};
+
+export class PhysicsEngine {
+  private gameState: GameState;
+  private clock: Clock;
+  private random: Random;
+  private scheduler: TickScheduler; // Respawn timers
+  private teams: TeamManager;
+  private elimination: EliminationManager;
+  private spatialGrid: Map<string, Block[]>; // Spatial hash for fast collision detection
+  private windGrid: Map<string, WindDirection> = new Map(); // "x,y" -> wind of that cell
+  private nebulaGrid: Set<string> = new Set(); // "x,y" of nebula cells
+  private teleportCooldowns: Map<string, number> = new Map(); // 'ship:id' or 'bullet:id' -> time it may teleport again
+
+  constructor(
+    gameState: GameState,
+    clock: Clock,
+    random: Random,
+    scheduler: TickScheduler,
+    teams: TeamManager,
+    elimination: EliminationManager,
+    private onPlayerDirty?: (playerId: string) => void,
+    private onBlockUpdate?: (update: BlockUpdate) => void
+  ) {
+    this.gameState = gameState;
+    this.clock = clock;
+    this.random = random;
+    this.scheduler = scheduler;
+    this.teams = teams;
+    this.elimination = elimination;
+    this.spatialGrid = new Map();
+    this.rebuildSpatialGrid();
+  }
+  
+  /**
+   * Rebuild spatial grid (and the wind and nebula lookups) when map changes
+   * Called by GameManager when loading new map
+   */
+  rebuildSpatialGrid(): void {
+    this.spatialGrid.clear();
+    
+    for (const block of this.gameState.blocks) {
+      const key = `${block.gridX},${block.gridY}`;
+      if (!this.spatialGrid.has(key)) {
+        this.spatialGrid.set(key, []);
+      }
+      this.spatialGrid.get(key)!.push(block);
+    }
+
+    const { windCells, nebulaCells } = this.gameState.environment;
+    this.windGrid = new Map(windCells.map(cell => [`${cell.gridX},${cell.gridY}`, cell.direction]));
+    this.nebulaGrid = new Set(nebulaCells.map(cell => `${cell.gridX},${cell.gridY}`));
+  }
+
+  /**
+   * Damage a destructible block and take it off the map when its health runs out.
+   * Other tiles are indestructible.
+   */
+  damageBlock(block: Block, damage: number): void {
+    if (block.kind !== 'DESTRUCTIBLE') return;
+
+    block.health = Math.max(0, (block.health ?? DESTRUCTIBLE_BLOCK_HEALTH) - damage);
+    if (block.health === 0) {
+      this.removeBlock(block);
+    }
+    this.onBlockUpdate?.({ gridX: block.gridX, gridY: block.gridY, health: block.health });
+  }
+
+  /**
+   * Damage every destructible block a blast of this radius reaches (mine explosions)
+   */
+  damageBlocksInRadius(x: number, y: number, radius: number, damage: number): void {
+    const reached: Block[] = [];
+    this.forEachNearbyBlock(x, y, radius, block => {
+      if (block.kind === 'DESTRUCTIBLE' && this.circleRectCollision(x, y, radius, block)) {
+        reached.push(block);
+      }
+      return false;
+    });
+
+    for (const block of reached) {
+      this.damageBlock(block, damage);
+    }
+  }
+
+  private removeBlock(block: Block): void {
+    this.gameState.blocks = this.gameState.blocks.filter(b => b !== block);
+
+    const key = `${block.gridX},${block.gridY}`;
+    const remaining = this.spatialGrid.get(key)?.filter(b => b !== block) ?? [];
+    if (remaining.length > 0) {
+      this.spatialGrid.set(key, remaining);
+    } else {
+      this.spatialGrid.delete(key);
+    }
+  }
+
+  update(): void {
+    this.updateShips();
+    this.updateBullets();
+    this.updateTeleporters();
+    this.checkCollisions();
+    this.removeDeadBullets();
+  }
+
+  /**
+   * Public method to check if a position would be inside a wall
+   * Used by GameManager for spawn position validation
+   */
+  isPositionInsideWall(x: number, y: number, radius: number): boolean {
+    return this.collidesWithWalls(x, y, radius);
+  }
+
+  /**
+   * Whether a bullet at this position would hit a wall (glass lets bullets through)
+   */
+  isBulletBlocked(x: number, y: number): boolean {
+    return this.findCollidingBlock(x, y, BULLET_RADIUS, stopsBullets) !== null;
+  }
+
+  /**
+   * Reflect the velocity of a drifting body (asteroids) that would move into a wall.
+   * Returns whether it bounced (it must not move this tick).
+   */
+  reflectOffWalls(position: Vector2D, velocity: Vector2D, radius: number): boolean {
+    const newX = position.x + velocity.x;
+    const newY = position.y + velocity.y;
+    const contact = this.findWallContact(newX, newY, radius);
+    if (!contact) return false;
+
+    const { normal } = contact;
+    if (!normal) {
+      // Its center would end up inside the wall: no side to bounce off, go back the way it came
+      velocity.x = -velocity.x;
+      velocity.y = -velocity.y;
+      return true;
+    }
+
+    const dotProduct = velocity.x * normal.x + velocity.y * normal.y;
+    velocity.x -= 2 * dotProduct * normal.x;
+    velocity.y -= 2 * dotProduct * normal.y;
+    return true;
+  }
+
+  private updateShips(): void {
+    for (const player of this.gameState.players.values()) {
+      // Frozen ships (controller reconnecting) are not simulated
+      if (!player.isAlive || !player.isConnected) continue;
+
+      if (player.isThrustActive) {
+        // Check for speed boost
+        const hasSpeedBoost = player.activePowerUps.some(
+          e => e.type === PowerUpType.SPEED_BOOST
+        );
+        
+        const acceleration = hasSpeedBoost 
+          ? ACCELERATION * SPEED_BOOST_ACCELERATION_MULTIPLIER 
+          : ACCELERATION;
+        const maxSpeed = hasSpeedBoost 
+          ? this.gameState.settings.maxSpeed * SPEED_BOOST_MULTIPLIER 
+          : this.gameState.settings.maxSpeed;
+
+        // Apply acceleration in current direction
+        player.velocity.x += Math.cos(player.rotation) * acceleration;
+        player.velocity.y += Math.sin(player.rotation) * acceleration;
+
+        // Clamp to max speed
+        const speed = Math.sqrt(player.velocity.x ** 2 + player.velocity.y ** 2);
+        if (speed > maxSpeed) {
+          player.velocity.x = (player.velocity.x / speed) * maxSpeed;
+          player.velocity.y = (player.velocity.y / speed) * maxSpeed;
+        }
+      } else {
+        // Rotate when not thrusting
+        const timeSinceTurnStart = this.clock.now() - player.turnStartTime;
+        const turnProgress = Math.min(timeSinceTurnStart / TURN_ACCELERATION_TIME, 1);
+        const currentTurnSpeed = TURN_SPEED + (TURN_SPEED_MAX - TURN_SPEED) * turnProgress;
+        
+        player.rotation += currentTurnSpeed;
+        
+        // Normalize rotation to [0, 2π]
+        if (player.rotation > Math.PI * 2) {
+          player.rotation -= Math.PI * 2;
+        }
+      }
+
+      // Map forces: gravity wells and wind push, nebulae add friction
+      this.applyGravity(player.position, player.velocity);
+      const cellKey = this.getCellKey(player.position);
+      const wind = this.windGrid.get(cellKey);
+      if (wind) {
+        player.velocity.x += WIND_VECTORS[wind].x * WIND_FORCE;
+        player.velocity.y += WIND_VECTORS[wind].y * WIND_FORCE;
+      }
+
+      // Apply friction
+      const friction = this.nebulaGrid.has(cellKey) ? NEBULA_FRICTION : FRICTION;
+      player.velocity.x *= friction;
+      player.velocity.y *= friction;
+
+      // Calculate new position
+      const newX = player.position.x + player.velocity.x;
+      const newY = player.position.y + player.velocity.y;
+      
+      // Check wall collision (Ghost Mode doesn't bypass walls)
+      const contact = this.findWallContact(newX, newY, SHIP_MAX_RADIUS);
+      const collisionNormal = contact?.normal;
+      if (contact && collisionNormal) {
+        // Reflect velocity vector off the wall normal
+        // Formula: v' = v - 2(v·n)n
+        const dotProduct = player.velocity.x * collisionNormal.x + player.velocity.y * collisionNormal.y;
+        player.velocity.x = player.velocity.x - 2 * dotProduct * collisionNormal.x;
+        player.velocity.y = player.velocity.y - 2 * dotProduct * collisionNormal.y;
+        
+        // Walls absorb part of the speed, bouncy tiles add some
+        const bounce = contact.block.kind === 'BOUNCY' ? BOUNCY_TILE_RESTITUTION : WALL_BOUNCE_DAMPING;
+        player.velocity.x *= bounce;
+        player.velocity.y *= bounce;
+        
+        // Don't update position - stay at current position
+      } else if (!contact) {
+        // Update position if no collision
+        player.position.x = newX;
+        player.position.y = newY;
+      }
+      // Otherwise the center would end up inside a wall: stay at the current position
+
+      // Screen wrapping
+      const worldWidth = (this.gameState.mapWidth || GRID_WIDTH) * BLOCK_SIZE;
+      const worldHeight = (this.gameState.mapHeight || GRID_HEIGHT) * BLOCK_SIZE;
+
+      if (player.position.x < 0) player.position.x += worldWidth;
+      if (player.position.x > worldWidth) player.position.x -= worldWidth;
+      if (player.position.y < 0) player.position.y += worldHeight;
+      if (player.position.y > worldHeight) player.position.y -= worldHeight;
+    }
+  }
+
+  private updateBullets(): void {
+    // Update bullet positions and check wall collisions
+    this.gameState.bullets = this.gameState.bullets.filter(bullet => {
+      this.applyGravity(bullet.position, bullet.velocity);
+      bullet.position.x += bullet.velocity.x;
+      bullet.position.y += bullet.velocity.y;
+      
+      const wall = this.findCollidingBlock(bullet.position.x, bullet.position.y, BULLET_RADIUS, stopsBullets);
+      if (!wall) return true; // Keep bullet
+
+      if (wall.kind === 'BOUNCY') {
+        const normal = this.getCollisionNormal(bullet.position.x, bullet.position.y, wall);
+        if (normal) {
+          // Ricochet: step back out of the tile and reflect
+          bullet.position.x -= bullet.velocity.x;
+          bullet.position.y -= bullet.velocity.y;
+          const dotProduct = bullet.velocity.x * normal.x + bullet.velocity.y * normal.y;
+          bullet.velocity.x -= 2 * dotProduct * normal.x;
+          bullet.velocity.y -= 2 * dotProduct * normal.y;
+          return true;
+        }
+      } else if (wall.kind === 'DESTRUCTIBLE') {
+        this.damageBlock(wall, bullet.isMega ? MEGA_BULLET_BLOCK_DAMAGE : 1);
+      }
+
+      return false; // Remove bullet
+    });
+  }
+
+  /**
+   * Pull toward every gravity well in reach, harder closer to its center
+   */
+  private applyGravity(position: Vector2D, velocity: Vector2D): void {
+    for (const well of this.gameState.environment.gravityWells) {
+      const center = this.getCellCenter(well);
+      const dx = center.x - position.x;
+      const dy = center.y - position.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      // Nothing to pull toward once on the center
+      if (distance >= GRAVITY_WELL_RADIUS || distance < 1) continue;
+
+      const pull = GRAVITY_WELL_STRENGTH * (1 - distance / GRAVITY_WELL_RADIUS);
+      velocity.x += (dx / distance) * pull;
+      velocity.y += (dy / distance) * pull;
+    }
+  }
+
+  private getCellKey(position: Vector2D): string {
+    return `${Math.floor(position.x / BLOCK_SIZE)},${Math.floor(position.y / BLOCK_SIZE)}`;
+  }
+
+  /**
+   * Move ships (and bullets, through wormholes) standing on a pad to its partner, keeping their velocity
+   */
+  private updateTeleporters(): void {
+    if (this.gameState.teleporters.length === 0) return;
+
+    const now = this.clock.now();
+    const seen = new Set<string>();
+    for (const player of this.gameState.players.values()) {
+      if (!player.isAlive || !player.isConnected) continue;
+      seen.add(`ship:${player.id}`);
+      this.tryTeleport(`ship:${player.id}`, player.position, false, now);
+    }
+    for (const bullet of this.gameState.bullets) {
+      seen.add(`bullet:${bullet.id}`);
+      this.tryTeleport(`bullet:${bullet.id}`, bullet.position, true, now);
+    }
+
+    // Forget ships that died and bullets that hit something
+    for (const id of this.teleportCooldowns.keys()) {
+      if (!seen.has(id)) this.teleportCooldowns.delete(id);
+    }
+  }
+
+  private tryTeleport(id: string, position: { x: number; y: number }, isBullet: boolean, now: number): void {
+    const exit = this.findTeleporterExit(position, isBullet);
+
+    // Without the cooldown the exit pad would send it straight back, and a ship
+    // parked on the exit pad must leave it before it can teleport again
+    const cooldown = this.teleportCooldowns.get(id);
+    if (cooldown !== undefined) {
+      if (cooldown > now || exit) return;
+      this.teleportCooldowns.delete(id);
+    }
+    if (!exit) return;
+
+    const center = this.getCellCenter(exit);
+    position.x = center.x;
+    position.y = center.y;
+    this.teleportCooldowns.set(id, now + TELEPORTER_COOLDOWN);
+  }
+
+  /**
+   * Partner of the pad under a position (null if it is not on a pad it can use)
+   */
+  private findTeleporterExit(position: { x: number; y: number }, isBullet: boolean): GridPosition | null {
+    for (const teleporter of this.gameState.teleporters) {
+      if (isBullet && !teleporter.bullets) continue;
+
+      for (let i = 0; i < 2; i++) {
+        const entry = this.getCellCenter(teleporter.pads[i]);
+        const dx = position.x - entry.x;
+        const dy = position.y - entry.y;
+        if (dx * dx + dy * dy < TELEPORTER_RADIUS * TELEPORTER_RADIUS) {
+          return teleporter.pads[1 - i];
+        }
+      }
+    }
+    return null;
+  }
+
+  private checkCollisions(): void {
+    // Bullet-Ship collisions
+    for (let i = this.gameState.bullets.length - 1; i >= 0; i--) {
+      const bullet = this.gameState.bullets[i];
+      
+      for (const player of this.gameState.players.values()) {
+        // Skip if bullet is from this player or player is dead/frozen
+        if (bullet.playerId === player.id || !player.isAlive || !player.isConnected) continue;
+
+        // Without friendly fire, bullets fly through teammates
+        const shooter = this.gameState.players.get(bullet.playerId);
+        if (!this.teams.canDamage(shooter, player)) continue;
+
+        const dx = bullet.position.x - player.position.x;
+        const dy = bullet.position.y - player.position.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+
+        if (distance < SHIP_MAX_RADIUS + BULLET_RADIUS) {
+          // Check shield
+          if (player.shieldHits && player.shieldHits > 0) {
+            // Shield absorbs hit
+            player.shieldHits--;
+            this.onPlayerDirty?.(player.id);
+            
+            // Remove bullet
+            this.gameState.bullets.splice(i, 1);
+            break;
+          }
+          
+          // Hit!
+          this.killPlayer(player, bullet.playerId);
+
+          // Remove bullet
+          this.gameState.bullets.splice(i, 1);
+          break;
+        }
+      }
+    }
+
+    // Ship-Ship collisions (elastic collisions)
+    const players = Array.from(this.gameState.players.values());
+    for (let i = 0; i < players.length; i++) {
+      const p1 = players[i];
+      if (!p1.isAlive || !p1.isConnected) continue;
+
+      for (let j = i + 1; j < players.length; j++) {
+        const p2 = players[j];
+        if (!p2.isAlive || !p2.isConnected) continue;
+
+        const dx = p2.position.x - p1.position.x;
+        const dy = p2.position.y - p1.position.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+
+        if (distance < COLLISION_DISTANCE) {
+          // Check for ghost mode on either player
+          const p1HasGhost = p1.activePowerUps.some(e => e.type === PowerUpType.GHOST_MODE);
+          const p2HasGhost = p2.activePowerUps.some(e => e.type === PowerUpType.GHOST_MODE);
+          
+          // Skip collision if either player has ghost mode
+          if (p1HasGhost || p2HasGhost) {
+            continue;
+          }
+          
+          // Elastic collision
+          this.resolveElasticCollision(p1, p2, dx, dy, distance);
+        }
+      }
+    }
+  }
+
+  /**
+   * Destroy a ship, score the kill and schedule the respawn
+   * (unless that was the ship's last life in an elimination round)
+   */
+  killPlayer(player: Player, killerId: string | null): void {
+    player.isAlive = false;
+    this.onPlayerDirty?.(player.id);
+
+    const killer = killerId ? this.gameState.players.get(killerId) : undefined;
+    if (killer) {
+      this.teams.scoreKill(killer, player);
+      this.onPlayerDirty?.(killer.id);
+    }
+
+    // Out of lives: the player spectates until the round ends
+    if (!this.elimination.loseLife(player)) return;
+
+    // Respawn killed player after delay (replaces any pending respawn)
+    this.scheduler.schedule(`respawn:${player.id}`, msToTicks(this.gameState.settings.respawnDelay), () => {
+      if (this.gameState.players.has(player.id)) {
+        player.isAlive = true;
+        player.position = this.getSpawnPosition();
+        player.velocity = { x: 0, y: 0 };
+        player.rotation = randomAngle(this.random);
+        this.onPlayerDirty?.(player.id);
+      }
+    });
+  }
+
+  private resolveElasticCollision(p1: Player, p2: Player, dx: number, dy: number, distance: number): void {
+    // Normalize collision vector
+    const nx = dx / distance;
+    const ny = dy / distance;
+
+    // Relative velocity
+    const dvx = p2.velocity.x - p1.velocity.x;
+    const dvy = p2.velocity.y - p1.velocity.y;
+
+    // Relative velocity in collision normal direction
+    const dvn = dvx * nx + dvy * ny;
+
+    // Do not resolve if velocities are separating
+    if (dvn > 0) return;
+
+    // Calculate impulse scalar
+    const impulse = (-(1 + RESTITUTION) * dvn) / 2; // Equal mass assumption
+
+    // Apply impulse
+    p1.velocity.x -= impulse * nx;
+    p1.velocity.y -= impulse * ny;
+    p2.velocity.x += impulse * nx;
+    p2.velocity.y += impulse * ny;
+
+    // Separate overlapping ships
+    const overlap = COLLISION_DISTANCE - distance;
+    const separationX = (overlap / 2) * nx;
+    const separationY = (overlap / 2) * ny;
+    
+    p1.position.x -= separationX;
+    p1.position.y -= separationY;
+    p2.position.x += separationX;
+    p2.position.y += separationY;
+  }
+
+  private removeDeadBullets(): void {
+    const now = this.clock.now();
+    
+    // Remove bullets that are off-screen or too old
+    this.gameState.bullets = this.gameState.bullets.filter(bullet => {
+      // Check age
+      if (now - bullet.spawnTime > BULLET_LIFETIME) {
+        return false;
+      }
+
+      // Check if off-screen
+      const worldWidth = (this.gameState.mapWidth || GRID_WIDTH) * BLOCK_SIZE;
+      const worldHeight = (this.gameState.mapHeight || GRID_HEIGHT) * BLOCK_SIZE;
+
+      if (
+        bullet.position.x < 0 ||
+        bullet.position.x > worldWidth ||
+        bullet.position.y < 0 ||
+        bullet.position.y > worldHeight
+      ) {
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Where a ship (re)spawns: a free spawn point of the map if it has any,
+   * else a random position clear of walls
+   */
+  getSpawnPosition(): { x: number; y: number } {
+    const freeSpawnPoints = this.gameState.spawnPoints.filter(point => this.isSpawnPointFree(point));
+    if (freeSpawnPoints.length > 0) {
+      const point = freeSpawnPoints[randomInt(this.random, freeSpawnPoints.length)];
+      return this.getCellCenter(point);
+    }
+
+    return this.getRandomSpawnPosition();
+  }
+
+  private isSpawnPointFree(point: GridPosition): boolean {
+    const center = this.getCellCenter(point);
+    for (const player of this.gameState.players.values()) {
+      if (!player.isAlive) continue;
+      const dx = player.position.x - center.x;
+      const dy = player.position.y - center.y;
+      if (dx * dx + dy * dy < COLLISION_DISTANCE * COLLISION_DISTANCE) return false;
+    }
+    return true;
+  }
+
+  private getCellCenter(cell: GridPosition): { x: number; y: number } {
+    return {
+      x: cell.gridX * BLOCK_SIZE + BLOCK_SIZE / 2,
+      y: cell.gridY * BLOCK_SIZE + BLOCK_SIZE / 2,
+    };
+  }
+
+  private getRandomSpawnPosition(): { x: number; y: number } {
+    const gridWidth = this.gameState.mapWidth || GRID_WIDTH;
+    const gridHeight = this.gameState.mapHeight || GRID_HEIGHT;
+
+    // Try to find a valid spawn position that doesn't collide with walls
+    const maxAttempts = 30;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const x = this.random.next() * gridWidth * BLOCK_SIZE;
+      const y = this.random.next() * gridHeight * BLOCK_SIZE;
+
+      // Check if this position is clear of walls
+      if (!this.collidesWithWalls(x, y, SHIP_MAX_RADIUS)) {
+        return { x, y };
+      }
+    }
+
+    // Fallback: systematically search grid centers
+    // Center of block is safest: BLOCK_SIZE/2 + i * BLOCK_SIZE
+    console.warn('[PhysicsEngine] Random spawn failed, searching grid centers...');
+
+    // Create a randomized order of grid indices to avoid always spawning top-left
+    const gridIndices: GridPosition[] = [];
+    // Skip outer edges (0 and MAX-1) to avoid map boundaries
+    for (let gridY = 1; gridY < gridHeight - 1; gridY++) {
+      for (let gridX = 1; gridX < gridWidth - 1; gridX++) {
+        gridIndices.push({ gridX, gridY });
+      }
+    }
+
+    // Shuffle indices for variety even in fallback
+    for (let i = gridIndices.length - 1; i > 0; i--) {
+      const j = randomInt(this.random, i + 1);
+      [gridIndices[i], gridIndices[j]] = [gridIndices[j], gridIndices[i]];
+    }
+
+    // Check each grid center
+    for (const cell of gridIndices) {
+      const center = this.getCellCenter(cell);
+      if (!this.collidesWithWalls(center.x, center.y, SHIP_MAX_RADIUS)) {
+        console.log(`[PhysicsEngine] Found spawn at grid center (${center.x}, ${center.y})`);
+        return center;
+      }
+    }
+
+    // Last resort: force spawn at top-left corner (should never happen with proper maps)
+    console.error('[PhysicsEngine] NO VALID SPAWN FOUND! Using emergency position');
+    return { x: 90, y: 90 };
+  }
+
+  /**
+   * Clear respawn timer for a player (called on disconnect)
+   */
+  clearRespawnTimer(playerId: string): void {
+    this.scheduler.cancel(`respawn:${playerId}`);
+  }
+
+  // ========================================
+  // Wall Collision Helpers
+  // ========================================
+
+  /**
+   * Check if a circle collides with any wall block
+   */
+  private collidesWithWalls(x: number, y: number, radius: number): boolean {
+    return this.findCollidingBlock(x, y, radius) !== null;
+  }
+
+  /**
+   * First block the circle overlaps (optionally only blocks that pass the filter)
+   */
+  private findCollidingBlock(x: number, y: number, radius: number, filter?: (block: Block) => boolean): Block | null {
+    let found: Block | null = null;
+    this.forEachNearbyBlock(x, y, radius, block => {
+      if ((!filter || filter(block)) && this.circleRectCollision(x, y, radius, block)) {
+        found = block;
+        return true;
+      }
+      return false;
+    });
+    return found;
+  }
+
+  /**
+   * Wall a circle at this position runs into, and the normal to bounce off it. Every
+   * overlapping wall is tried, the normal is null only if the center is inside all of them.
+   */
+  private findWallContact(x: number, y: number, radius: number): { block: Block; normal: Vector2D | null } | null {
+    let contact: { block: Block; normal: Vector2D | null } | null = null;
+    this.forEachNearbyBlock(x, y, radius, block => {
+      if (!this.circleRectCollision(x, y, radius, block)) return false;
+
+      const normal = this.getCollisionNormal(x, y, block);
+      if (!contact || normal) {
+        contact = { block, normal };
+      }
+      return normal !== null;
+    });
+    return contact;
+  }
+
+  /**
+   * Visit the blocks in the grid cells a circle could overlap, until the visitor returns true
+   * Uses spatial grid for O(1) lookup instead of O(n)
+   */
+  private forEachNearbyBlock(x: number, y: number, radius: number, visit: (block: Block) => boolean): void {
+    const gridWidth = this.gameState.mapWidth || GRID_WIDTH;
+    const gridHeight = this.gameState.mapHeight || GRID_HEIGHT;
+
+    // Calculate which grid cells the circle could overlap
+    const minGridX = Math.max(0, Math.floor((x - radius) / BLOCK_SIZE));
+    const maxGridX = Math.min(gridWidth - 1, Math.floor((x + radius) / BLOCK_SIZE));
+    const minGridY = Math.max(0, Math.floor((y - radius) / BLOCK_SIZE));
+    const maxGridY = Math.min(gridHeight - 1, Math.floor((y + radius) / BLOCK_SIZE));
+
+    // Check only blocks in the relevant grid cells
+    for (let gridY = minGridY; gridY <= maxGridY; gridY++) {
+      for (let gridX = minGridX; gridX <= maxGridX; gridX++) {
+        const blocks = this.spatialGrid.get(`${gridX},${gridY}`);
+        if (!blocks) continue;
+
+        for (const block of blocks) {
+          if (visit(block)) return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Circle-Rectangle collision detection
+   */
+  private circleRectCollision(cx: number, cy: number, radius: number, block: Block): boolean {
+    const rectX = block.gridX * BLOCK_SIZE;
+    const rectY = block.gridY * BLOCK_SIZE;
+    const rectWidth = BLOCK_SIZE;
+    const rectHeight = BLOCK_SIZE;
+
+    // Find the closest point on the rectangle to the circle
+    const closestX = Math.max(rectX, Math.min(cx, rectX + rectWidth));
+    const closestY = Math.max(rectY, Math.min(cy, rectY + rectHeight));
+
+    // Calculate distance from closest point to circle center
+    const distanceX = cx - closestX;
+    const distanceY = cy - closestY;
+    const distanceSquared = distanceX * distanceX + distanceY * distanceY;
+
+    return distanceSquared < radius * radius;
+  }
+
+  /**
+   * Get the collision normal for proper reflection physics
+   * Returns a normalized vector pointing away from the block,
+   * or null if the center is inside the block
+   */
+  private getCollisionNormal(cx: number, cy: number, block: Block): { x: number; y: number } | null {
+    const rectX = block.gridX * BLOCK_SIZE;
+    const rectY = block.gridY * BLOCK_SIZE;
+
+    // Find the closest point on the rectangle to the circle
+    const closestX = Math.max(rectX, Math.min(cx, rectX + BLOCK_SIZE));
+    const closestY = Math.max(rectY, Math.min(cy, rectY + BLOCK_SIZE));
+
+    // Calculate normal direction (from closest point to circle center)
+    const normalX = cx - closestX;
+    const normalY = cy - closestY;
+
+    // Normalize the vector
+    const length = Math.sqrt(normalX * normalX + normalY * normalY);
+    if (length === 0) return null;
+
+    return {
+      x: normalX / length,
+      y: normalY / length,
+    };
+  }
+}
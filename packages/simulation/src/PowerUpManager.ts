@@ -2,14 +2,12 @@ import type { GameState, PowerUp, Mine, Player } from '@astroparty/shared';
 import {
   PowerUpType,
   POWERUP_CONFIGS,
-  ActivePowerUpEffect,
 } from '@astroparty/shared';
 import {
-  GAME_WIDTH,
-  GAME_HEIGHT,
+  GRID_WIDTH,
+  GRID_HEIGHT,
   POWERUP_RADIUS,
   POWERUP_LIFETIME,
-  POWERUP_SPAWN_INTERVAL,
   MAX_POWERUPS_ON_MAP,
   MINE_RADIUS,
   MINE_LIFETIME,
@@ -22,19 +20,38 @@ import {
   SHIELD_MAX_HITS,
   MINE_TRAP_COUNT,
   AMMO_BOOST_RELOAD_MULTIPLIER,
+  BLOCK_SIZE,
+  MINE_BLOCK_DAMAGE,
 } from '@astroparty/shared';
 
 import type { PhysicsEngine } from './PhysicsEngine.js';
+import type { Clock } from './Clock.js';
+import type { Random } from './Random.js';
+import { randomInt } from './Random.js';
+import type { TeamManager } from './TeamManager.js';
 
 export class PowerUpManager {
   private gameState: GameState;
   private physicsEngine: PhysicsEngine;
+  private clock: Clock;
+  private random: Random;
+  private teams: TeamManager;
   private lastSpawnTime: number = 0;
-  private respawnTimers: Map<string, NodeJS.Timeout> = new Map(); // Track mine respawn timers
-
-  constructor(gameState: GameState, physicsEngine: PhysicsEngine, private onPlayerDirty?: (playerId: string) => void) {
+  private nextEntityId = 1;
+
+  constructor(
+    gameState: GameState,
+    physicsEngine: PhysicsEngine,
+    clock: Clock,
+    random: Random,
+    teams: TeamManager,
+    private onPlayerDirty?: (playerId: string) => void
+  ) {
     this.gameState = gameState;
     this.physicsEngine = physicsEngine;
+    this.clock = clock;
+    this.random = random;
+    this.teams = teams;
   }
 
   update(): void {
@@ -47,13 +64,13 @@ export class PowerUpManager {
   }
 
   private updatePowerUpSpawning(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     
     // Spawn new power-up if conditions are met
     if (
       this.gameState.isRoundActive &&
       this.gameState.powerUps.length < MAX_POWERUPS_ON_MAP &&
-      now - this.lastSpawnTime >= POWERUP_SPAWN_INTERVAL
+      now - this.lastSpawnTime >= this.gameState.settings.powerUpSpawnInterval
     ) {
       this.spawnPowerUp();
       this.lastSpawnTime = now;
@@ -61,22 +78,38 @@ export class PowerUpManager {
   }
 
   private spawnPowerUp(): void {
+    const position = this.getSpawnPosition();
+    if (!position) return; // Every pad is taken
+
+    this.createPowerUp(position);
+  }
+
+  /**
+   * Drop a random power-up at a position (broken asteroids), unless the map is full
+   */
+  dropPowerUp(position: { x: number; y: number }): void {
+    if (this.gameState.powerUps.length >= MAX_POWERUPS_ON_MAP) return;
+
+    this.createPowerUp({ x: position.x, y: position.y });
+  }
+
+  private createPowerUp(position: { x: number; y: number }): void {
     // Random power-up type
     const types = Object.values(PowerUpType);
-    const randomType = types[Math.floor(Math.random() * types.length)];
+    const randomType = types[randomInt(this.random, types.length)];
 
     const powerUp: PowerUp = {
-      id: `powerup-${Date.now()}-${Math.random()}`,
+      id: `powerup-${this.nextEntityId++}`,
       type: randomType,
-      position: this.getRandomPosition(),
-      spawnTime: Date.now(),
+      position,
+      spawnTime: this.clock.now(),
     };
 
     this.gameState.powerUps.push(powerUp);
   }
 
   private updatePowerUpLifetime(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     
     // Remove expired power-ups
     this.gameState.powerUps = this.gameState.powerUps.filter(
@@ -89,7 +122,7 @@ export class PowerUpManager {
       const powerUp = this.gameState.powerUps[i];
 
       for (const player of this.gameState.players.values()) {
-        if (!player.isAlive) continue;
+        if (!player.isAlive || !player.isConnected) continue;
 
         const dx = powerUp.position.x - player.position.x;
         const dy = powerUp.position.y - player.position.y;
@@ -104,7 +137,7 @@ export class PowerUpManager {
           this.gameState.recentPickups.push({
             type: powerUp.type,
             position: { x: powerUp.position.x, y: powerUp.position.y },
-            timestamp: Date.now(),
+            timestamp: this.clock.now(),
           });
           
           // Remove power-up
@@ -117,7 +150,7 @@ export class PowerUpManager {
 
   private applyPowerUpEffect(player: Player, type: PowerUpType): void {
     const config = POWERUP_CONFIGS[type];
-    const now = Date.now();
+    const now = this.clock.now();
 
     switch (type) {
       case PowerUpType.AMMO_BOOST:
@@ -191,20 +224,21 @@ export class PowerUpManager {
 
       case PowerUpType.REVERSE_CONTROLS:
         // Apply to random enemy
-        this.applyReverseControlsToRandomEnemy(player.id, config.duration);
+        this.applyReverseControlsToRandomEnemy(player, config.duration);
         break;
     }
   }
 
-  private applyReverseControlsToRandomEnemy(excludePlayerId: string, duration: number): void {
+  private applyReverseControlsToRandomEnemy(collector: Player, duration: number): void {
+    // Teammates are never targeted
     const enemies = Array.from(this.gameState.players.values()).filter(
-      p => p.id !== excludePlayerId && p.isAlive
+      p => p.id !== collector.id && p.isAlive && p.isConnected && !this.teams.areTeammates(collector, p)
     );
 
     if (enemies.length === 0) return;
 
-    const randomEnemy = enemies[Math.floor(Math.random() * enemies.length)];
-    const now = Date.now();
+    const randomEnemy = enemies[randomInt(this.random, enemies.length)];
+    const now = this.clock.now();
 
     randomEnemy.activePowerUps.push({
       type: PowerUpType.REVERSE_CONTROLS,
@@ -215,7 +249,7 @@ export class PowerUpManager {
   }
 
   private updateActivePowerUps(): void {
-    const now = Date.now();
+    const now = this.clock.now();
 
     for (const player of this.gameState.players.values()) {
       const sizeBefore = player.activePowerUps.length;
@@ -263,10 +297,10 @@ export class PowerUpManager {
 
     // Create mine at player's position
     const mine: Mine = {
-      id: `mine-${Date.now()}-${Math.random()}`,
+      id: `mine-${this.nextEntityId++}`,
       playerId,
       position: { x: player.position.x, y: player.position.y },
-      spawnTime: Date.now(),
+      spawnTime: this.clock.now(),
     };
 
     this.gameState.mines.push(mine);
@@ -277,7 +311,7 @@ export class PowerUpManager {
   }
 
   private updateMines(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     
     // Remove expired mines
     this.gameState.mines = this.gameState.mines.filter(
@@ -289,9 +323,12 @@ export class PowerUpManager {
     for (let i = this.gameState.mines.length - 1; i >= 0; i--) {
       const mine = this.gameState.mines[i];
 
+      const owner = this.gameState.players.get(mine.playerId);
       for (const player of this.gameState.players.values()) {
-        // Skip mine owner and dead players
-        if (player.id === mine.playerId || !player.isAlive) continue;
+        // Skip mine owner and dead/frozen players
+        if (player.id === mine.playerId || !player.isAlive || !player.isConnected) continue;
+        // Teammates don't trigger mines they can't be hurt by
+        if (!this.teams.canDamage(owner, player)) continue;
 
         const dx = mine.position.x - player.position.x;
         const dy = mine.position.y - player.position.y;
@@ -307,9 +344,11 @@ export class PowerUpManager {
   }
 
   private explodeMine(mine: Mine, mineIndex: number): void {
+    const owner = this.gameState.players.get(mine.playerId);
+
     // Check all players in explosion radius
     for (const player of this.gameState.players.values()) {
-      if (!player.isAlive) continue;
+      if (!player.isAlive || !player.isConnected) continue;
 
       const dx = mine.position.x - player.position.x;
       const dy = mine.position.y - player.position.y;
@@ -318,41 +357,21 @@ export class PowerUpManager {
       if (distance < MINE_EXPLOSION_RADIUS) {
         // Player hit by mine explosion
         if (player.id === mine.playerId) continue; // Don't damage self
+        if (!this.teams.canDamage(owner, player)) continue; // Friendly fire off
 
         // Check shield
         if (player.shieldHits && player.shieldHits > 0) {
           player.shieldHits--;
           this.onPlayerDirty?.(player.id);
         } else {
-          player.isAlive = false;
-          this.onPlayerDirty?.(player.id);
-
-          // Award point to mine owner
-          const mineOwner = this.gameState.players.get(mine.playerId);
-          if (mineOwner) {
-            mineOwner.score++;
-            this.onPlayerDirty?.(mineOwner.id);
-          }
-
-          // Respawn after delay
-          const respawnTimer = setTimeout(() => {
-            if (this.gameState.players.has(player.id)) {
-              player.isAlive = true;
-              player.position = this.getRandomPosition();
-              player.velocity = { x: 0, y: 0 };
-              player.rotation = Math.random() * Math.PI * 2;
-              this.onPlayerDirty?.(player.id);
-            }
-            this.respawnTimers.delete(player.id);
-          }, 2000);
-          
-          // Clear any existing timer and store new one
-          this.clearRespawnTimer(player.id);
-          this.respawnTimers.set(player.id, respawnTimer);
+          // Scores the mine owner and schedules the respawn
+          this.physicsEngine.killPlayer(player, mine.playerId);
         }
       }
     }
 
+    this.physicsEngine.damageBlocksInRadius(mine.position.x, mine.position.y, MINE_EXPLOSION_RADIUS, MINE_BLOCK_DAMAGE);
+
     // Remove mine
     this.gameState.mines.splice(mineIndex, 1);
   }
@@ -381,11 +400,13 @@ export class PowerUpManager {
     player.position.x += dashDirX * DASH_DISTANCE;
     player.position.y += dashDirY * DASH_DISTANCE;
 
-    // Wrap around screen
-    if (player.position.x < 0) player.position.x += GAME_WIDTH;
-    if (player.position.x > GAME_WIDTH) player.position.x -= GAME_WIDTH;
-    if (player.position.y < 0) player.position.y += GAME_HEIGHT;
-    if (player.position.y > GAME_HEIGHT) player.position.y -= GAME_HEIGHT;
+    // Wrap around the map
+    const worldWidth = (this.gameState.mapWidth || GRID_WIDTH) * BLOCK_SIZE;
+    const worldHeight = (this.gameState.mapHeight || GRID_HEIGHT) * BLOCK_SIZE;
+    if (player.position.x < 0) player.position.x += worldWidth;
+    if (player.position.x > worldWidth) player.position.x -= worldWidth;
+    if (player.position.y < 0) player.position.y += worldHeight;
+    if (player.position.y > worldHeight) player.position.y -= worldHeight;
 
     player.dashCharges--;
     this.onPlayerDirty?.(player.id);
@@ -407,33 +428,45 @@ export class PowerUpManager {
     if (player.activePowerUps.some(e => e.type === PowerUpType.AMMO_BOOST)) {
       return AMMO_BOOST_SIZE;
     }
-    return 3; // Default AMMO_CLIP_SIZE
+    return this.gameState.settings.clipSize;
   }
 
   clearAllPowerUps(): void {
     this.gameState.powerUps = [];
     this.gameState.mines = [];
-    this.lastSpawnTime = Date.now(); // Reset spawn timer
+    this.lastSpawnTime = this.clock.now(); // Reset spawn timer
   }
 
+
   /**
-   * Clear respawn timer for a player (called on disconnect)
+   * A free power-up pad if the map has pads (null when they are all taken),
+   * else a random position clear of walls
    */
-  clearRespawnTimer(playerId: string): void {
-    const timer = this.respawnTimers.get(playerId);
-    if (timer) {
-      clearTimeout(timer);
-      this.respawnTimers.delete(playerId);
+  private getSpawnPosition(): { x: number; y: number } | null {
+    if (this.gameState.powerUpPads.length === 0) {
+      return this.getRandomPosition();
     }
+
+    const freePads = this.gameState.powerUpPads
+      .map(pad => ({ x: pad.gridX * BLOCK_SIZE + BLOCK_SIZE / 2, y: pad.gridY * BLOCK_SIZE + BLOCK_SIZE / 2 }))
+      .filter(center => !this.gameState.powerUps.some(powerUp =>
+        Math.abs(powerUp.position.x - center.x) < BLOCK_SIZE / 2 &&
+        Math.abs(powerUp.position.y - center.y) < BLOCK_SIZE / 2
+      ));
+    if (freePads.length === 0) return null;
+
+    return freePads[randomInt(this.random, freePads.length)];
   }
 
   private getRandomPosition(): { x: number; y: number } {
     // Try to find a valid spawn position that doesn't collide with walls
     const maxAttempts = 50;
+    const worldWidth = (this.gameState.mapWidth || GRID_WIDTH) * BLOCK_SIZE;
+    const worldHeight = (this.gameState.mapHeight || GRID_HEIGHT) * BLOCK_SIZE;
     
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const x = Math.random() * GAME_WIDTH;
-      const y = Math.random() * GAME_HEIGHT;
+      const x = this.random.next() * worldWidth;
+      const y = this.random.next() * worldHeight;
       
       // Check if this position is clear of walls (use smaller radius for power-ups)
       if (!this.physicsEngine.isPositionInsideWall(x, y, POWERUP_RADIUS)) {
@@ -443,8 +476,8 @@ export class PowerUpManager {
     
     // Fallback: return center if we couldn't find a spot
     return {
-      x: GAME_WIDTH / 2,
-      y: GAME_HEIGHT / 2,
+      x: worldWidth / 2,
+      y: worldHeight / 2,
     };
   }
 }
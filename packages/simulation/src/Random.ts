@@ -0,0 +1,39 @@
+/**
+ * Source of randomness for the simulation
+ */
+export interface Random {
+  next(): number; // [0, 1)
+}
+
+/**
+ * Small seeded PRNG (mulberry32). Same seed, same sequence.
+ */
+export class SeededRandom implements Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+/**
+ * Random integer in [0, max)
+ */
+export function randomInt(random: Random, max: number): number {
+  return Math.floor(random.next() * max);
+}
+
+/**
+ * Random angle in [0, 2π)
+ */
+export function randomAngle(random: Random): number {
+  return random.next() * Math.PI * 2;
+}
@@ -0,0 +1,177 @@
+import type { GameState, GameModeConfig, Player, TeamScore } from '@astroparty/shared';
+import {
+  PLAYER_COLORS,
+  PLAYER_COLOR_HUES,
+  MIN_TEAMS,
+  MAX_TEAMS,
+  TEAM_NAMES,
+  MIN_LIVES,
+  MAX_LIVES,
+  DEFAULT_LIVES,
+} from '@astroparty/shared';
+import { z } from 'zod';
+
+export const DEFAULT_GAME_MODE_CONFIG: GameModeConfig = {
+  mode: 'FREE_FOR_ALL',
+  teamCount: 2,
+  friendlyFire: 'OFF',
+  winCondition: 'FRAGS',
+  lives: DEFAULT_LIVES,
+};
+
+const GameModeConfigSchema = z.object({
+  mode: z.enum(['FREE_FOR_ALL', 'TEAM_DEATHMATCH']),
+  teamCount: z.number().int().min(MIN_TEAMS).max(MAX_TEAMS),
+  friendlyFire: z.enum(['OFF', 'ON', 'PENALTY']),
+  winCondition: z.enum(['FRAGS', 'ELIMINATION']),
+  lives: z.number().int().min(MIN_LIVES).max(MAX_LIVES),
+});
+
+/**
+ * Team assignment, team colors and the scoring rules between teammates
+ */
+export class TeamManager {
+  private gameState: GameState;
+
+  constructor(gameState: GameState) {
+    this.gameState = gameState;
+  }
+
+  /**
+   * Validate an untrusted mode config. Returns null if it is malformed.
+   */
+  static parseConfig(config: unknown): GameModeConfig | null {
+    const result = GameModeConfigSchema.safeParse(config);
+    return result.success ? result.data : null;
+  }
+
+  isTeamMode(): boolean {
+    return this.gameState.modeConfig.mode === 'TEAM_DEATHMATCH';
+  }
+
+  areTeammates(a: Player, b: Player): boolean {
+    return a.id !== b.id && a.team !== null && a.team === b.team;
+  }
+
+  /**
+   * Whether an attack from this player can destroy the victim
+   */
+  canDamage(attacker: Player | undefined, victim: Player): boolean {
+    if (!attacker || !this.areTeammates(attacker, victim)) return true;
+    return this.gameState.modeConfig.friendlyFire !== 'OFF';
+  }
+
+  /**
+   * Score a kill: enemies are worth a point, teamkills nothing (or a penalty)
+   */
+  scoreKill(killer: Player | undefined, victim: Player): void {
+    if (!killer || killer.id === victim.id) return;
+
+    if (!this.areTeammates(killer, victim)) {
+      killer.score++;
+    } else if (this.gameState.modeConfig.friendlyFire === 'PENALTY') {
+      killer.score--;
+    }
+  }
+
+  /**
+   * Put a new player on the smallest team and give it the team's tint
+   */
+  assignTeam(player: Player): void {
+    if (!this.isTeamMode()) {
+      player.team = null;
+      return;
+    }
+
+    const sizes = this.getTeamSizes(player.id);
+    let team = 0;
+    for (let t = 1; t < sizes.length; t++) {
+      if (sizes[t] < sizes[team]) team = t;
+    }
+
+    player.team = team;
+    player.color = this.getMemberColor(team, sizes[team]);
+  }
+
+  /**
+   * Deal every player into teams again (after the mode changed)
+   */
+  reassignAll(): void {
+    const players = Array.from(this.gameState.players.values());
+
+    if (!this.isTeamMode()) {
+      players.forEach((player, index) => {
+        player.team = null;
+        player.color = PLAYER_COLORS[index % PLAYER_COLORS.length];
+      });
+      return;
+    }
+
+    const teamCount = this.gameState.modeConfig.teamCount;
+    players.forEach((player, index) => {
+      const team = index % teamCount;
+      player.team = team;
+      player.color = this.getMemberColor(team, Math.floor(index / teamCount));
+    });
+  }
+
+  /**
+   * Team totals, best first (empty in free-for-all)
+   */
+  getTeamScores(): TeamScore[] {
+    if (!this.isTeamMode()) return [];
+
+    const teams: TeamScore[] = [];
+    for (let team = 0; team < this.gameState.modeConfig.teamCount; team++) {
+      teams.push({ team, name: TEAM_NAMES[team], color: this.getTeamPalette(team)[0], score: 0 });
+    }
+    for (const player of this.gameState.players.values()) {
+      if (player.team !== null && teams[player.team]) {
+        teams[player.team].score += player.score;
+      }
+    }
+
+    return teams.sort((a, b) => b.score - a.score);
+  }
+
+  private getTeamSizes(excludePlayerId: string): number[] {
+    const sizes = new Array(this.gameState.modeConfig.teamCount).fill(0);
+    for (const player of this.gameState.players.values()) {
+      if (player.id !== excludePlayerId && player.team !== null && player.team < sizes.length) {
+        sizes[player.team]++;
+      }
+    }
+    return sizes;
+  }
+
+  private getMemberColor(team: number, memberIndex: number): string {
+    const palette = this.getTeamPalette(team);
+    return palette[memberIndex % palette.length];
+  }
+
+  /**
+   * Player colors closest to the team's hue, closest first.
+   * Team hues are spread evenly around the color wheel.
+   */
+  private getTeamPalette(team: number): string[] {
+    const teamCount = this.gameState.modeConfig.teamCount;
+    const centerOf = (t: number) => (PLAYER_COLOR_HUES[0] + (t * 360) / teamCount) % 360;
+    const hueDistance = (a: number, b: number) => {
+      const diff = Math.abs(a - b) % 360;
+      return Math.min(diff, 360 - diff);
+    };
+    const nearestTeam = (hue: number) => {
+      let best = 0;
+      for (let t = 1; t < teamCount; t++) {
+        if (hueDistance(hue, centerOf(t)) < hueDistance(hue, centerOf(best))) best = t;
+      }
+      return best;
+    };
+
+    return PLAYER_COLORS
+      .map((color, i) => ({ color, hue: PLAYER_COLOR_HUES[i] }))
+      .filter(entry => nearestTeam(entry.hue) === team)
+      .sort((a, b) => hueDistance(a.hue, centerOf(team)) - hueDistance(b.hue, centerOf(team)))
+      .map(entry => entry.color);
+  }
+}
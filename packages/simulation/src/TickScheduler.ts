@@ -0,0 +1,56 @@
+import { GAME_FPS } from '@astroparty/shared';
+
+/**
+ * Convert a duration in milliseconds to simulation ticks
+ */
+export function msToTicks(ms: number): number {
+  return Math.round(ms / (1000 / GAME_FPS));
+}
+
+interface ScheduledTask {
+  ticksLeft: number;
+  callback: () => void;
+}
+
+/**
+ * Keyed timers counted in simulation ticks (replaces setTimeout in the game logic).
+ * Scheduling a key that is already pending replaces the old task.
+ */
+export class TickScheduler {
+  private tasks: Map<string, ScheduledTask> = new Map();
+
+  schedule(key: string, delayTicks: number, callback: () => void): void {
+    this.tasks.set(key, { ticksLeft: Math.max(1, Math.round(delayTicks)), callback });
+  }
+
+  cancel(key: string): void {
+    this.tasks.delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.tasks.has(key);
+  }
+
+  clear(): void {
+    this.tasks.clear();
+  }
+
+  /**
+   * Advance one tick and run the tasks that are due
+   */
+  update(): void {
+    const due: ScheduledTask[] = [];
+
+    for (const [key, task] of this.tasks) {
+      task.ticksLeft--;
+      if (task.ticksLeft <= 0) {
+        this.tasks.delete(key);
+        due.push(task);
+      }
+    }
+
+    for (const task of due) {
+      task.callback();
+    }
+  }
+}
@@ -0,0 +1,6 @@
+export { GameSimulation } from './GameSimulation.js';
+export type { RoundWinner, SimulationListener, SimulationOptions } from './GameSimulation.js';
+export { TickClock } from './Clock.js';
+export type { Clock } from './Clock.js';
+export { SeededRandom, randomInt } from './Random.js';
+export type { Random } from './Random.js';